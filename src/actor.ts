@@ -25,24 +25,49 @@ import {
   Stream,
   SubscriptionRef,
 } from "effect";
-
-import type { Machine, Lifecycle } from "./machine.js";
+import type { Duration } from "effect";
+
+import type {
+  Machine,
+  MachineRef,
+  Lifecycle,
+  Recovery,
+  RecoveryContext,
+  StateHistory,
+} from "./machine.js";
 import { materializeMachine } from "./machine.js";
 import type { ActorExit, Supervision } from "./supervision.js";
-import type { ReplyTypeBrand, ExtractReply } from "./internal/brands.js";
+import type {
+  ReplyTypeBrand,
+  ReplyStreamTypeBrand,
+  ExtractReply,
+  ExtractReplyError,
+  ExtractReplyStreamItem,
+} from "./internal/brands.js";
 import type { SlotsDef, ProvideSlots } from "./slot.js";
 import type { Inspector } from "./inspection.js";
 import { Inspector as InspectorTag } from "./inspection.js";
-import { resolveTransition } from "./internal/transition.js";
+import { isFinalState, resolveTransition } from "./internal/transition.js";
 import type { ProcessEventHooks, ProcessEventResult } from "./internal/transition.js";
 import { emitWithTimestamp } from "./internal/inspection.js";
-import type { NoReplyError } from "./errors.js";
-import { DuplicateActorError, ActorStoppedError } from "./errors.js";
+import { resolveInput, withTimeout } from "./internal/utils.js";
+import type {
+  ActorFailedError,
+  ActorTimeoutError,
+  InvalidInputError,
+  NoReplyError,
+} from "./errors.js";
+import { DuplicateActorError, ActorStoppedError, MailboxFullError } from "./errors.js";
 import {
   createRuntime,
+  isHighPriority,
+  offerQueued,
+  offerSend,
+  releaseConflation,
   type RuntimeLifecycleHooks,
   type RuntimeQueuedEvent,
   type RuntimeHandle,
+  outputOf,
 } from "./internal/runtime.js";
 
 // Re-export for external use (cluster)
@@ -64,14 +89,64 @@ export type QueuedEvent<E> = RuntimeQueuedEvent<E>;
 // ActorRef Interface
 // ============================================================================
 
+/**
+ * A pending named timer started via `self.startTimer`.
+ */
+export interface PendingTimer<Event> {
+  readonly name: string;
+  readonly event: Event;
+  /** Time left until the timer fires */
+  readonly remaining: Duration.Duration;
+}
+
+/**
+ * Deadline for ActorRef operations that wait on the actor (`ask`, `call`, `waitFor`, ...).
+ * When it elapses the operation fails with `ActorTimeoutError`.
+ */
+export interface TimeoutOptions {
+  readonly timeout: Duration.Input;
+}
+
+/**
+ * Bounded mailbox for a spawned actor. `strategy` decides what `send` does when
+ * `capacity` messages are already queued:
+ * - `"suspend"` (default) — wait for room (back-pressure)
+ * - `"dropping"` — discard the new event
+ * - `"sliding"` — evict the oldest queued send to make room
+ * - `"fail"` — fail with `MailboxFullError`
+ *
+ * Requests (`call`, `ask`, `askStream`) always wait for room and are never dropped.
+ * Dropped events are reported as `@machine.drop` inspection events.
+ *
+ * Events with `.priority(..., "high")` are the exception: they go to an unbounded
+ * priority lane, so `capacity` does not count them and no strategy applies.
+ */
+export interface MailboxOptions {
+  readonly capacity: number;
+  readonly strategy?: "suspend" | "dropping" | "sliding" | "fail";
+}
+
+/** Error `send` can fail with for a mailbox — only the `"fail"` strategy surfaces one. */
+export type MailboxSendError<M> = M extends { readonly strategy: "fail" }
+  ? MailboxFullError
+  : never;
+
+/** Error spawn can fail with for a machine's input — only machines declaring one surface it. */
+export type SpawnInputError<I> = [I] extends [never] ? never : InvalidInputError;
+
 /**
  * Sync projection of ActorRef for non-Effect boundaries (React hooks, framework callbacks).
  */
 export interface ActorRefSync<State extends { readonly _tag: string }, Event> {
+  /**
+   * Applies the mailbox strategy like `ActorRef.send`, and throws `MailboxFullError` under
+   * `"fail"`. It cannot wait for room: where `send` would suspend, the offer is forked instead.
+   */
   readonly send: (event: Event) => void;
   readonly stop: () => void;
   readonly snapshot: () => State;
   readonly matches: (tag: State["_tag"]) => boolean;
+  /** Evaluates transition guards synchronously — throws if a guard is async; use `ActorRef.can` for those. */
   readonly can: (event: Event) => boolean;
 }
 
@@ -85,29 +160,65 @@ export interface TransitionInfo<State, Event> {
   readonly event: Event;
 }
 
-export interface ActorRef<State extends { readonly _tag: string }, Event> {
+export interface ActorRef<
+  State extends { readonly _tag: string },
+  Event,
+  Output = unknown,
+  SendError = never,
+> {
   readonly id: string;
 
-  /** Send an event (fire-and-forget). */
-  readonly send: (event: Event) => Effect.Effect<void>;
+  /**
+   * Send an event (fire-and-forget). On a full bounded mailbox it waits, drops,
+   * or fails with `MailboxFullError`, per the spawn's `mailbox` strategy.
+   */
+  readonly send: (event: Event) => Effect.Effect<void, SendError>;
 
   /** Fire-and-forget alias for send (OTP gen_server:cast). */
-  readonly cast: (event: Event) => Effect.Effect<void>;
+  readonly cast: (event: Event) => Effect.Effect<void, SendError>;
 
   /**
    * Serialized request-reply (OTP gen_server:call).
    * Event is processed through the queue; caller gets ProcessEventResult back.
+   * With `{ timeout }` the request is dropped from the mailbox once the caller gives up.
    */
-  readonly call: (event: Event) => Effect.Effect<ProcessEventResult<State>>;
+  readonly call: {
+    (event: Event): Effect.Effect<ProcessEventResult<State>>;
+    (
+      event: Event,
+      options: TimeoutOptions,
+    ): Effect.Effect<ProcessEventResult<State>, ActorTimeoutError>;
+  };
 
   /**
    * Typed request-reply. Accepts only events with a reply schema
    * (defined via `Event.reply()`). Return type is inferred from the schema.
-   * Fails with NoReplyError if the handler doesn't provide a reply.
+   * Fails with NoReplyError if the handler doesn't provide a reply, or with the
+   * event's reply error when the handler returns `Machine.replyError(state, error)`.
+   * With `{ timeout }` the request is dropped from the mailbox once the caller gives up.
+   */
+  readonly ask: {
+    <E extends Event & ReplyTypeBrand<unknown, unknown>>(
+      event: E,
+    ): Effect.Effect<ExtractReply<E>, NoReplyError | ActorStoppedError | ExtractReplyError<E>>;
+    <E extends Event & ReplyTypeBrand<unknown, unknown>>(
+      event: E,
+      options: TimeoutOptions,
+    ): Effect.Effect<
+      ExtractReply<E>,
+      NoReplyError | ActorStoppedError | ActorTimeoutError | ExtractReplyError<E>
+    >;
+  };
+
+  /**
+   * Streaming request-reply. Accepts only events with a reply stream schema
+   * (defined via `Event.replyStream()`). The handler defers with `Machine.deferReply()`;
+   * a spawn handler emits items with `self.emitReply()` and ends with `self.completeReply()`.
+   * Fails with NoReplyError if the handler doesn't defer, ActorStoppedError if the actor stops first.
    */
-  readonly ask: <E extends Event & ReplyTypeBrand<unknown>>(
+  readonly askStream: <E extends Event & ReplyStreamTypeBrand<unknown>>(
     event: E,
-  ) => Effect.Effect<ExtractReply<E>, NoReplyError | ActorStoppedError>;
+  ) => Stream.Stream<ExtractReplyStreamItem<E>, NoReplyError | ActorStoppedError>;
 
   /** Observable state. */
   readonly state: SubscriptionRef.SubscriptionRef<State>;
@@ -131,9 +242,12 @@ export interface ActorRef<State extends { readonly _tag: string }, Event> {
   /** Check if current state matches tag. */
   readonly matches: (tag: State["_tag"]) => Effect.Effect<boolean>;
 
-  /** Check if event can be handled in current state. */
+  /** Check if event can be handled in current state. Evaluates transition guards. */
   readonly can: (event: Event) => Effect.Effect<boolean>;
 
+  /** Pending named timers started via `self.startTimer`, with their remaining time. */
+  readonly timers: Effect.Effect<ReadonlyArray<PendingTimer<Event>>>;
+
   /** Stream of state changes. */
   readonly changes: Stream.Stream<State>;
 
@@ -150,16 +264,47 @@ export interface ActorRef<State extends { readonly _tag: string }, Event> {
   readonly waitFor: {
     (predicate: (state: State) => boolean): Effect.Effect<State>;
     (state: { readonly _tag: State["_tag"] }): Effect.Effect<State>;
+    (
+      predicate: (state: State) => boolean,
+      options: TimeoutOptions,
+    ): Effect.Effect<State, ActorTimeoutError>;
+    (
+      state: { readonly _tag: State["_tag"] },
+      options: TimeoutOptions,
+    ): Effect.Effect<State, ActorTimeoutError>;
   };
 
   /** Wait for a final state (includes current snapshot). */
   readonly awaitFinal: Effect.Effect<State>;
 
+  /**
+   * `awaitFinal` with a deadline — fails with `ActorTimeoutError` when it elapses.
+   * A separate method because `awaitFinal` is an Effect value, not a function.
+   */
+  readonly awaitFinalWith: (options: TimeoutOptions) => Effect.Effect<State, ActorTimeoutError>;
+
+  /**
+   * Wait for the output derived by `.final()`.
+   * Fails with `ActorFailedError` if the actor stops or defects before reaching a final state.
+   */
+  readonly awaitOutput: Effect.Effect<Output, ActorFailedError>;
+
   /** Send event and wait for predicate, state variant, or final state. */
   readonly sendAndWait: {
     (event: Event, predicate: (state: State) => boolean): Effect.Effect<State>;
     (event: Event, state: { readonly _tag: State["_tag"] }): Effect.Effect<State>;
     (event: Event): Effect.Effect<State>;
+    (
+      event: Event,
+      predicate: (state: State) => boolean,
+      options: TimeoutOptions,
+    ): Effect.Effect<State, ActorTimeoutError>;
+    (
+      event: Event,
+      state: { readonly _tag: State["_tag"] },
+      options: TimeoutOptions,
+    ): Effect.Effect<State, ActorTimeoutError>;
+    (event: Event, options: TimeoutOptions): Effect.Effect<State, ActorTimeoutError>;
   };
 
   /** Subscribe to state changes (sync callback). Returns unsubscribe function. */
@@ -169,7 +314,7 @@ export interface ActorRef<State extends { readonly _tag: string }, Event> {
    * Wait for this actor's terminal exit. Resolves with the exit reason.
    * Set exactly once when the actor terminates (final, stop, drain, or defect).
    */
-  readonly awaitExit: Effect.Effect<ActorExit<State>>;
+  readonly awaitExit: Effect.Effect<ActorExit<State, Output>>;
 
   /**
    * Watch another actor. Returns an Effect that resolves with the exit reason
@@ -231,6 +376,26 @@ export type SystemEvent =
       readonly exit: ActorExit<unknown>;
     };
 
+/**
+ * Why an event was never processed by a transition:
+ * - `"unhandled"` — no transition accepted it in the actor's state
+ * - `"stopped"` — sent to an actor that had already stopped
+ * - `"dropped"` — discarded or evicted by a bounded mailbox
+ * - `"expired"` — a `call`/`ask` whose timeout elapsed before the actor took it
+ */
+export type DeadLetterReason = "unhandled" | "stopped" | "dropped" | "expired";
+
+/**
+ * An event that never reached a transition, published on `system.deadLetters`.
+ */
+export interface DeadLetter {
+  readonly actorId: string;
+  /** Actor state when the event was given up on */
+  readonly state: AnyState;
+  readonly event: { readonly _tag: string };
+  readonly reason: DeadLetterReason;
+}
+
 /**
  * Listener callback for system events.
  */
@@ -253,17 +418,28 @@ export interface ActorSystem {
     E extends { readonly _tag: string },
     R,
     SD extends SlotsDef = Record<string, never>,
+    O = unknown,
+    I = unknown,
+    M extends MailboxOptions | undefined = undefined,
   >(
     id: string,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    machine: Machine<S, E, R, any, any, SD>,
+    machine: Machine<S, E, R, any, any, SD, O, I>,
     options?: {
+      /** Spawn-time input — validated by the machine's `input` schema, passed to `initial` */
+      readonly input?: I;
       readonly supervision?: Supervision.Policy;
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       readonly slots?: ProvideSlots<SD, any>;
       readonly lifecycle?: Lifecycle<S, E>;
+      /** Bounded mailbox — `send` fails with `MailboxFullError` under the `"fail"` strategy */
+      readonly mailbox?: M;
     },
-  ) => Effect.Effect<ActorRef<S, E>, DuplicateActorError, R>;
+  ) => Effect.Effect<
+    ActorRef<S, E, O, MailboxSendError<M>>,
+    DuplicateActorError | SpawnInputError<I>,
+    R
+  >;
 
   /**
    * Get an existing actor by ID
@@ -281,6 +457,12 @@ export interface ActorSystem {
    */
   readonly events: Stream.Stream<SystemEvent>;
 
+  /**
+   * Async stream of dead letters from the system's actors — unhandled events and
+   * events that were never delivered. Late subscribers miss prior letters.
+   */
+  readonly deadLetters: Stream.Stream<DeadLetter>;
+
   /**
    * Sync snapshot of all currently registered actors.
    * Returns a new Map on each access (not live).
@@ -349,26 +531,81 @@ export const buildActorRefCore = <
   stop: Effect.Effect<void>,
   start: Effect.Effect<void>,
   system: ActorSystem,
+  services: Context.Context<R>,
   childrenMap: ReadonlyMap<string, ActorRef<AnyState, unknown>>,
   pendingReplies: Set<Deferred.Deferred<unknown, unknown>>,
   transitionsPubSub: PubSub.PubSub<TransitionInfo<S, E>> | undefined,
   exitDeferred: Deferred.Deferred<ActorExit<S>, never>,
-): ActorRef<S, E> => {
+  timers: Effect.Effect<ReadonlyArray<PendingTimer<E>>>,
+  mailbox?: MailboxOptions,
+  onDrop?: (event: E, strategy: "dropping" | "sliding") => Effect.Effect<void>,
+  onConflate?: (event: E, replaced: E, count: number) => Effect.Effect<void>,
+  onStopped?: (event: E) => Effect.Effect<void>,
+): ActorRef<S, E, unknown, MailboxFullError> => {
+  /**
+   * Enqueue a send under the mailbox strategy — false when it was dropped.
+   * `waitForRoom` runs the offers that wait for room; the sync API forks them instead.
+   */
+  const enqueue = Effect.fnUntraced(function* (
+    q: Queue.Queue<QueuedEvent<E>>,
+    entry: Extract<QueuedEvent<E>, { readonly _tag: "send" }>,
+    waitForRoom: (offer: Effect.Effect<void>) => Effect.Effect<void> = (offer) => offer,
+  ) {
+    const strategy = mailbox?.strategy ?? "suspend";
+    // High-priority events take the priority lane, which the bound does not apply to
+    if (isHighPriority(machine, entry.event)) {
+      yield* offerQueued(machine, q, entry);
+      return true;
+    }
+    if (Queue.offerUnsafe(q, entry)) return true;
+    switch (strategy) {
+      case "suspend":
+        yield* waitForRoom(Queue.offer(q, entry).pipe(Effect.asVoid));
+        return true;
+      case "fail":
+        return yield* new MailboxFullError({ actorId: id, capacity: mailbox?.capacity ?? 0 });
+      case "dropping":
+        if (onDrop !== undefined) yield* onDrop(entry.event, "dropping");
+        return false;
+      case "sliding": {
+        // Evict the oldest queued send to make room — requests are never evicted, so
+        // behind one the sender waits like "suspend"
+        const evicted = yield* Effect.sync(() => {
+          if (!Queue.isFullUnsafe(q)) return undefined;
+          // @effect-diagnostics-next-line runEffectInsideEffect:off
+          const oldest = Effect.runSync(Queue.peek(q));
+          if (oldest._tag !== "send") return undefined;
+          Queue.takeUnsafe(q);
+          releaseConflation(machine, q, oldest);
+          return oldest;
+        });
+        if (evicted !== undefined && onDrop !== undefined) yield* onDrop(evicted.event, "sliding");
+        yield* waitForRoom(Queue.offer(q, entry).pipe(Effect.asVoid));
+        return true;
+      }
+    }
+  });
+
   const send = Effect.fn("effect-machine.actor.send")(function* (event: E) {
     const stopped = yield* Ref.get(stoppedRef);
     if (stopped) {
+      if (onStopped !== undefined) yield* onStopped(event);
       return;
     }
     const q = yield* Ref.get(eventQueueRef);
-    yield* Queue.offer(q, { _tag: "send", event });
+    yield* offerSend(machine, q, event, (entry) => enqueue(q, entry), onConflate);
   });
 
-  const call = Effect.fn("effect-machine.actor.call")(function* (event: E) {
+  const call = Effect.fn("effect-machine.actor.call")(function* (
+    event: E,
+    options?: TimeoutOptions,
+  ) {
     const stopped = yield* Ref.get(stoppedRef);
     if (stopped) {
       yield* Effect.logWarning("effect-machine.actor.call.stopped").pipe(
         Effect.annotateLogs({ actorId: id, eventTag: (event as { _tag?: string })._tag }),
       );
+      if (onStopped !== undefined) yield* onStopped(event);
       const currentState = yield* SubscriptionRef.get(stateRef);
       return {
         newState: currentState,
@@ -379,7 +616,7 @@ export const buildActorRefCore = <
         reply: undefined,
         postponed: false,
         lifecycleRan: false,
-        isFinal: machine.finalStates.has(currentState._tag),
+        isFinal: isFinalState(machine, currentState),
       } satisfies ProcessEventResult<S>;
     }
     const reply = yield* Deferred.make<
@@ -388,12 +625,19 @@ export const buildActorRefCore = <
     >();
     pendingReplies.add(reply as Deferred.Deferred<unknown, unknown>);
     const q = yield* Ref.get(eventQueueRef);
-    yield* Queue.offer(q, {
+    yield* offerQueued(machine, q, {
       _tag: "call",
       event,
       reply: reply as Deferred.Deferred<ProcessEventResult<{ readonly _tag: string }>, unknown>,
     });
-    return (yield* Deferred.await(reply).pipe(
+    // Interrupting the reply marks the request abandoned — the loop skips it
+    return (yield* withTimeout(
+      Deferred.await(reply),
+      id,
+      "call",
+      options,
+      Deferred.interrupt(reply),
+    ).pipe(
       Effect.ensuring(
         Effect.sync(() => pendingReplies.delete(reply as Deferred.Deferred<unknown, unknown>)),
       ),
@@ -410,7 +654,7 @@ export const buildActorRefCore = <
                 reply: undefined,
                 postponed: false,
                 lifecycleRan: false,
-                isFinal: machine.finalStates.has(currentState._tag),
+                isFinal: isFinalState(machine, currentState),
               }) satisfies ProcessEventResult<S>,
           ),
         ),
@@ -418,26 +662,47 @@ export const buildActorRefCore = <
     )) as ProcessEventResult<S>;
   });
 
-  const ask = Effect.fn("effect-machine.actor.ask")(function* (event: E) {
+  const ask = Effect.fn("effect-machine.actor.ask")(function* (event: E, options?: TimeoutOptions) {
     const stopped = yield* Ref.get(stoppedRef);
     if (stopped) {
       return yield* new ActorStoppedError({ actorId: id });
     }
-    const reply = yield* Deferred.make<unknown, NoReplyError | ActorStoppedError>();
-    pendingReplies.add(reply as Deferred.Deferred<unknown, unknown>);
+    const reply = yield* Deferred.make<unknown, unknown>();
+    pendingReplies.add(reply);
     const q = yield* Ref.get(eventQueueRef);
-    yield* Queue.offer(q, {
-      _tag: "ask",
-      event,
-      reply: reply as Deferred.Deferred<unknown, NoReplyError>,
-    });
-    return yield* Deferred.await(reply).pipe(
-      Effect.ensuring(
-        Effect.sync(() => pendingReplies.delete(reply as Deferred.Deferred<unknown, unknown>)),
-      ),
-    );
+    yield* offerQueued(machine, q, { _tag: "ask", event, reply });
+    // @effect-diagnostics-next-line anyUnknownInErrorContext:off — typed by ActorRef["ask"]
+    return yield* withTimeout(
+      Deferred.await(reply),
+      id,
+      "ask",
+      options,
+      Deferred.interrupt(reply),
+    ).pipe(Effect.ensuring(Effect.sync(() => pendingReplies.delete(reply))));
   });
 
+  const askStream = (event: E) =>
+    Stream.unwrap(
+      Effect.gen(function* () {
+        const stopped = yield* Ref.get(stoppedRef);
+        if (stopped) {
+          return yield* new ActorStoppedError({ actorId: id });
+        }
+        const stream = yield* Queue.unbounded<unknown, unknown>();
+        const done = yield* Deferred.make<void, unknown>();
+        // Settled with ActorStoppedError when the actor stops mid-stream
+        const halted = yield* Deferred.make<unknown, unknown>();
+        pendingReplies.add(halted);
+        const q = yield* Ref.get(eventQueueRef);
+        yield* offerQueued(machine, q, { _tag: "askStream", event, stream, done });
+        // @effect-diagnostics-next-line anyUnknownInErrorContext:off — typed by ActorRef["askStream"]
+        return Stream.fromQueue(stream).pipe(
+          Stream.interruptWhen(Deferred.await(halted)),
+          Stream.ensuring(Effect.sync(() => pendingReplies.delete(halted))),
+        );
+      }),
+    ).pipe(Stream.withSpan("effect-machine.actor.askStream"));
+
   const snapshot = SubscriptionRef.get(stateRef).pipe(
     Effect.withSpan("effect-machine.actor.snapshot"),
   );
@@ -447,13 +712,38 @@ export const buildActorRefCore = <
     return state._tag === tag;
   });
 
+  // Guards see a self whose sends, timers and replies are no-ops and that cannot spawn —
+  // `can` never commits
+  const guardSelf: MachineRef<E> = {
+    send: () => Effect.void,
+    cast: () => Effect.void,
+    raise: () => Effect.void,
+    stash: () => Effect.void,
+    unstashAll: () => Effect.void,
+    spawn: () => Effect.die("spawn not supported in can"),
+    reply: () => Effect.succeed(false),
+    emitReply: () => Effect.succeed(false),
+    completeReply: () => Effect.succeed(false),
+    startTimer: () => Effect.void,
+    cancelTimer: () => Effect.void,
+  };
+
+  // Guards run with the services the actor was spawned with, as in the event loop
+  const canInState = (state: S, event: E) =>
+    resolveTransition(machine, state, event, guardSelf, system, id).pipe(
+      Effect.provideContext(services),
+      Effect.map((transition) => transition !== undefined),
+    );
+
   const can = Effect.fn("effect-machine.actor.can")(function* (event: E) {
     const state = yield* SubscriptionRef.get(stateRef);
-    return resolveTransition(machine, state, event) !== undefined;
+    return yield* canInState(state, event);
   });
 
-  const waitFor = Effect.fn("effect-machine.actor.waitFor")(function* (
+  const waitUntil = Effect.fnUntraced(function* (
     predicateOrState: ((state: S) => boolean) | { readonly _tag: S["_tag"] },
+    operation: string,
+    options: TimeoutOptions | undefined,
   ) {
     const predicate =
       typeof predicateOrState === "function" && !("_tag" in predicateOrState)
@@ -486,44 +776,68 @@ export const buildActorRefCore = <
       return afterSubscribe;
     }
 
-    const result = yield* Deferred.await(done);
-    listeners.delete(listener);
-    return result;
+    return yield* withTimeout(Deferred.await(done), id, operation, options).pipe(
+      Effect.ensuring(Effect.sync(() => listeners.delete(listener))),
+    );
+  });
+
+  const waitFor = Effect.fn("effect-machine.actor.waitFor")(function* (
+    predicateOrState: ((state: S) => boolean) | { readonly _tag: S["_tag"] },
+    options?: TimeoutOptions,
+  ) {
+    return yield* waitUntil(predicateOrState, "waitFor", options);
   });
 
-  const awaitFinal = waitFor((state) => machine.finalStates.has(state._tag)).pipe(
+  const isFinal = (state: S) => isFinalState(machine, state);
+
+  // No options, so no timeout error
+  const awaitFinal = (waitUntil(isFinal, "awaitFinal", undefined) as Effect.Effect<S>).pipe(
     Effect.withSpan("effect-machine.actor.awaitFinal"),
   );
 
+  const awaitFinalWith = Effect.fn("effect-machine.actor.awaitFinalWith")(function* (
+    options: TimeoutOptions,
+  ) {
+    return yield* waitUntil(isFinal, "awaitFinal", options);
+  });
+
   const sendAndWait = Effect.fn("effect-machine.actor.sendAndWait")(function* (
     event: E,
-    predicateOrState?: ((state: S) => boolean) | { readonly _tag: S["_tag"] },
+    predicateOrOptions?: ((state: S) => boolean) | { readonly _tag: S["_tag"] } | TimeoutOptions,
+    maybeOptions?: TimeoutOptions,
   ) {
+    // (event, options) waits for a final state
+    const isOptions = typeof predicateOrOptions === "object" && !("_tag" in predicateOrOptions);
+    const predicateOrState = isOptions
+      ? undefined
+      : (predicateOrOptions as ((state: S) => boolean) | { readonly _tag: S["_tag"] } | undefined);
+    const options = isOptions ? (predicateOrOptions as TimeoutOptions) : maybeOptions;
     yield* send(event);
-    if (predicateOrState !== undefined) {
-      return yield* waitFor(predicateOrState);
-    }
-    return yield* awaitFinal;
+    return yield* waitUntil(predicateOrState ?? isFinal, "sendAndWait", options);
   });
 
   return {
     id,
     send,
     cast: send,
-    call,
+    call: call as ActorRef<S, E>["call"],
     ask: ask as ActorRef<S, E>["ask"],
+    askStream: askStream as ActorRef<S, E>["askStream"],
     state: stateRef,
     stop,
     start,
     snapshot,
     matches,
     can,
+    timers,
     changes: SubscriptionRef.changes(stateRef),
     transitions:
       transitionsPubSub !== undefined ? Stream.fromPubSub(transitionsPubSub) : Stream.empty,
-    waitFor,
+    waitFor: waitFor as ActorRef<S, E>["waitFor"],
     awaitFinal,
-    sendAndWait,
+    awaitFinalWith,
+    awaitOutput: Effect.flatMap(Deferred.await(exitDeferred), (exit) => outputOf(id, exit)),
+    sendAndWait: sendAndWait as ActorRef<S, E>["sendAndWait"],
     subscribe: (fn) => {
       listeners.add(fn);
       return () => {
@@ -546,9 +860,24 @@ export const buildActorRefCore = <
     sync: {
       send: (event) => {
         const stopped = Effect.runSync(Ref.get(stoppedRef));
-        if (!stopped) {
+        if (stopped) {
+          if (onStopped !== undefined) Effect.runSync(onStopped(event));
+        } else {
           const q = Effect.runSync(Ref.get(eventQueueRef));
-          Effect.runSync(Queue.offer(q, { _tag: "send", event }));
+          Effect.runSync(
+            offerSend(
+              machine,
+              q,
+              event,
+              (entry) =>
+                enqueue(q, entry, (offer) =>
+                  Effect.sync(() => {
+                    Effect.runFork(offer);
+                  }),
+                ),
+              onConflate,
+            ),
+          );
         }
       },
       stop: () => Effect.runFork(stop),
@@ -556,7 +885,7 @@ export const buildActorRefCore = <
       matches: (tag) => Effect.runSync(SubscriptionRef.get(stateRef))._tag === tag,
       can: (event) => {
         const state = Effect.runSync(SubscriptionRef.get(stateRef));
-        return resolveTransition(machine, state, event) !== undefined;
+        return Effect.runSync(canInState(state, event));
       },
     },
     system,
@@ -593,6 +922,16 @@ const buildInspectionHooks = <
       event: ev,
       timestamp,
     })),
+  onGuard: (info) =>
+    emitWithTimestamp(inspector, (timestamp) => ({
+      type: "@machine.guard",
+      actorId,
+      state: info.state,
+      event: info.event,
+      guard: info.guard,
+      passed: info.passed,
+      timestamp,
+    })),
   onError: (info) =>
     emitWithTimestamp(inspector, (timestamp) => ({
       type: "@machine.error",
@@ -619,6 +958,16 @@ const resolveActorSystem = Effect.fn("effect-machine.resolveActorSystem")(functi
   return { system, implicitSystemScope: scope as Scope.Closeable | undefined };
 });
 
+/** Load the recovered state history, if the recovery provides one. */
+const resolveRecoveredHistory = <S>(
+  recovery: Recovery<S>,
+  ctx: RecoveryContext<S>,
+): Effect.Effect<StateHistory<S> | undefined> =>
+  Effect.map(
+    recovery.resolveHistory === undefined ? Effect.succeedNone : recovery.resolveHistory(ctx),
+    Option.getOrUndefined,
+  );
+
 /**
  * Run the supervision loop for a supervised actor.
  * Observes exit deferred, applies restart policy, resets cell resources on restart.
@@ -640,11 +989,15 @@ const runSupervisionLoop = <
   stoppedRef: Ref.Ref<boolean>;
   childrenMap: Map<string, ActorRef<AnyState, unknown>>;
   listeners: Listeners<S>;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  spawnGeneration: (m: any) => Effect.Effect<RuntimeHandle<S, E>>;
+  spawnGeneration: (
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    m: any,
+    history?: StateHistory<S>,
+  ) => Effect.Effect<RuntimeHandle<S, E>>;
   lifecycle?: Lifecycle<S, E>;
   generationRef: { get: () => number; set: (g: number) => void };
   onRestart?: (generation: number, exit: ActorExit<unknown>) => Effect.Effect<void>;
+  mailbox?: MailboxOptions;
 }) =>
   Effect.gen(function* () {
     const step = yield* Schedule.toStepWithSleep(params.supervision.schedule);
@@ -684,19 +1037,25 @@ const runSupervisionLoop = <
       // Recovery runs here (not in runtime.start) for supervision restarts
       // because the cell resources need the resolved state before runtime creation.
       let restartState = params.machine.initial;
+      let restartHistory: StateHistory<S> | undefined;
       if (params.lifecycle?.recovery !== undefined) {
-        const resolved = yield* params.lifecycle.recovery.resolve({
+        const recoveryContext = {
           actorId: params.id,
           generation: nextGeneration,
           machineInitial: params.machine.initial,
-        });
+        };
+        const resolved = yield* params.lifecycle.recovery.resolve(recoveryContext);
         if (Option.isSome(resolved)) {
           restartState = resolved.value;
+          restartHistory = yield* resolveRecoveredHistory(
+            params.lifecycle.recovery,
+            recoveryContext,
+          );
         }
       }
 
       yield* settlePendingReplies(params.pendingReplies, params.id);
-      const freshQueue = yield* Queue.unbounded<QueuedEvent<E>>();
+      const freshQueue = yield* makeMailbox<E>(params.mailbox);
       yield* Ref.set(params.eventQueueRef, freshQueue);
       yield* SubscriptionRef.set(params.stateRef, restartState);
       yield* Ref.set(params.stoppedRef, false);
@@ -708,7 +1067,7 @@ const runSupervisionLoop = <
               initial: { value: restartState, enumerable: true },
             }) as typeof params.machine)
           : params.machine;
-      const newRuntime = yield* params.spawnGeneration(machineForRestart);
+      const newRuntime = yield* params.spawnGeneration(machineForRestart, restartHistory);
       params.runtimeRef.current = newRuntime;
       yield* newRuntime.start;
 
@@ -737,6 +1096,7 @@ export const createActor = Effect.fn("effect-machine.actor.spawn")(function* <
     initialState?: S;
     supervision?: Supervision.Policy;
     lifecycle?: Lifecycle<S, E>;
+    mailbox?: MailboxOptions;
     /** @internal Called by system after each restart — emits ActorRestarted system event */
     onRestart?: (generation: number, exit: ActorExit<unknown>) => Effect.Effect<void>;
   },
@@ -751,6 +1111,9 @@ export const createActor = Effect.fn("effect-machine.actor.spawn")(function* <
 
   const { system, implicitSystemScope } = yield* resolveActorSystem();
 
+  // The spawner's services — the runtime captures the same ones for the event loop
+  const services = (yield* Effect.context()) as Context.Context<R>;
+
   // Get optional inspector from context
   const inspectorValue = Option.getOrUndefined(yield* Effect.serviceOption(InspectorTag)) as
     | Inspector<S, E>
@@ -776,7 +1139,7 @@ export const createActor = Effect.fn("effect-machine.actor.spawn")(function* <
   // Cell-owned resources: stable across generations (supervision)
   const stateRef = yield* SubscriptionRef.make<S>(initial);
   const stoppedRef = yield* Ref.make(false);
-  const initialQueue = yield* Queue.unbounded<QueuedEvent<E>>();
+  const initialQueue = yield* makeMailbox<E>(options?.mailbox);
   const eventQueueRef = yield* Ref.make(initialQueue);
 
   // Terminal exit deferred — set exactly once when the actor truly terminates.
@@ -797,10 +1160,45 @@ export const createActor = Effect.fn("effect-machine.actor.spawn")(function* <
     current: undefined,
   };
 
+  /** Publish an event the actor gave up on to the system's dead letters */
+  const deadLetter = (event: E, reason: DeadLetterReason) =>
+    Effect.gen(function* () {
+      const state = yield* SubscriptionRef.get(stateRef);
+      yield* publishDeadLetter(system, { actorId: id, state, event, reason });
+    });
+
+  // Conflated sends — reported for ActorRef and self sends alike
+  const onConflate = (event: E, replaced: E, count: number) =>
+    Effect.gen(function* () {
+      const state = yield* SubscriptionRef.get(stateRef);
+      yield* emitWithTimestamp(inspectorValue, (timestamp) => ({
+        type: "@machine.conflate",
+        actorId: id,
+        state,
+        event,
+        replaced,
+        count,
+        timestamp,
+      }));
+    });
+
   /** Build lifecycle hooks for a generation */
   const buildRuntimeLifecycle = (): RuntimeLifecycleHooks<S, E> => {
     stopEmitted = false;
     return {
+      onConflate,
+      onUnhandled: (state, event) =>
+        Effect.gen(function* () {
+          yield* emitWithTimestamp(inspectorValue, (timestamp) => ({
+            type: "@machine.unhandled",
+            actorId: id,
+            state,
+            event,
+            timestamp,
+          }));
+          yield* publishDeadLetter(system, { actorId: id, state, event, reason: "unhandled" });
+        }),
+      onExpired: (event) => deadLetter(event, "expired"),
       onEvent:
         inspectorValue !== undefined
           ? (state: S, event: E) =>
@@ -822,12 +1220,15 @@ export const createActor = Effect.fn("effect-machine.actor.spawn")(function* <
               durability.shouldSave === undefined ||
               durability.shouldSave(result.newState, result.previousState);
             if (shouldPersist) {
+              const history =
+                runtimeRef.current !== undefined ? yield* runtimeRef.current.getHistory : [];
               yield* durability.save({
                 actorId: id,
                 generation,
                 previousState: result.previousState,
                 nextState: result.newState,
                 event,
+                history,
               });
             }
           }
@@ -889,7 +1290,7 @@ export const createActor = Effect.fn("effect-machine.actor.spawn")(function* <
   };
 
   /** Create a single runtime generation. machineForGen is machineWithState for initial, machine for restarts. */
-  const spawnGeneration = (machineForGen: typeof machine) =>
+  const spawnGeneration = (machineForGen: typeof machine, history?: StateHistory<S>) =>
     Ref.get(eventQueueRef).pipe(
       Effect.flatMap(
         (currentQueue) =>
@@ -899,6 +1300,7 @@ export const createActor = Effect.fn("effect-machine.actor.spawn")(function* <
             skipFinalizer: true,
             cellResources: { stateRef, stoppedRef, eventQueue: currentQueue },
             lifecycle: buildRuntimeLifecycle(),
+            history,
             wrapProcess: (state, event, inner) =>
               Effect.withSpan("effect-machine.event.process", {
                 attributes: {
@@ -974,6 +1376,11 @@ export const createActor = Effect.fn("effect-machine.actor.spawn")(function* <
         machineInitial: machine.initial,
       });
       if (Option.isSome(resolved)) {
+        const history = yield* resolveRecoveredHistory(lifecycle.recovery, {
+          actorId: id,
+          generation,
+          machineInitial: machine.initial,
+        });
         // Update cell stateRef
         yield* SubscriptionRef.set(stateRef, resolved.value);
         // Runtime was created with cold initial — recreate with recovered state.
@@ -981,7 +1388,7 @@ export const createActor = Effect.fn("effect-machine.actor.spawn")(function* <
         const recoveredMachine = Object.create(machine, {
           initial: { value: resolved.value, enumerable: true },
         }) as typeof machine;
-        const newRuntime = yield* spawnGeneration(recoveredMachine);
+        const newRuntime = yield* spawnGeneration(recoveredMachine, history);
         runtimeRef.current = newRuntime;
       }
     }
@@ -1019,6 +1426,7 @@ export const createActor = Effect.fn("effect-machine.actor.spawn")(function* <
             },
           },
           onRestart: options?.onRestart,
+          mailbox: options?.mailbox,
         }),
       );
     } else {
@@ -1050,13 +1458,39 @@ export const createActor = Effect.fn("effect-machine.actor.spawn")(function* <
     stop,
     start,
     system,
+    services,
     childrenMap,
     pendingReplies,
     transitionsPubSub,
     terminalExitDeferred,
+    Effect.suspend(() =>
+      runtimeRef.current !== undefined ? runtimeRef.current.getTimers : Effect.succeed([]),
+    ),
+    options?.mailbox,
+    (event, strategy) =>
+      Effect.gen(function* () {
+        const state = yield* SubscriptionRef.get(stateRef);
+        yield* emitWithTimestamp(inspectorValue, (timestamp) => ({
+          type: "@machine.drop",
+          actorId: id,
+          state,
+          event,
+          strategy,
+          timestamp,
+        }));
+        yield* publishDeadLetter(system, { actorId: id, state, event, reason: "dropped" });
+      }),
+    onConflate,
+    (event) => deadLetter(event, "stopped"),
   );
 });
 
+/** Allocate an actor mailbox — unbounded unless `mailbox` caps it. */
+const makeMailbox = <E>(mailbox: MailboxOptions | undefined) =>
+  mailbox === undefined
+    ? Queue.unbounded<QueuedEvent<E>>()
+    : Queue.bounded<QueuedEvent<E>>(mailbox.capacity);
+
 /** Fail all pending call/ask Deferreds with ActorStoppedError. Safe to call multiple times. */
 export const settlePendingReplies = (
   pendingReplies: Set<Deferred.Deferred<unknown, unknown>>,
@@ -1075,6 +1509,20 @@ export const settlePendingReplies = (
 // ActorSystem Implementation
 // ============================================================================
 
+/** Dead-letter PubSub of each system built by `make` — other ActorSystem implementations have none */
+const deadLetterPubSubs = new WeakMap<ActorSystem, PubSub.PubSub<DeadLetter>>();
+
+/** Publish a dead letter on the system's `deadLetters` stream, if it has one. */
+const publishDeadLetter = (system: ActorSystem, letter: DeadLetter): Effect.Effect<void> => {
+  const pubsub = deadLetterPubSubs.get(system);
+  return pubsub === undefined
+    ? Effect.void
+    : PubSub.publish(pubsub, letter).pipe(
+        Effect.catchCause(() => Effect.void),
+        Effect.asVoid,
+      );
+};
+
 /** Notify all system event listeners (sync). */
 const notifySystemListeners = (listeners: Set<SystemEventListener>, event: SystemEvent): void => {
   for (const listener of listeners) {
@@ -1102,6 +1550,7 @@ const make = Effect.fn("effect-machine.actorSystem.make")(function* () {
       Effect.catchCause(() => Effect.void),
       Effect.asVoid,
     );
+  const deadLetterPubSub = yield* PubSub.unbounded<DeadLetter>();
 
   // Stop all actors on system teardown (no events — PubSub is about to die)
   yield* Effect.addFinalizer(() => {
@@ -1111,6 +1560,7 @@ const make = Effect.fn("effect-machine.actorSystem.make")(function* () {
     });
     return Effect.all(stops, { concurrency: "unbounded" }).pipe(
       Effect.andThen(PubSub.shutdown(eventPubSub)),
+      Effect.andThen(PubSub.shutdown(deadLetterPubSub)),
       Effect.asVoid,
     );
   });
@@ -1169,24 +1619,30 @@ const make = Effect.fn("effect-machine.actorSystem.make")(function* () {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     machine: Machine<S, E, R, any, any, any>,
     spawnOptions?: {
+      readonly input?: unknown;
       readonly supervision?: Supervision.Policy;
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       readonly slots?: Record<string, any>;
       readonly lifecycle?: Lifecycle<S, E>;
+      readonly mailbox?: MailboxOptions;
     },
   ) {
     if (MutableHashMap.has(actorsMap, id)) {
       return yield* new DuplicateActorError({ actorId: id });
     }
+    const withInput = yield* resolveInput(machine, spawnOptions?.input);
     // Materialize slots if provided
     const materialized =
-      spawnOptions?.slots !== undefined ? materializeMachine(machine, spawnOptions.slots) : machine;
+      spawnOptions?.slots !== undefined
+        ? materializeMachine(withInput, spawnOptions.slots)
+        : withInput;
     // Mutable ref for the actor �� onRestart closure needs it, but actor isn't registered yet
     let actorRef: ActorRef<AnyState, unknown> | undefined;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const actor = yield* createActor(id, materialized as Machine<S, E, never, any, any, any>, {
       supervision: spawnOptions?.supervision,
       lifecycle: spawnOptions?.lifecycle,
+      mailbox: spawnOptions?.mailbox,
       onRestart:
         spawnOptions?.supervision !== undefined
           ? (generation, exit) =>
@@ -1216,20 +1672,30 @@ const make = Effect.fn("effect-machine.actorSystem.make")(function* () {
     E extends { readonly _tag: string },
     R,
     SD extends SlotsDef = Record<string, never>,
+    O = unknown,
+    I = unknown,
+    M extends MailboxOptions | undefined = undefined,
   >(
     id: string,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    machine: Machine<S, E, R, any, any, SD>,
+    machine: Machine<S, E, R, any, any, SD, O, I>,
     options?: {
+      /** Spawn-time input — validated by the machine's `input` schema, passed to `initial` */
+      readonly input?: I;
       readonly supervision?: Supervision.Policy;
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       readonly slots?: ProvideSlots<SD, any>;
       readonly lifecycle?: Lifecycle<S, E>;
+      readonly mailbox?: M;
     },
-  ): Effect.Effect<ActorRef<S, E>, DuplicateActorError, R> =>
+  ): Effect.Effect<
+    ActorRef<S, E, O, MailboxSendError<M>>,
+    DuplicateActorError | SpawnInputError<I>,
+    R
+  > =>
     withSpawnGate(spawnRegular(id, machine, options)) as Effect.Effect<
-      ActorRef<S, E>,
-      DuplicateActorError,
+      ActorRef<S, E, O, MailboxSendError<M>>,
+      DuplicateActorError | SpawnInputError<I>,
       R
     >;
 
@@ -1256,11 +1722,12 @@ const make = Effect.fn("effect-machine.actorSystem.make")(function* () {
     return true;
   });
 
-  return ActorSystem.of({
+  const system = ActorSystem.of({
     spawn,
     get,
     stop,
     events: Stream.fromPubSub(eventPubSub),
+    deadLetters: Stream.fromPubSub(deadLetterPubSub),
     get actors() {
       const snapshot = new Map<string, ActorRef<AnyState, unknown>>();
       MutableHashMap.forEach(actorsMap, (actor, id) => {
@@ -1275,6 +1742,8 @@ const make = Effect.fn("effect-machine.actorSystem.make")(function* () {
       };
     },
   });
+  deadLetterPubSubs.set(system, deadLetterPubSub);
+  return system;
 });
 
 /**
@@ -7,15 +7,24 @@
  * - snapshot (current state)
  * - watch (streaming state observation)
  * - waitFor (wait for specific state)
+ * - awaitOutput (output of the final state)
  *
  * @module
  */
 import type { RpcClient } from "effect/unstable/rpc";
-import { Effect, Option, Stream } from "effect";
+import { Effect, Option, type Schema, Stream } from "effect";
 
-import type { ExtractReply, ReplyTypeBrand } from "../internal/brands.js";
-import type { NoReplyError } from "../errors.js";
+import type {
+  ExtractReply,
+  ExtractReplyError,
+  ExtractReplyStreamItem,
+  ReplyStreamTypeBrand,
+  ReplyTypeBrand,
+} from "../internal/brands.js";
+import type { TimeoutOptions } from "../actor.js";
+import type { ActorFailedError, ActorTimeoutError, NoReplyError } from "../errors.js";
 import { ActorStoppedError } from "../errors.js";
+import { withTimeout } from "../internal/utils.js";
 import type { EntityRpcs } from "./to-entity.js";
 
 /**
@@ -35,16 +44,31 @@ import type { EntityRpcs } from "./to-entity.js";
 export interface EntityActorRef<
   State extends { readonly _tag: string },
   Event extends { readonly _tag: string },
+  Output = unknown,
 > {
   readonly entityId: string;
 
   /** Send event. Returns new state after processing. */
-  readonly send: (event: Event) => Effect.Effect<State>;
+  readonly send: {
+    (event: Event): Effect.Effect<State>;
+    (event: Event, options: TimeoutOptions): Effect.Effect<State, ActorTimeoutError>;
+  };
 
   /** Send event and get typed domain reply (via Event.reply() schema). */
-  readonly ask: <E extends Event & ReplyTypeBrand<unknown>>(
+  readonly ask: {
+    <E extends Event & ReplyTypeBrand<unknown, unknown>>(
+      event: E,
+    ): Effect.Effect<ExtractReply<E>, NoReplyError | ExtractReplyError<E>>;
+    <E extends Event & ReplyTypeBrand<unknown, unknown>>(
+      event: E,
+      options: TimeoutOptions,
+    ): Effect.Effect<ExtractReply<E>, NoReplyError | ActorTimeoutError | ExtractReplyError<E>>;
+  };
+
+  /** Send event and stream the reply items (via Event.replyStream() schema, AskStream RPC). */
+  readonly askStream: <E extends Event & ReplyStreamTypeBrand<unknown>>(
     event: E,
-  ) => Effect.Effect<ExtractReply<E>, NoReplyError>;
+  ) => Stream.Stream<ExtractReplyStreamItem<E>, NoReplyError | ActorStoppedError>;
 
   /** Get current state. */
   readonly snapshot: Effect.Effect<State>;
@@ -53,9 +77,16 @@ export interface EntityActorRef<
   readonly watch: Stream.Stream<State>;
 
   /** Wait for a state matching the predicate. Snapshots first, then watches stream. */
-  readonly waitFor: (
-    predicate: (state: State) => boolean,
-  ) => Effect.Effect<State, ActorStoppedError>;
+  readonly waitFor: {
+    (predicate: (state: State) => boolean): Effect.Effect<State, ActorStoppedError>;
+    (
+      predicate: (state: State) => boolean,
+      options: TimeoutOptions,
+    ): Effect.Effect<State, ActorStoppedError | ActorTimeoutError>;
+  };
+
+  /** Wait for the output of the entity's final state (via AwaitOutput RPC). */
+  readonly awaitOutput: Effect.Effect<Output, ActorFailedError>;
 }
 
 /**
@@ -72,35 +103,53 @@ export interface EntityActorRef<
 export const makeEntityActorRef = <
   State extends { readonly _tag: string },
   Event extends { readonly _tag: string },
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Schema types need wide acceptance
-  Rpcs extends EntityRpcs<any, any>[number],
+  Rpcs extends EntityRpcs<Schema.Top, Schema.Top>[number],
+  Output = unknown,
 >(
   client: RpcClient.RpcClient<Rpcs>,
   entityId: string,
-): EntityActorRef<State, Event> => {
+): EntityActorRef<State, Event, Output> => {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- RPC client has dynamic shape
   const c = client as any;
 
   return {
     entityId,
-    send: (event: Event) => c.Send({ event }) as Effect.Effect<State>,
+    // Timing out interrupts the RPC. The entity serves its cluster mailbox in order, so a
+    // request already delivered there is still processed after the caller gives up
+    send: ((event: Event, options?: TimeoutOptions) =>
+      withTimeout(
+        c.Send({ event }) as Effect.Effect<State>,
+        entityId,
+        "send",
+        options,
+      )) as EntityActorRef<State, Event>["send"],
+    /* eslint-disable @typescript-eslint/no-explicit-any */
+    ask: ((event: any, options?: TimeoutOptions) =>
+      withTimeout(c.Ask({ event }), entityId, "ask", options)) as any,
+    /* eslint-enable @typescript-eslint/no-explicit-any */
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    ask: ((event: any) => c.Ask({ event })) as any,
+    askStream: ((event: any) => c.AskStream({ event })) as any,
     snapshot: c.GetState() as Effect.Effect<State>,
     watch: c.WatchState() as Stream.Stream<State>,
-    waitFor: (predicate: (state: State) => boolean) =>
-      Effect.gen(function* () {
-        // Snapshot first — if current state already matches, return immediately
-        const current = yield* c.GetState() as Effect.Effect<State>;
-        if (predicate(current)) return current;
-        // Fall through to streaming observation
-        const result = yield* (c.WatchState() as Stream.Stream<State>).pipe(
-          Stream.filter(predicate),
-          Stream.take(1),
-          Stream.runHead,
-        );
-        if (Option.isSome(result)) return result.value;
-        return yield* new ActorStoppedError({ actorId: entityId });
-      }),
+    waitFor: ((predicate: (state: State) => boolean, options?: TimeoutOptions) =>
+      withTimeout(
+        Effect.gen(function* () {
+          // Snapshot first — if current state already matches, return immediately
+          const current = yield* c.GetState() as Effect.Effect<State>;
+          if (predicate(current)) return current;
+          // Fall through to streaming observation
+          const result = yield* (c.WatchState() as Stream.Stream<State>).pipe(
+            Stream.filter(predicate),
+            Stream.take(1),
+            Stream.runHead,
+          );
+          if (Option.isSome(result)) return result.value;
+          return yield* new ActorStoppedError({ actorId: entityId });
+        }),
+        entityId,
+        "waitFor",
+        options,
+      )) as EntityActorRef<State, Event>["waitFor"],
+    awaitOutput: c.AwaitOutput() as Effect.Effect<Output, ActorFailedError>,
   };
 };
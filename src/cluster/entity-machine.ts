@@ -16,10 +16,13 @@ import type { Envelope } from "effect/unstable/cluster";
 import type { Rpc } from "effect/unstable/rpc";
 import {
   Clock,
+  Deferred,
   type Duration,
   Effect,
+  Exit,
   type Layer,
   Option,
+  Predicate,
   Queue,
   Ref,
   type Schedule,
@@ -27,11 +30,12 @@ import {
   SubscriptionRef,
 } from "effect";
 
-import { type Machine, replay } from "../machine.js";
+import type { Machine, StateHistory } from "../machine.js";
 import type { ActorSystem } from "../actor.js";
 import { ActorSystem as ActorSystemTag, makeSystem } from "../actor.js";
-import type { ProcessEventHooks } from "../internal/transition.js";
-import { createRuntime, type RuntimeQueuedEvent } from "../internal/runtime.js";
+import { type ProcessEventHooks, replayWithHistory } from "../internal/transition.js";
+import { createRuntime, outputOf, type RuntimeQueuedEvent } from "../internal/runtime.js";
+import { resolveInput } from "../internal/utils.js";
 import type {
   EntityPersistenceConfig,
   PersistenceKey,
@@ -43,13 +47,19 @@ import { PersistenceAdapter } from "./persistence.js";
 /**
  * Options for EntityMachine.layer
  */
-export interface EntityMachineOptions<S, E> {
+export interface EntityMachineOptions<S, E, I = unknown> {
   /**
    * Initialize state from entity ID.
    * Called once when entity is first activated.
    */
   readonly initializeState?: (entityId: string) => S;
 
+  /**
+   * Derive the machine's spawn-time input from the entity ID.
+   * Defaults to the entity ID itself. Validated by the machine's `input` schema.
+   */
+  readonly input?: (entityId: string) => I;
+
   /**
    * Optional hooks for inspection/tracing.
    */
@@ -109,11 +119,12 @@ export const EntityMachine = {
     R,
     EntityType extends string,
     Rpcs extends Rpc.Any,
+    I = unknown,
   >(
     entity: Entity.Entity<EntityType, Rpcs>,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Machine type params need wide acceptance
-    machine: Machine<S, E, R, any, any, any>,
-    options?: EntityMachineOptions<S, E>,
+    machine: Machine<S, E, R, any, any, any, any, I>,
+    options?: EntityMachineOptions<S, E, I>,
   ): Layer.Layer<never, never, R> => {
     const persistence = options?.persistence;
 
@@ -130,6 +141,12 @@ export const EntityMachine = {
         ? existingSystem.value
         : yield* makeSystem();
 
+      // Spawn-time input derived from the entity ID (machine.initial may depend on it)
+      const inputMachine = yield* resolveInput(
+        machine,
+        options?.input !== undefined ? options.input(entityId) : entityId,
+      ).pipe(Effect.orDie);
+
       // ----------------------------------------------------------------
       // Persistence: hydration
       // ----------------------------------------------------------------
@@ -137,7 +154,7 @@ export const EntityMachine = {
         persistence,
         entity as { readonly type: string },
         entityId,
-        machine,
+        inputMachine,
         options?.initializeState,
       );
 
@@ -148,16 +165,16 @@ export const EntityMachine = {
 
       const machineWithState =
         initialState !== undefined
-          ? Object.create(machine, {
+          ? Object.create(inputMachine, {
               initial: { value: initialState, enumerable: true },
             })
-          : machine;
+          : inputMachine;
 
       // Version tracking
       const versionRef = yield* Ref.make(persistCtx.initialVersion);
 
       // Cell-owned resources — stable identity for this entity activation
-      const computedInitial = initialState ?? machine.initial;
+      const computedInitial = initialState ?? inputMachine.initial;
       const stateRef = yield* SubscriptionRef.make(computedInitial);
       const stoppedRef = yield* Ref.make(false);
       const eventQueue = yield* Queue.unbounded<RuntimeQueuedEvent<E>>();
@@ -168,6 +185,7 @@ export const EntityMachine = {
         hooks: options?.hooks,
         childIdPrefix: `${entityId}/`,
         cellResources: { stateRef, stoppedRef, eventQueue },
+        history: persistCtx.hydratedHistory,
       });
       yield* runtime.start;
 
@@ -187,10 +205,12 @@ export const EntityMachine = {
               Effect.gen(function* () {
                 const version = yield* Ref.get(versionRef);
                 const now = yield* Clock.currentTimeMillis;
+                const history = yield* runtime.getHistory;
                 yield* pAdapter.saveSnapshot(key, {
                   state,
                   version,
                   timestamp: now,
+                  history,
                 } satisfies Snapshot<S>);
               }).pipe(Effect.catch(() => Effect.void)),
             ),
@@ -206,10 +226,12 @@ export const EntityMachine = {
             const state = yield* SubscriptionRef.get(runtime.stateRef);
             const version = yield* Ref.get(versionRef);
             const now = yield* Clock.currentTimeMillis;
+            const history = yield* runtime.getHistory;
             yield* pAdapter.saveSnapshot(key, {
               state,
               version,
               timestamp: now,
+              history,
             } satisfies Snapshot<S>);
           }).pipe(Effect.catch(() => Effect.void)),
         );
@@ -255,7 +277,15 @@ export const EntityMachine = {
               case "Ask": {
                 const event = (request as { readonly payload: { readonly event: E } }).payload
                   .event;
-                const reply = yield* runtime.ask(event);
+                // Reply errors (Machine.replyError) settle the RPC — the transition still committed
+                const reply = yield* runtime.ask(event).pipe(
+                  Effect.map(Exit.succeed),
+                  Effect.catch((error) =>
+                    Predicate.isTagged(error, "NoReplyError")
+                      ? Effect.fail(error)
+                      : Effect.succeed(Exit.fail(error)),
+                  ),
+                );
 
                 if (journalCtx !== undefined) {
                   yield* persistEvent(journalCtx.adapter, journalCtx.key, versionRef, event);
@@ -263,9 +293,9 @@ export const EntityMachine = {
                   yield* Ref.update(versionRef, (v) => v + 1);
                 }
 
-                yield* replier.succeed(
+                yield* replier.complete(
                   request,
-                  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- RPC success type
+                  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- RPC exit type
                   reply as any,
                 );
                 break;
@@ -279,6 +309,25 @@ export const EntityMachine = {
                 );
                 break;
               }
+              case "AskStream": {
+                const event = (request as { readonly payload: { readonly event: E } }).payload
+                  .event;
+                // Waits for the transition — defects propagate like Send
+                const items = yield* runtime.askStream(event).pipe(Effect.orDie);
+
+                if (journalCtx !== undefined) {
+                  yield* persistEvent(journalCtx.adapter, journalCtx.key, versionRef, event);
+                } else if (hasPersistence) {
+                  yield* Ref.update(versionRef, (v) => v + 1);
+                }
+
+                yield* replier.succeed(
+                  request,
+                  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- streaming RPC success type
+                  items as any,
+                );
+                break;
+              }
               case "WatchState": {
                 // Streaming RPC — respond with SubscriptionRef.changes stream
                 yield* replier.succeed(
@@ -288,6 +337,22 @@ export const EntityMachine = {
                 );
                 break;
               }
+              case "AwaitOutput": {
+                // Forked — the mailbox keeps serving requests until the entity is final
+                yield* Deferred.await(runtime.exitDeferred).pipe(
+                  Effect.flatMap((exit) => outputOf(entityId, exit)),
+                  Effect.exit,
+                  Effect.flatMap((exit) =>
+                    replier.complete(
+                      request,
+                      // eslint-disable-next-line @typescript-eslint/no-explicit-any -- RPC exit type
+                      exit as any,
+                    ),
+                  ),
+                  Effect.forkChild,
+                );
+                break;
+              }
               default:
                 break;
             }
@@ -331,6 +396,7 @@ interface PersistenceContext<S> {
   readonly adapter: PersistenceAdapter | undefined;
   readonly key: PersistenceKey;
   readonly hydratedState: S | undefined;
+  readonly hydratedHistory: StateHistory<S> | undefined;
   readonly initialVersion: number;
 }
 
@@ -339,6 +405,7 @@ const noPersistence: PersistenceContext<never> = {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- placeholder, never used when adapter is undefined
   key: undefined as any,
   hydratedState: undefined,
+  hydratedHistory: undefined,
   initialVersion: 0,
 };
 
@@ -375,6 +442,9 @@ const hydratePersistence = <
           ? initializeState(entityId)
           : machine.initial;
       const snapshotVersion = Option.isSome(maybeSnapshot) ? maybeSnapshot.value.version : 0;
+      const snapshotHistory = Option.isSome(maybeSnapshot)
+        ? maybeSnapshot.value.history
+        : undefined;
 
       const events = (yield* adapter.loadEvents(key, snapshotVersion)) as ReadonlyArray<
         PersistedEvent<E>
@@ -382,16 +452,26 @@ const hydratePersistence = <
 
       if (events.length > 0) {
         const eventValues = events.map((e: PersistedEvent<E>) => e.event);
-        const hydratedState = yield* replay(machine, eventValues, { from: baseState });
+        const replayed = yield* replayWithHistory(machine, eventValues, {
+          from: baseState,
+          history: snapshotHistory,
+        });
         const lastEvent = events[events.length - 1];
         const initialVersion = lastEvent !== undefined ? lastEvent.version : snapshotVersion;
-        return { adapter, key, hydratedState, initialVersion };
+        return {
+          adapter,
+          key,
+          hydratedState: replayed.state,
+          hydratedHistory: replayed.history,
+          initialVersion,
+        };
       }
 
       return {
         adapter,
         key,
         hydratedState: Option.isSome(maybeSnapshot) ? maybeSnapshot.value.state : undefined,
+        hydratedHistory: snapshotHistory,
         initialVersion: snapshotVersion,
       };
     }
@@ -402,11 +482,18 @@ const hydratePersistence = <
         adapter,
         key,
         hydratedState: maybeSnapshot.value.state,
+        hydratedHistory: maybeSnapshot.value.history,
         initialVersion: maybeSnapshot.value.version,
       };
     }
 
-    return { adapter, key, hydratedState: undefined, initialVersion: 0 };
+    return {
+      adapter,
+      key,
+      hydratedState: undefined,
+      hydratedHistory: undefined,
+      initialVersion: 0,
+    };
   });
 
 /**
@@ -29,6 +29,8 @@ export interface Snapshot<S> {
   readonly state: S;
   readonly version: number;
   readonly timestamp: number;
+  /** State history for `Machine.history()` targets (absent in snapshots saved by older versions) */
+  readonly history?: ReadonlyArray<S>;
 }
 
 /** Stored event with version and timestamp. */
@@ -8,7 +8,12 @@ import { Rpc } from "effect/unstable/rpc";
 import { Schema } from "effect";
 
 import type { Machine } from "../machine.js";
-import { MissingSchemaError } from "../errors.js";
+import {
+  ActorFailedError,
+  ActorStoppedError,
+  MissingSchemaError,
+  NoReplyError,
+} from "../errors.js";
 
 /**
  * Options for toEntity.
@@ -24,8 +29,11 @@ export interface ToEntityOptions {
  * Default RPC protocol for entity machines.
  *
  * - `Send` - Send event to machine (fire-and-forget), returns new state
- * - `Ask` - Send event and get domain reply (typed via Event.reply() schemas)
+ * - `Ask` - Send event and get domain reply (typed via Event.reply() schemas); fails with
+ *   the reply error, encoded with the union of the events' reply error schemas
  * - `GetState` - Get current state
+ * - `WatchState` / `AskStream` - Streaming state changes / streamed replies (Event.replyStream())
+ * - `AwaitOutput` - Wait for the output of a final state (typed via `Machine.make({ output })`)
  */
 export type EntityRpcs<StateSchema extends Schema.Top, EventSchema extends Schema.Top> = readonly [
   Rpc.Rpc<
@@ -39,10 +47,11 @@ export type EntityRpcs<StateSchema extends Schema.Top, EventSchema extends Schem
     "Ask",
     Schema.Struct<{ readonly event: EventSchema }>,
     typeof Schema.Unknown,
-    typeof Schema.Never,
+    Schema.Top,
     never
   >,
   Rpc.Rpc<"GetState", typeof Schema.Void, StateSchema, typeof Schema.Never, never>,
+  Rpc.Rpc<"AwaitOutput", typeof Schema.Void, typeof Schema.Unknown, typeof ActorFailedError, never>,
 ];
 
 /**
@@ -51,6 +60,7 @@ export type EntityRpcs<StateSchema extends Schema.Top, EventSchema extends Schem
  * Creates an Entity with a standard RPC protocol:
  * - `Send(event)` - Process event through machine, returns new state
  * - `GetState()` - Returns current state
+ * - `AwaitOutput()` - Resolves with the output once the entity reaches a final state
  *
  * Schemas are read from the machine - must use `Machine.make({ state, event, initial })`.
  *
@@ -92,6 +102,9 @@ export const toEntity = <
     throw new MissingSchemaError({ operation: "toEntity" });
   }
 
+  const replyErrorSchemas = [...new Set(machine.replyErrorSchemas.values())];
+  const replyStreamSchemas = [...new Set(machine.replyStreamSchemas.values())];
+
   return Entity.make(options.type, [
     Rpc.make("Send", {
       payload: { event: eventSchema },
@@ -100,6 +113,7 @@ export const toEntity = <
     Rpc.make("Ask", {
       payload: { event: eventSchema },
       success: Schema.Unknown,
+      error: replyErrorSchemas.length === 0 ? Schema.Never : Schema.Union(replyErrorSchemas),
     }),
     Rpc.make("GetState", {
       success: stateSchema,
@@ -108,5 +122,15 @@ export const toEntity = <
       success: stateSchema,
       stream: true,
     }),
+    Rpc.make("AskStream", {
+      payload: { event: eventSchema },
+      success: replyStreamSchemas.length === 0 ? Schema.Never : Schema.Union(replyStreamSchemas),
+      error: Schema.Union([NoReplyError, ActorStoppedError]),
+      stream: true,
+    }),
+    Rpc.make("AwaitOutput", {
+      success: machine.outputSchema ?? Schema.Unknown,
+      error: ActorFailedError,
+    }),
   ]);
 };
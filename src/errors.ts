@@ -87,3 +87,71 @@ export class VersionConflictError extends Schema.TaggedErrorClass<VersionConflic
   "VersionConflictError",
   { expected: Schema.Number, actual: Schema.Number },
 ) {}
+
+/** State group declaration conflicts with the machine (name collision or second parent) */
+export class InvalidStateGroupError extends Schema.TaggedErrorClass<InvalidStateGroupError>()(
+  "InvalidStateGroupError",
+  { group: Schema.String, message: Schema.String },
+) {}
+
+/** `.always()` transitions kept firing past the microstep limit without settling */
+export class AlwaysLoopError extends Schema.TaggedErrorClass<AlwaysLoopError>()("AlwaysLoopError", {
+  state: Schema.String,
+  microsteps: Schema.Number,
+  message: Schema.String,
+}) {}
+
+/** `awaitOutput` — the actor terminated without reaching a final state */
+export class ActorFailedError extends Schema.TaggedErrorClass<ActorFailedError>()(
+  "ActorFailedError",
+  { actorId: Schema.String, reason: Schema.Literals(["stopped", "defect", "failed"]) },
+) {}
+
+/** Spawn-time input did not decode with the machine's `input` schema */
+export class InvalidInputError extends Schema.TaggedErrorClass<InvalidInputError>()(
+  "InvalidInputError",
+  { message: Schema.String },
+) {}
+
+/** A transition handler returned a state outside its declared targets */
+export class UndeclaredTargetError extends Schema.TaggedErrorClass<UndeclaredTargetError>()(
+  "UndeclaredTargetError",
+  {
+    state: Schema.String,
+    event: Schema.String,
+    target: Schema.String,
+    targets: Schema.Array(Schema.String),
+  },
+) {}
+
+/** `Machine.fromConfig()` — the statechart config names things the schemas or registries don't define */
+export class InvalidMachineConfigError extends Schema.TaggedErrorClass<InvalidMachineConfigError>()(
+  "InvalidMachineConfigError",
+  {
+    unknownStates: Schema.Array(Schema.String),
+    unknownEvents: Schema.Array(Schema.String),
+    unknownActions: Schema.Array(Schema.String),
+    unknownGuards: Schema.Array(Schema.String),
+    /** Unsupported constructs and targets or events that can't be built without fields */
+    issues: Schema.Array(Schema.String),
+    message: Schema.String,
+  },
+) {}
+
+/** A transition handler failed with an error no `.onError()` handles */
+export class TransitionFailedError extends Schema.TaggedErrorClass<TransitionFailedError>()(
+  "TransitionFailedError",
+  { state: Schema.String, event: Schema.String, error: Schema.Unknown },
+) {}
+
+/** `ask` / `call` / `waitFor` / `awaitFinal` gave up waiting after its `{ timeout }` */
+export class ActorTimeoutError extends Schema.TaggedErrorClass<ActorTimeoutError>()(
+  "ActorTimeoutError",
+  { actorId: Schema.String, operation: Schema.String, timeoutMillis: Schema.Number },
+) {}
+
+/** `send` to a full bounded mailbox spawned with `{ mailbox: { strategy: "fail" } }` */
+export class MailboxFullError extends Schema.TaggedErrorClass<MailboxFullError>()(
+  "MailboxFullError",
+  { actorId: Schema.String, capacity: Schema.Number },
+) {}
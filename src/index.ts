@@ -21,9 +21,16 @@ export type {
 // Errors
 export {
   ActorStoppedError,
+  AlwaysLoopError,
+  ActorFailedError,
+  ActorTimeoutError,
   AssertionError,
   DuplicateActorError,
+  InvalidInputError,
+  InvalidMachineConfigError,
   InvalidSchemaError,
+  InvalidStateGroupError,
+  MailboxFullError,
   MissingMatchHandlerError,
   MissingSchemaError,
   NoReplyError,
@@ -31,12 +38,19 @@ export {
   ProvisionValidationError,
   SlotCodecError,
   SlotProvisionError,
+  TransitionFailedError,
+  UndeclaredTargetError,
   VersionConflictError,
 } from "./errors.js";
 
 // Schema-first State/Event definitions
 export { State, Event } from "./schema.js";
-export type { MachineStateSchema, MachineEventSchema, ReplyFields } from "./schema.js";
+export type {
+  MachineStateSchema,
+  MachineEventSchema,
+  ReplyFields,
+  ReplyStreamFields,
+} from "./schema.js";
 
 // Core machine types (for advanced use)
 export type {
@@ -44,19 +58,46 @@ export type {
   MachineRef,
   MakeConfig,
   Transition,
+  TransitionGuard,
+  GuardedTransition,
   SpawnEffect,
+  StateAction,
+  AlwaysTransition,
+  AlwaysContext,
   BackgroundEffect,
   HandlerContext,
+  TransitionContext,
   StateHandlerContext,
+  ErrorContext,
+  TransitionErrorHandler,
   TaskOptions,
   TimeoutConfig,
+  IdleTimeout,
+  PostponeRule,
+  EventPriority,
   ReplyResult,
+  ReplyFailure,
   DeferReplyResult,
   Recovery,
   RecoveryContext,
   Durability,
   DurabilityCommit,
   Lifecycle,
+  StateGroup,
+  ParallelState,
+  StateHistory,
+  HistoryTarget,
+  ValidationReport,
+  MachineDescription,
+  SchemaDescription,
+  Compatibility,
+  MachineChange,
+  MachineDiff,
+  StatechartConfig,
+  StateNodeConfig,
+  TransitionNodeConfig,
+  DelayedTransitionNodeConfig,
+  FromConfigOptions,
 } from "./machine.js";
 
 // Actor types and system
@@ -64,9 +105,14 @@ export type {
   ActorRef,
   ActorRefSync,
   ActorSystem,
+  DeadLetter,
+  DeadLetterReason,
+  MailboxOptions,
+  PendingTimer,
   ProcessEventResult,
   SystemEvent,
   SystemEventListener,
+  TimeoutOptions,
   TransitionInfo,
 } from "./actor.js";
 export {
@@ -92,9 +138,13 @@ export type { SimulationResult, TestHarness, TestHarnessOptions } from "./testin
 // Inspection
 export type {
   AnyInspectionEvent,
+  DropEvent,
+  ConflateEvent,
+  UnhandledEvent,
   EffectEvent,
   ErrorEvent,
   EventReceivedEvent,
+  GuardEvent,
   InspectionEvent,
   Inspector,
   InspectorHandler,
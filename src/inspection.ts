@@ -46,6 +46,20 @@ export interface TransitionEvent<S, E> {
   readonly timestamp: number;
 }
 
+/**
+ * Event emitted when a transition guard is evaluated
+ */
+export interface GuardEvent<S, E> {
+  readonly type: "@machine.guard";
+  readonly actorId: string;
+  readonly state: S;
+  readonly event: E;
+  /** Guard name — slot name for named guards, function name for predicates */
+  readonly guard: string;
+  readonly passed: boolean;
+  readonly timestamp: number;
+}
+
 /**
  * Event emitted when a spawn effect runs
  */
@@ -62,18 +76,18 @@ export interface TaskEvent<S> {
   readonly actorId: string;
   readonly state: S;
   readonly taskName?: string;
-  readonly phase: "start" | "success" | "failure" | "interrupt";
+  readonly phase: "start" | "reset" | "success" | "failure" | "interrupt";
   readonly error?: string;
   readonly timestamp: number;
 }
 
 /**
- * Event emitted when a transition handler or spawn effect fails with a defect
+ * Event emitted when a transition handler, spawn effect or entry/exit action fails with a defect
  */
 export interface ErrorEvent<S, E> {
   readonly type: "@machine.error";
   readonly actorId: string;
-  readonly phase: "transition" | "spawn";
+  readonly phase: "transition" | "spawn" | "enter" | "exit";
   readonly state: S;
   readonly event: E;
   readonly error: string;
@@ -90,6 +104,45 @@ export interface StopEvent<S> {
   readonly timestamp: number;
 }
 
+/**
+ * Event emitted when a bounded mailbox discards a sent event
+ */
+export interface DropEvent<S, E> {
+  readonly type: "@machine.drop";
+  readonly actorId: string;
+  readonly state: S;
+  readonly event: E;
+  /** `"dropping"` discards the new event, `"sliding"` evicts the oldest queued one */
+  readonly strategy: "dropping" | "sliding";
+  readonly timestamp: number;
+}
+
+/**
+ * Event replaced a still-queued event of the same tag (and key) — `.conflate()`
+ */
+export interface ConflateEvent<S, E> {
+  readonly type: "@machine.conflate";
+  readonly actorId: string;
+  readonly state: S;
+  /** The new event, now pending in place of `replaced` */
+  readonly event: E;
+  readonly replaced: E;
+  /** Events conflated into the pending entry so far */
+  readonly count: number;
+  readonly timestamp: number;
+}
+
+/**
+ * Event emitted when no transition accepts an event in the current state
+ */
+export interface UnhandledEvent<S, E> {
+  readonly type: "@machine.unhandled";
+  readonly actorId: string;
+  readonly state: S;
+  readonly event: E;
+  readonly timestamp: number;
+}
+
 /**
  * Union of all inspection events
  */
@@ -97,10 +150,14 @@ export type InspectionEvent<S, E> =
   | SpawnEvent<S>
   | EventReceivedEvent<S, E>
   | TransitionEvent<S, E>
+  | GuardEvent<S, E>
   | EffectEvent<S>
   | TaskEvent<S>
   | ErrorEvent<S, E>
-  | StopEvent<S>;
+  | StopEvent<S>
+  | DropEvent<S, E>
+  | ConflateEvent<S, E>
+  | UnhandledEvent<S, E>;
 
 /**
  * Convenience alias for untyped inspection events.
@@ -193,6 +250,8 @@ const inspectionSpanName = <
       return `Machine.inspect ${event.event._tag}`;
     case "@machine.transition":
       return `Machine.inspect ${event.fromState._tag}->${event.toState._tag}`;
+    case "@machine.guard":
+      return `Machine.inspect guard:${event.guard}`;
     case "@machine.effect":
       return `Machine.inspect ${event.effectType}`;
     case "@machine.task":
@@ -201,6 +260,12 @@ const inspectionSpanName = <
       return `Machine.inspect ${event.phase}`;
     case "@machine.stop":
       return `Machine.inspect ${event.finalState._tag}`;
+    case "@machine.drop":
+      return `Machine.inspect drop:${event.event._tag}`;
+    case "@machine.conflate":
+      return `Machine.inspect conflate:${event.event._tag}`;
+    case "@machine.unhandled":
+      return `Machine.inspect unhandled:${event.event._tag}`;
   }
 };
 
@@ -217,6 +282,8 @@ const inspectionTraceName = <
       return `machine.event ${event.event._tag}`;
     case "@machine.transition":
       return `machine.transition ${event.fromState._tag}->${event.toState._tag}`;
+    case "@machine.guard":
+      return `machine.guard ${event.guard} ${event.passed ? "passed" : "failed"}`;
     case "@machine.effect":
       return `machine.effect ${event.effectType}`;
     case "@machine.task":
@@ -225,6 +292,12 @@ const inspectionTraceName = <
       return `machine.error ${event.phase}`;
     case "@machine.stop":
       return `machine.stop ${event.finalState._tag}`;
+    case "@machine.drop":
+      return `machine.drop ${event.event._tag} ${event.strategy}`;
+    case "@machine.conflate":
+      return `machine.conflate ${event.event._tag} x${event.count}`;
+    case "@machine.unhandled":
+      return `machine.unhandled ${event.event._tag} in ${event.state._tag}`;
   }
 };
 
@@ -255,6 +328,14 @@ const inspectionAttributes = <
         "machine.state.to": event.toState._tag,
         "machine.event.tag": event.event._tag,
       };
+    case "@machine.guard":
+      return {
+        ...shared,
+        "machine.state.current": event.state._tag,
+        "machine.event.tag": event.event._tag,
+        "machine.guard.name": event.guard,
+        "machine.guard.passed": event.passed,
+      };
     case "@machine.effect":
       return {
         ...shared,
@@ -276,6 +357,26 @@ const inspectionAttributes = <
       };
     case "@machine.stop":
       return { ...shared, "machine.state.final": event.finalState._tag };
+    case "@machine.drop":
+      return {
+        ...shared,
+        "machine.state.current": event.state._tag,
+        "machine.event.tag": event.event._tag,
+        "machine.mailbox.strategy": event.strategy,
+      };
+    case "@machine.conflate":
+      return {
+        ...shared,
+        "machine.state.current": event.state._tag,
+        "machine.event.tag": event.event._tag,
+        "machine.conflate.count": event.count,
+      };
+    case "@machine.unhandled":
+      return {
+        ...shared,
+        "machine.state.current": event.state._tag,
+        "machine.event.tag": event.event._tag,
+      };
   }
 };
 
@@ -329,6 +430,18 @@ export const consoleInspector = (): Inspector<
       case "@machine.transition":
         console.log(prefix, event.fromState._tag, "→", event.toState._tag);
         break;
+      case "@machine.guard":
+        console.log(
+          prefix,
+          "guard",
+          event.guard,
+          event.passed ? "passed" : "failed",
+          "for",
+          event.event._tag,
+          "in",
+          event.state._tag,
+        );
+        break;
       case "@machine.effect":
         console.log(prefix, event.effectType, "effect in", event.state._tag);
         break;
@@ -348,6 +461,29 @@ export const consoleInspector = (): Inspector<
       case "@machine.stop":
         console.log(prefix, "stopped in", event.finalState._tag);
         break;
+      case "@machine.drop":
+        console.log(
+          prefix,
+          "dropped",
+          event.event._tag,
+          `(${event.strategy})`,
+          "in",
+          event.state._tag,
+        );
+        break;
+      case "@machine.conflate":
+        console.log(
+          prefix,
+          "conflated",
+          event.event._tag,
+          `(x${event.count})`,
+          "in",
+          event.state._tag,
+        );
+        break;
+      case "@machine.unhandled":
+        console.log(prefix, "unhandled", event.event._tag, "in", event.state._tag);
+        break;
     }
   });
 
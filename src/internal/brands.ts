@@ -36,19 +36,41 @@ export type FullStateBrand<D extends Record<string, unknown>> = StateBrand & Sch
 export type FullEventBrand<D extends Record<string, unknown>> = EventBrand & SchemaIdBrand<D>;
 
 /**
- * Brand that carries the reply type for an event variant.
+ * Brand that carries the reply (and reply error) type for an event variant.
  * Present only on events defined with Event.reply().
  */
 export type ReplyTypeId = "effect-machine/ReplyTypeId";
-export interface ReplyTypeBrand<R> extends Brand.Brand<ReplyTypeId> {
+export interface ReplyTypeBrand<R, Err = never> extends Brand.Brand<ReplyTypeId> {
   readonly _ReplyType: R;
+  readonly _ReplyError: Err;
 }
 
 /**
  * Extract the reply type from a branded event value.
  * Returns `never` if the event has no reply schema.
  */
-export type ExtractReply<E> = E extends ReplyTypeBrand<infer R> ? R : never;
+export type ExtractReply<E> = E extends ReplyTypeBrand<infer R, infer _Err> ? R : never;
+
+/**
+ * Extract the reply error type from a branded event value.
+ * Returns `never` if the event has no reply error schema.
+ */
+export type ExtractReplyError<E> = E extends ReplyTypeBrand<infer _R, infer Err> ? Err : never;
+
+/**
+ * Brand that carries the item type of a streamed reply.
+ * Present only on events defined with Event.replyStream().
+ */
+export type ReplyStreamTypeId = "effect-machine/ReplyStreamTypeId";
+export interface ReplyStreamTypeBrand<Item> extends Brand.Brand<ReplyStreamTypeId> {
+  readonly _ReplyStreamItem: Item;
+}
+
+/**
+ * Extract the streamed reply item type from a branded event value.
+ * Returns `never` if the event has no reply stream schema.
+ */
+export type ExtractReplyStreamItem<E> = E extends ReplyStreamTypeBrand<infer Item> ? Item : never;
 
 /**
  * Value or constructor for a tagged type.
@@ -0,0 +1,208 @@
+/**
+ * Machine introspection — a serializable description of a machine's registrations.
+ *
+ * @internal
+ */
+import { Duration, Schema } from "effect";
+import type { JsonSchema } from "effect";
+
+import type { Machine } from "../machine.js";
+import type { SlotsDef } from "../slot.js";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyMachine = Machine<any, any, any, any, any, any, any, any>;
+
+/**
+ * Builder arguments that opaque handlers hide, keyed by the registered handler
+ * (or idle timeout entry).
+ * @internal
+ */
+export interface RegistrationInfo {
+  /** `.task()` name */
+  readonly task?: string;
+  /** `.timeout()` / `.idleTimeout()` config, when static */
+  readonly timeout?: { readonly duration?: Duration.Input; readonly event?: string };
+}
+
+/** @internal */
+export const registrationInfo = new WeakMap<object, RegistrationInfo>();
+
+/** JSON Schema (draft 2020-12) document, or `undefined` when the schema has no JSON form */
+export type SchemaDescription = JsonSchema.Document<"draft-2020-12"> | undefined;
+
+/**
+ * Serializable description of a machine — see `Machine.describe()`.
+ * Schemas are rendered as JSON Schema documents.
+ */
+export interface MachineDescription {
+  /** Initial state tag — `undefined` when derived from spawn-time input */
+  readonly initial: string | undefined;
+  readonly states: ReadonlyArray<{ readonly tag: string; readonly schema: SchemaDescription }>;
+  readonly events: ReadonlyArray<{
+    readonly tag: string;
+    readonly schema: SchemaDescription;
+    /** Reply schema for `Event.reply()` events */
+    readonly reply?: SchemaDescription;
+    /** Reply error schema for `Event.reply(fields, reply, error)` events */
+    readonly replyError?: SchemaDescription;
+  }>;
+  readonly groups: ReadonlyArray<{
+    readonly name: string;
+    readonly children: ReadonlyArray<string>;
+  }>;
+  /** `.on()` / `.reenter()` — `from` is a state tag or group name */
+  readonly transitions: ReadonlyArray<{
+    readonly from: string;
+    readonly event: string;
+    readonly reenter: boolean;
+    readonly guard?: string;
+    readonly targets?: ReadonlyArray<string>;
+  }>;
+  /** `.onAny()` wildcards */
+  readonly wildcards: ReadonlyArray<{
+    readonly event: string;
+    readonly guard?: string;
+    readonly targets?: ReadonlyArray<string>;
+  }>;
+  /** `.always()` — states with eventless transitions, in registration order */
+  readonly always: ReadonlyArray<{ readonly from: string }>;
+  /** `.spawn()` / `.task()` / `.timeout()` state-scoped effects */
+  readonly spawnEffects: ReadonlyArray<{ readonly state: string; readonly task?: string }>;
+  /** `.timeout()` (`"state"`) and `.idleTimeout()` (`"idle"`) — static duration in millis and event tag */
+  readonly timeouts: ReadonlyArray<{
+    readonly state: string;
+    readonly kind: "state" | "idle";
+    readonly durationMillis?: number;
+    readonly event?: string;
+  }>;
+  readonly enterActions: ReadonlyArray<{ readonly state: string }>;
+  readonly exitActions: ReadonlyArray<{ readonly state: string }>;
+  readonly backgroundEffects: number;
+  readonly postponeRules: ReadonlyArray<{ readonly state: string; readonly event: string }>;
+  readonly finalStates: ReadonlyArray<string>;
+  readonly slots: ReadonlyArray<{
+    readonly name: string;
+    readonly input: SchemaDescription;
+    readonly output: SchemaDescription;
+  }>;
+  readonly input?: SchemaDescription;
+  readonly output?: SchemaDescription;
+  /** Parallel regions (`Machine.parallel()` only) */
+  readonly regions?: Readonly<Record<string, MachineDescription>>;
+}
+
+const describeSchema = (schema: unknown): SchemaDescription => {
+  try {
+    return Schema.toJsonSchemaDocument(schema as Schema.Top);
+  } catch {
+    return undefined;
+  }
+};
+
+const variantsOf = (schema: unknown): ReadonlyArray<[string, Schema.Struct.Fields]> =>
+  Object.entries(
+    (schema as { readonly _definition?: Record<string, Schema.Struct.Fields> } | undefined)
+      ?._definition ?? {},
+  );
+
+const guardAndTargets = (transition: AnyMachine["_transitions"][number]) => ({
+  ...(transition.guard === undefined ? {} : { guard: transition.guard.name }),
+  ...(transition.targets === undefined ? {} : { targets: transition.targets }),
+});
+
+const timeoutOf = (info: RegistrationInfo["timeout"]) => ({
+  ...(info?.duration === undefined
+    ? {}
+    : { durationMillis: Duration.toMillis(Duration.fromInputUnsafe(info.duration)) }),
+  ...(info?.event === undefined ? {} : { event: info.event }),
+});
+
+/**
+ * Describe a machine's structure as plain, JSON-serializable data.
+ *
+ * Handlers are opaque, so the description covers what the builder registered:
+ * variants, transitions (with guards and declared targets), effects, timeouts,
+ * postpone rules, final states, slots and reply schemas.
+ *
+ * @example
+ * ```ts
+ * const description = Machine.describe(machine);
+ * description.transitions; // [{ from: "Idle", event: "Start", reenter: false }, ...]
+ * JSON.stringify(description);
+ * ```
+ */
+export const describe = (machine: AnyMachine): MachineDescription => {
+  const regions = machine._regions;
+  const initial = (machine.initial as { readonly _tag?: string } | undefined)?._tag;
+
+  return {
+    initial,
+    states: variantsOf(machine.stateSchema).map(([tag, fields]) => ({
+      tag,
+      schema: describeSchema(Schema.Struct(fields)),
+    })),
+    events: variantsOf(machine.eventSchema).map(([tag, fields]) => {
+      const reply = machine._replySchemas.get(tag);
+      const replyError = machine._replyErrorSchemas.get(tag);
+      return {
+        tag,
+        schema: describeSchema(Schema.Struct(fields)),
+        ...(reply === undefined ? {} : { reply: describeSchema(reply) }),
+        ...(replyError === undefined ? {} : { replyError: describeSchema(replyError) }),
+      };
+    }),
+    groups: [...machine._groups].map(([name, children]) => ({ name, children })),
+    transitions: machine._transitions
+      .filter((t) => t.stateTag !== "*")
+      .map((t) => ({
+        from: t.stateTag,
+        event: t.eventTag,
+        reenter: t.reenter === true,
+        ...guardAndTargets(t),
+      })),
+    wildcards: machine._transitions
+      .filter((t) => t.stateTag === "*")
+      .map((t) => ({ event: t.eventTag, ...guardAndTargets(t) })),
+    always: machine._alwaysTransitions.map((a) => ({ from: a.stateTag })),
+    spawnEffects: machine._spawnEffects.map((s) => {
+      const task = registrationInfo.get(s.handler)?.task;
+      return { state: s.stateTag, ...(task === undefined ? {} : { task }) };
+    }),
+    timeouts: [
+      ...machine._spawnEffects.flatMap((s) => {
+        const info = registrationInfo.get(s.handler);
+        return info?.timeout === undefined
+          ? []
+          : [{ state: s.stateTag, kind: "state" as const, ...timeoutOf(info.timeout) }];
+      }),
+      ...machine._idleTimeouts.map((i) => ({
+        state: i.stateTag,
+        kind: "idle" as const,
+        ...timeoutOf(registrationInfo.get(i)?.timeout),
+      })),
+    ],
+    enterActions: machine._enterActions.map((a) => ({ state: a.stateTag })),
+    exitActions: machine._exitActions.map((a) => ({ state: a.stateTag })),
+    backgroundEffects: machine._backgroundEffects.length,
+    postponeRules: machine._postponeRules.map((r) => ({ state: r.stateTag, event: r.eventTag })),
+    finalStates: [...machine._finalStates],
+    slots: Object.entries((machine._slotsSchema?.definitions ?? {}) as SlotsDef).map(
+      ([name, def]) => ({
+        name,
+        input: describeSchema(def.inputSchema),
+        output: describeSchema(def.outputSchema),
+      }),
+    ),
+    ...(machine._inputSchema === undefined ? {} : { input: describeSchema(machine._inputSchema) }),
+    ...(machine._outputSchema === undefined
+      ? {}
+      : { output: describeSchema(machine._outputSchema) }),
+    ...(regions === undefined
+      ? {}
+      : {
+          regions: Object.fromEntries(
+            [...regions].map(([name, region]) => [name, describe(region as AnyMachine)]),
+          ),
+        }),
+  };
+};
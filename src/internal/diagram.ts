@@ -0,0 +1,358 @@
+/**
+ * Diagram exporters — Mermaid, Graphviz DOT and SCXML, built on `describe()`.
+ *
+ * Handlers are opaque: edges go to declared targets, `.reenter()` without targets
+ * loops back to its source, and any other transition points at a `?` node.
+ *
+ * @internal
+ */
+import { Duration } from "effect";
+
+import type { Machine } from "../machine.js";
+import { describe, type MachineDescription } from "./describe.js";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyMachine = Machine<any, any, any, any, any, any, any, any>;
+
+/** A drawn edge — `from` undefined for `.onAny()`, `to` undefined when targets are not declared */
+interface Edge {
+  readonly from: string | undefined;
+  readonly to: string | undefined;
+  readonly event: string | undefined;
+  readonly label: string;
+  readonly guard: string | undefined;
+  readonly reenter: boolean;
+}
+
+const formatMillis = (millis: number | undefined) =>
+  millis === undefined ? "?" : Duration.format(Duration.millis(millis));
+
+/** `after 5s` / `idle 10s` when a timeout on `state` sends `event` */
+const timeoutLabel = (d: MachineDescription, state: string, event: string) =>
+  d.timeouts
+    .filter((t) => t.state === state && t.event === event)
+    .map((t) => `${t.kind === "idle" ? "idle" : "after"} ${formatMillis(t.durationMillis)}`);
+
+const edgesOf = (d: MachineDescription): ReadonlyArray<Edge> => {
+  const edge = (
+    from: string | undefined,
+    event: string | undefined,
+    targets: ReadonlyArray<string | undefined>,
+    extras: { readonly guard?: string; readonly reenter?: boolean },
+  ): ReadonlyArray<Edge> => {
+    const parts = [
+      event ?? "always",
+      ...(extras.guard === undefined ? [] : [`[${extras.guard}]`]),
+      ...(from === undefined || event === undefined ? [] : timeoutLabel(d, from, event)),
+      ...(extras.reenter === true ? ["(reenter)"] : []),
+    ];
+    return targets.map((to) => ({
+      from,
+      to,
+      event,
+      label: parts.join(" "),
+      guard: extras.guard,
+      reenter: extras.reenter === true,
+    }));
+  };
+  return [
+    ...d.transitions.flatMap((t) =>
+      edge(t.from, t.event, t.targets ?? [t.reenter ? t.from : undefined], t),
+    ),
+    ...d.wildcards.flatMap((w) => edge(undefined, w.event, w.targets ?? [undefined], w)),
+    ...d.always.flatMap((a) => edge(a.from, undefined, [undefined], {})),
+  ];
+};
+
+/** Postponed events per state or group */
+const postponesOf = (d: MachineDescription): ReadonlyMap<string, ReadonlyArray<string>> => {
+  const byState = new Map<string, string[]>();
+  for (const rule of d.postponeRules) {
+    byState.set(rule.state, [...(byState.get(rule.state) ?? []), rule.event]);
+  }
+  return byState;
+};
+
+/** Top-level entries (ungrouped states and outermost groups), in declaration order */
+const rootsOf = (d: MachineDescription): ReadonlyArray<string> => {
+  const nested = new Set(d.groups.flatMap((g) => g.children));
+  return [...d.groups.map((g) => g.name), ...d.states.map((s) => s.tag)].filter(
+    (name) => !nested.has(name),
+  );
+};
+
+const childrenOf = (d: MachineDescription, name: string) =>
+  d.groups.find((g) => g.name === name)?.children;
+
+// ============================================================================
+// Mermaid
+// ============================================================================
+
+const mermaidBody = (d: MachineDescription, prefix: string, indent: string): string[] => {
+  const id = (name: string) => (prefix === "" ? name : `${prefix}_${name}`);
+  const lines: string[] = [];
+  const renderState = (name: string, depth: string) => {
+    const children = childrenOf(d, name);
+    if (children === undefined) {
+      lines.push(prefix === "" ? `${depth}${name}` : `${depth}state "${name}" as ${id(name)}`);
+      return;
+    }
+    lines.push(
+      prefix === "" ? `${depth}state ${name} {` : `${depth}state "${name}" as ${id(name)} {`,
+    );
+    for (const child of children) renderState(child, `${depth}  `);
+    lines.push(`${depth}}`);
+  };
+
+  if (d.initial !== undefined) lines.push(`${indent}[*] --> ${id(d.initial)}`);
+  for (const root of rootsOf(d)) renderState(root, indent);
+
+  const edges = edgesOf(d);
+  if (edges.some((e) => e.from === undefined))
+    lines.push(`${indent}state "any state" as ${id("__any")}`);
+  if (edges.some((e) => e.to === undefined)) lines.push(`${indent}state "?" as ${id("__unknown")}`);
+  for (const e of edges) {
+    lines.push(`${indent}${id(e.from ?? "__any")} --> ${id(e.to ?? "__unknown")} : ${e.label}`);
+  }
+  for (const final of d.finalStates) lines.push(`${indent}${id(final)} --> [*]`);
+  for (const [state, events] of postponesOf(d)) {
+    lines.push(`${indent}note right of ${id(state)} : postpones ${events.join(", ")}`);
+  }
+  return lines;
+};
+
+/**
+ * Render a machine as a Mermaid `stateDiagram-v2`.
+ *
+ * @example
+ * ```ts
+ * const diagram = Machine.toMermaid(machine);
+ * ```
+ */
+export const toMermaid = (machine: AnyMachine): string => {
+  const d = describe(machine);
+  const lines = ["stateDiagram-v2"];
+  if (d.regions === undefined) {
+    lines.push(...mermaidBody(d, "", "  "));
+  } else {
+    lines.push(`  [*] --> ${d.initial ?? "Parallel"}`, `  state ${d.initial ?? "Parallel"} {`);
+    Object.entries(d.regions).forEach(([name, region], i) => {
+      if (i > 0) lines.push("    --");
+      lines.push(`    state ${name} {`, ...mermaidBody(region, name, "      "), "    }");
+    });
+    lines.push("  }");
+  }
+  return `${lines.join("\n")}\n`;
+};
+
+// ============================================================================
+// Graphviz DOT
+// ============================================================================
+
+const quote = (text: string) =>
+  `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+
+const dotBody = (d: MachineDescription, prefix: string, indent: string): string[] => {
+  const id = (name: string) => quote(prefix === "" ? name : `${prefix}.${name}`);
+  const lines: string[] = [];
+  const postpones = postponesOf(d);
+  const finals = new Set(d.finalStates);
+  const nodeLabel = (name: string) => {
+    const postponed = postpones.get(name);
+    return postponed === undefined ? name : `${name}\npostpones: ${postponed.join(", ")}`;
+  };
+  const renderState = (name: string, depth: string) => {
+    const children = childrenOf(d, name);
+    if (children === undefined) {
+      const shape = finals.has(name) ? ", shape=doublecircle" : "";
+      lines.push(`${depth}${id(name)} [label=${quote(nodeLabel(name))}${shape}];`);
+      return;
+    }
+    lines.push(
+      `${depth}subgraph ${quote(`cluster_${prefix}${name}`)} {`,
+      `${depth}  label=${quote(nodeLabel(name))};`,
+    );
+    for (const child of children) renderState(child, `${depth}  `);
+    lines.push(`${depth}}`);
+  };
+
+  if (d.initial !== undefined) {
+    lines.push(
+      `${indent}${id("__start")} [shape=point];`,
+      `${indent}${id("__start")} -> ${id(d.initial)};`,
+    );
+  }
+  for (const root of rootsOf(d)) renderState(root, indent);
+
+  const edges = edgesOf(d);
+  if (edges.some((e) => e.from === undefined)) {
+    lines.push(`${indent}${id("__any")} [label="any state", shape=plaintext];`);
+  }
+  if (edges.some((e) => e.to === undefined)) {
+    lines.push(`${indent}${id("__unknown")} [label="?", shape=plaintext];`);
+  }
+  // Edges can't attach to clusters: anchor on the group's first leaf and clip with ltail/lhead
+  const endpoint = (name: string, side: "ltail" | "lhead") => {
+    let anchor = name;
+    for (let children = childrenOf(d, anchor); children?.[0] !== undefined; ) {
+      anchor = children[0];
+      children = childrenOf(d, anchor);
+    }
+    const clip = anchor === name ? [] : [`${side}=${quote(`cluster_${prefix}${name}`)}`];
+    return { node: id(anchor), clip };
+  };
+  for (const e of edges) {
+    const from = endpoint(e.from ?? "__any", "ltail");
+    const to = endpoint(e.to ?? "__unknown", "lhead");
+    const attrs = [
+      `label=${quote(e.label)}`,
+      ...from.clip,
+      ...(e.to === e.from ? [] : to.clip),
+      ...(e.from === undefined ? ["style=dashed"] : []),
+    ];
+    lines.push(`${indent}${from.node} -> ${to.node} [${attrs.join(", ")}];`);
+  }
+  return lines;
+};
+
+/**
+ * Render a machine as a Graphviz DOT `digraph`.
+ *
+ * @example
+ * ```ts
+ * const dot = Machine.toDot(machine); // dot -Tsvg
+ * ```
+ */
+export const toDot = (machine: AnyMachine): string => {
+  const d = describe(machine);
+  const lines = [
+    "digraph Machine {",
+    "  rankdir=LR;",
+    "  compound=true;",
+    "  node [shape=box, style=rounded];",
+  ];
+  if (d.regions === undefined) {
+    lines.push(...dotBody(d, "", "  "));
+  } else {
+    for (const [name, region] of Object.entries(d.regions)) {
+      lines.push(
+        `  subgraph ${quote(`cluster_${name}`)} {`,
+        `    label=${quote(name)};`,
+        ...dotBody(region, name, "    "),
+        "  }",
+      );
+    }
+  }
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+};
+
+// ============================================================================
+// SCXML
+// ============================================================================
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const scxmlBody = (d: MachineDescription, prefix: string, indent: string): string[] => {
+  const id = (name: string) => escapeXml(prefix === "" ? name : `${prefix}.${name}`);
+  const lines: string[] = [];
+  const postpones = postponesOf(d);
+  const finals = new Set(d.finalStates);
+  const edges = edgesOf(d);
+
+  const transitions = (from: string | undefined, depth: string) => {
+    for (const e of edges.filter((edge) => edge.from === from)) {
+      const attrs = [
+        ...(e.event === undefined ? [] : [`event="${escapeXml(e.event)}"`]),
+        ...(e.guard === undefined ? [] : [`cond="${escapeXml(e.guard)}"`]),
+        ...(e.to === undefined ? [] : [`target="${id(e.to)}"`]),
+      ];
+      if (e.to === undefined) {
+        lines.push(`${depth}<!-- ${escapeXml(e.label)}: target not declared -->`);
+        if (e.event === undefined) continue;
+      }
+      lines.push(`${depth}<transition ${attrs.join(" ")}/>`);
+    }
+  };
+
+  const timers = (state: string, depth: string) => {
+    const stateTimeouts = d.timeouts.filter((t) => t.state === state && t.event !== undefined);
+    const scope = prefix === "" ? state : `${prefix}.${state}`;
+    const sendIds = stateTimeouts.map((t) => `${scope}.${t.kind}-timeout.${t.event}`);
+    if (stateTimeouts.length === 0) return;
+    lines.push(`${depth}<onentry>`);
+    stateTimeouts.forEach((t, i) => {
+      const delay = t.durationMillis === undefined ? "" : ` delay="${t.durationMillis}ms"`;
+      const note = t.kind === "idle" ? " <!-- restarted by every processed event -->" : "";
+      lines.push(
+        `${depth}  <send id="${escapeXml(sendIds[i] ?? "")}" event="${escapeXml(t.event ?? "")}"${delay}/>${note}`,
+      );
+    });
+    lines.push(`${depth}</onentry>`, `${depth}<onexit>`);
+    for (const sendId of sendIds) lines.push(`${depth}  <cancel sendid="${escapeXml(sendId)}"/>`);
+    lines.push(`${depth}</onexit>`);
+  };
+
+  const renderState = (name: string, depth: string) => {
+    const children = childrenOf(d, name);
+    if (children === undefined && finals.has(name)) {
+      lines.push(`${depth}<final id="${id(name)}"/>`);
+      return;
+    }
+    const open = lines.push(`${depth}<state id="${id(name)}">`);
+    for (const event of postpones.get(name) ?? []) {
+      lines.push(`${depth}  <!-- postpones ${escapeXml(event)} -->`);
+    }
+    timers(name, `${depth}  `);
+    transitions(name, `${depth}  `);
+    for (const child of children ?? []) renderState(child, `${depth}  `);
+    if (lines.length === open) lines[open - 1] = `${depth}<state id="${id(name)}"/>`;
+    else lines.push(`${depth}</state>`);
+  };
+
+  // `.onAny()` lives on an enclosing state, so specific transitions take priority
+  if (d.wildcards.length > 0) {
+    const initial = d.initial === undefined ? "" : ` initial="${id(d.initial)}"`;
+    lines.push(`${indent}<state id="${id("__any")}"${initial}>`);
+    transitions(undefined, `${indent}  `);
+    for (const root of rootsOf(d)) renderState(root, `${indent}  `);
+    lines.push(`${indent}</state>`);
+  } else {
+    for (const root of rootsOf(d)) renderState(root, indent);
+  }
+  return lines;
+};
+
+/**
+ * Render a machine as an SCXML document. Timeouts become delayed `<send>`s,
+ * `.onAny()` transitions sit on an enclosing state and postpone rules are comments.
+ *
+ * @example
+ * ```ts
+ * const scxml = Machine.toScxml(machine);
+ * ```
+ */
+export const toScxml = (machine: AnyMachine): string => {
+  const d = describe(machine);
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  const initial = d.initial === undefined ? "" : ` initial="${escapeXml(d.initial)}"`;
+  lines.push(`<scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0"${initial}>`);
+  if (d.regions === undefined) {
+    lines.push(...scxmlBody(d, "", "  "));
+  } else {
+    lines.push(`  <parallel id="${escapeXml(d.initial ?? "Parallel")}">`);
+    for (const [name, region] of Object.entries(d.regions)) {
+      const regionInitial =
+        region.initial === undefined ? "" : ` initial="${escapeXml(`${name}.${region.initial}`)}"`;
+      lines.push(
+        `    <state id="${escapeXml(name)}"${regionInitial}>`,
+        ...scxmlBody(region, name, "      "),
+        "    </state>",
+      );
+    }
+    lines.push("  </parallel>");
+  }
+  lines.push("</scxml>");
+  return `${lines.join("\n")}\n`;
+};
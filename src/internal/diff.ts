@@ -0,0 +1,236 @@
+/**
+ * Structural diff between two versions of a machine, classified for persistence.
+ *
+ * Snapshots persist the state (decoded with the state schema); journals persist
+ * events (decoded with the event schema and replayed through the transitions).
+ *
+ * @internal
+ */
+import { Schema } from "effect";
+
+import type { Machine } from "../machine.js";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyMachine = Machine<any, any, any, any, any, any, any, any>;
+
+/** Whether data persisted by the old machine still works with the new one */
+export type Compatibility = "safe" | "breaking";
+
+/**
+ * One structural change between machine versions. Parallel regions prefix
+ * state tags and transition sources as `region:State`.
+ */
+export type MachineChange = (
+  | {
+      readonly kind: "variantAdded" | "variantRemoved";
+      readonly schema: "state" | "event";
+      readonly tag: string;
+    }
+  | {
+      readonly kind: "fieldAdded" | "fieldRemoved" | "fieldChanged";
+      readonly schema: "state" | "event";
+      readonly tag: string;
+      readonly field: string;
+    }
+  | { readonly kind: "transitionRemoved"; readonly from: string; readonly event: string }
+  | { readonly kind: "finalAdded" | "finalRemoved"; readonly state: string }
+  | { readonly kind: "slotRemoved"; readonly slot: string }
+  | { readonly kind: "regionAdded" | "regionRemoved"; readonly region: string }
+) & {
+  /** Old snapshots still decode */
+  readonly snapshot: Compatibility;
+  /** Old journals still decode and replay through the same transitions */
+  readonly journal: Compatibility;
+};
+
+/** Result of `Machine.diff()` */
+export interface MachineDiff {
+  readonly changes: ReadonlyArray<MachineChange>;
+  /** True when no change breaks snapshot restore */
+  readonly snapshotSafe: boolean;
+  /** True when no change breaks journal replay */
+  readonly journalSafe: boolean;
+}
+
+const variantsOf = (schema: unknown): Readonly<Record<string, Schema.Struct.Fields>> =>
+  (schema as { readonly _definition?: Record<string, Schema.Struct.Fields> } | undefined)
+    ?._definition ?? {};
+
+/** JSON Schema of a one-field struct — captures the field's type and optionality */
+const fieldShape = (name: string, field: Schema.Struct.Fields[string]) => {
+  try {
+    const { schema } = Schema.toJsonSchemaDocument(Schema.Struct({ [name]: field }));
+    return {
+      key: JSON.stringify(schema),
+      optional: !(
+        (schema as { readonly required?: ReadonlyArray<string> }).required ?? []
+      ).includes(name),
+    };
+  } catch {
+    return { key: undefined, optional: false };
+  }
+};
+
+const safety = (breaking: boolean): Compatibility => (breaking ? "breaking" : "safe");
+
+/** Variant and field changes — state schemas are persisted in snapshots, event schemas in journals */
+const diffVariants = (
+  schema: "state" | "event",
+  before: Readonly<Record<string, Schema.Struct.Fields>>,
+  after: Readonly<Record<string, Schema.Struct.Fields>>,
+  prefix: string,
+): ReadonlyArray<MachineChange> => {
+  const change = (breaking: boolean) =>
+    schema === "state"
+      ? { snapshot: safety(breaking), journal: "safe" as const }
+      : { snapshot: "safe" as const, journal: safety(breaking) };
+  const changes: Array<MachineChange> = [];
+
+  for (const tag of Object.keys(before)) {
+    if (!(tag in after)) {
+      changes.push({ kind: "variantRemoved", schema, tag: prefix + tag, ...change(true) });
+    }
+  }
+  for (const [tag, fields] of Object.entries(after)) {
+    const previous = before[tag];
+    if (previous === undefined) {
+      changes.push({ kind: "variantAdded", schema, tag: prefix + tag, ...change(false) });
+      continue;
+    }
+    for (const field of Object.keys(previous)) {
+      if (!(field in fields)) {
+        // Decoding ignores excess properties, so old data with the field still decodes
+        changes.push({ kind: "fieldRemoved", schema, tag: prefix + tag, field, ...change(false) });
+      }
+    }
+    for (const [field, fieldSchema] of Object.entries(fields)) {
+      const next = fieldShape(field, fieldSchema);
+      const old = previous[field];
+      if (old === undefined) {
+        changes.push({
+          kind: "fieldAdded",
+          schema,
+          tag: prefix + tag,
+          field,
+          ...change(!next.optional),
+        });
+      } else if (
+        old !== fieldSchema &&
+        (next.key === undefined || fieldShape(field, old).key !== next.key)
+      ) {
+        changes.push({ kind: "fieldChanged", schema, tag: prefix + tag, field, ...change(true) });
+      }
+    }
+  }
+  return changes;
+};
+
+const diffMachines = (before: AnyMachine, after: AnyMachine, prefix: string) => {
+  const changes: Array<MachineChange> = [
+    ...diffVariants("state", variantsOf(before.stateSchema), variantsOf(after.stateSchema), prefix),
+    ...diffVariants("event", variantsOf(before.eventSchema), variantsOf(after.eventSchema), prefix),
+  ];
+
+  // Replayed events that no longer transition leave entities in a different state
+  const transitionKey = (t: { readonly stateTag: string; readonly eventTag: string }) =>
+    `${t.stateTag}\u0000${t.eventTag}`;
+  const remaining = new Set(after._transitions.map(transitionKey));
+  const seen = new Set<string>();
+  for (const t of before._transitions) {
+    const key = transitionKey(t);
+    if (remaining.has(key) || seen.has(key)) continue;
+    seen.add(key);
+    const from = t.stateTag === "*" ? "*" : prefix + t.stateTag;
+    changes.push({
+      kind: "transitionRemoved",
+      from,
+      event: t.eventTag,
+      snapshot: "safe",
+      journal: "breaking",
+    });
+  }
+
+  // Events after a new final state are dropped on replay; a removed one accepts them again
+  for (const state of before._finalStates) {
+    if (!after._finalStates.has(state)) {
+      changes.push({
+        kind: "finalRemoved",
+        state: prefix + state,
+        snapshot: "safe",
+        journal: "breaking",
+      });
+    }
+  }
+  for (const state of after._finalStates) {
+    if (!before._finalStates.has(state)) {
+      changes.push({
+        kind: "finalAdded",
+        state: prefix + state,
+        snapshot: "safe",
+        journal: "breaking",
+      });
+    }
+  }
+
+  const slots = Object.keys(after._slotsSchema?.definitions ?? {});
+  for (const slot of Object.keys(before._slotsSchema?.definitions ?? {})) {
+    if (!slots.includes(slot)) {
+      changes.push({ kind: "slotRemoved", slot, snapshot: "safe", journal: "safe" });
+    }
+  }
+  return changes;
+};
+
+/**
+ * Compare two versions of a machine and classify each change for snapshot
+ * and journal persistence.
+ *
+ * - Removed state variants, added required state fields and changed state field
+ *   types break snapshots; the same changes to event variants break journals
+ * - Removed transitions and changed final states break journals — old events
+ *   would replay differently
+ * - Added variants, added optional fields, removed fields and removed slots are safe
+ *
+ * @example
+ * ```ts
+ * const { changes, journalSafe } = Machine.diff(orderMachineV1, orderMachineV2);
+ * if (!journalSafe) console.log(changes.filter((c) => c.journal === "breaking"));
+ * ```
+ */
+export const diff = (before: AnyMachine, after: AnyMachine): MachineDiff => {
+  const beforeRegions = before._regions;
+  const afterRegions = after._regions;
+  const changes: Array<MachineChange> = [];
+
+  if (beforeRegions === undefined || afterRegions === undefined) {
+    changes.push(...diffMachines(before, after, ""));
+  } else {
+    for (const [name, region] of beforeRegions) {
+      const next = afterRegions.get(name);
+      changes.push(
+        ...(next === undefined
+          ? [
+              {
+                kind: "regionRemoved" as const,
+                region: name,
+                snapshot: "safe" as const,
+                journal: "safe" as const,
+              },
+            ]
+          : diffMachines(region as AnyMachine, next as AnyMachine, `${name}:`)),
+      );
+    }
+    for (const name of afterRegions.keys()) {
+      if (!beforeRegions.has(name)) {
+        // Old snapshots have no entry for the region
+        changes.push({ kind: "regionAdded", region: name, snapshot: "breaking", journal: "safe" });
+      }
+    }
+  }
+
+  return {
+    changes,
+    snapshotSafe: changes.every((c) => c.snapshot === "safe"),
+    journalSafe: changes.every((c) => c.journal === "safe"),
+  };
+};
@@ -19,25 +19,52 @@
  */
 import {
   Cause,
+  Clock,
   Deferred,
+  Duration,
   Effect,
   Exit,
   Fiber,
+  Option,
   Queue,
   Ref,
   Schema,
   Scope,
+  Stream,
   SubscriptionRef,
 } from "effect";
 
-import type { Machine, MachineRef } from "../machine.js";
-import type { ActorSystem } from "../actor.js";
+import type { IdleTimeout, Machine, MachineRef, StateHistory } from "../machine.js";
+import { Inspector as InspectorTag } from "../inspection.js";
+import type { ActorSystem, PendingTimer } from "../actor.js";
 import { ActorSystem as ActorSystemTag } from "../actor.js";
-import type { ProcessEventHooks, ProcessEventResult } from "./transition.js";
+import type {
+  HistoryRef,
+  ProcessEventHooks,
+  ProcessEventResult,
+  StateScopeRef,
+} from "./transition.js";
 import type { SlotsDef, MachineContext } from "../slot.js";
-import { processEventCore, runSpawnEffects, shouldPostpone } from "./transition.js";
-import { NoReplyError } from "../errors.js";
-import { INTERNAL_INIT_EVENT } from "./utils.js";
+import {
+  ancestorsOf,
+  closeStateScopes,
+  isFinalState,
+  processEventCore,
+  settleAlwaysCore,
+  recordHistory,
+  resolveOutput,
+  runEntryEffects,
+  runUnhandledHandlers,
+  shouldPostpone,
+} from "./transition.js";
+import {
+  ActorFailedError,
+  ActorStoppedError,
+  NoReplyError,
+  TransitionFailedError,
+} from "../errors.js";
+import { emitWithTimestamp } from "./inspection.js";
+import { INTERNAL_INIT_EVENT, isReplyFailure } from "./utils.js";
 import { ActorExit, type DefectPhase } from "../supervision.js";
 
 // ============================================================================
@@ -60,17 +87,207 @@ export type RuntimeQueuedEvent<E> =
   | {
       readonly _tag: "ask";
       readonly event: E;
-      readonly reply: Deferred.Deferred<unknown, NoReplyError>;
+      /** Fails with NoReplyError, or the typed error of `Machine.replyError()` */
+      readonly reply: Deferred.Deferred<unknown, unknown>;
+    }
+  | {
+      readonly _tag: "askStream";
+      readonly event: E;
+      /** Reply items — ended by `self.completeReply()`, failed with NoReplyError or on stop */
+      readonly stream: Queue.Queue<unknown, unknown>;
+      /** Settled once the event is processed (fails on defect) */
+      readonly done: Deferred.Deferred<void, unknown>;
     }
   | {
       readonly _tag: "drain";
       readonly done: Deferred.Deferred<void, never>;
     };
 
+/** Event-bearing queue variants (excludes the drain sentinel) */
+type QueuedRequest<E> = Exclude<RuntimeQueuedEvent<E>, { readonly _tag: "drain" }>;
+
+// ============================================================================
+// Priority lanes — taken by the event loop before the mailbox
+// ============================================================================
+
+interface PriorityLanes<E> {
+  /** Events from `self.raise()` — processed right after the current transition */
+  readonly raised: Array<E>;
+  /** Requests for event tags with `.priority(..., "high")`, FIFO */
+  readonly high: Array<QueuedRequest<E>>;
+  /** Set by `self.stash()` — the event being processed moves to the postpone buffer */
+  stash: boolean;
+  /** Set by `self.unstashAll()` — the postpone buffer is retried ahead of the mailbox */
+  unstash: boolean;
+  /** Set while the loop waits on an empty mailbox — completed by `wakeLoop` */
+  waker: Deferred.Deferred<void> | undefined;
+}
+
+// Keyed by mailbox, so a restarted generation (fresh mailbox) starts with empty lanes
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const priorityLanes = new WeakMap<Queue.Queue<any>, PriorityLanes<any>>();
+
+const lanesOf = <E>(eventQueue: Queue.Queue<RuntimeQueuedEvent<E>>): PriorityLanes<E> => {
+  let lanes = priorityLanes.get(eventQueue);
+  if (lanes === undefined) {
+    lanes = { raised: [], high: [], stash: false, unstash: false, waker: undefined };
+    priorityLanes.set(eventQueue, lanes);
+  }
+  return lanes;
+};
+
+/**
+ * Unblock a loop waiting on an empty mailbox so it checks the priority lanes.
+ * Out of band — a token in the mailbox would take up its capacity.
+ */
+const wakeLoop = <E>(eventQueue: Queue.Queue<RuntimeQueuedEvent<E>>): void => {
+  const lanes = lanesOf(eventQueue);
+  if (lanes.waker !== undefined) Deferred.doneUnsafe(lanes.waker, Effect.void);
+};
+
+/**
+ * Wait until the mailbox has an entry or a priority lane is woken — without taking,
+ * so the loop re-checks the lanes first. Returns at once when a lane already has work.
+ */
+const awaitWork = <E>(eventQueue: Queue.Queue<RuntimeQueuedEvent<E>>): Effect.Effect<void> =>
+  Effect.suspend(() => {
+    const lanes = lanesOf(eventQueue);
+    if (lanes.raised.length > 0 || lanes.high.length > 0 || lanes.unstash) return Effect.void;
+    const waker = Deferred.makeUnsafe<void>();
+    lanes.waker = waker;
+    return Effect.raceFirst(Queue.peek(eventQueue), Deferred.await(waker)).pipe(
+      Effect.ensuring(
+        Effect.sync(() => {
+          lanes.waker = undefined;
+        }),
+      ),
+      Effect.asVoid,
+    );
+  });
+
+/**
+ * Enqueue a request, honouring the machine's event priorities (`.priority()`).
+ * High-priority requests bypass the mailbox — and its bound — via the priority lane.
+ * @internal
+ */
+export const offerQueued = <E extends { readonly _tag: string }>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- wide acceptance
+  machine: Machine<any, E, any, any, any, any>,
+  eventQueue: Queue.Queue<RuntimeQueuedEvent<E>>,
+  entry: QueuedRequest<E>,
+): Effect.Effect<void> =>
+  Effect.suspend(() => {
+    if (machine.priorities.get(entry.event._tag) !== "high") {
+      return Queue.offer(eventQueue, entry).pipe(Effect.asVoid);
+    }
+    lanesOf(eventQueue).high.push(entry);
+    wakeLoop(eventQueue);
+    return Effect.void;
+  });
+
+/** Whether the machine gives the event's tag high priority. @internal */
+export const isHighPriority = <E extends { readonly _tag: string }>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- wide acceptance
+  machine: Machine<any, E, any, any, any, any>,
+  event: E,
+): boolean => machine.priorities.get(event._tag) === "high";
+
+// ============================================================================
+// Conflation — a newer send replaces a still-queued one in place
+// ============================================================================
+
+/** A queued send of a conflated tag — its event is swapped while it waits */
+interface PendingConflation<E> {
+  readonly entry: { readonly _tag: "send"; event: E };
+  count: number;
+}
+
+// Keyed by mailbox, like the priority lanes
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const pendingConflations = new WeakMap<Queue.Queue<any>, Map<string, PendingConflation<any>>>();
+
+const conflationKey = <E extends { readonly _tag: string }>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- wide acceptance
+  machine: Machine<any, E, any, any, any, any>,
+  event: E,
+): string | undefined => {
+  const rule = machine.conflations.get(event._tag);
+  if (rule === undefined) return undefined;
+  if (rule.key === undefined) return event._tag;
+  return `${event._tag}:${String((event as Record<string, unknown>)[rule.key])}`;
+};
+
+/**
+ * Stop conflating into a queued send — it left the mailbox (taken, evicted or never enqueued).
+ * @internal
+ */
+export const releaseConflation = <E extends { readonly _tag: string }>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- wide acceptance
+  machine: Machine<any, E, any, any, any, any>,
+  eventQueue: Queue.Queue<RuntimeQueuedEvent<E>>,
+  entry: RuntimeQueuedEvent<E>,
+): void => {
+  if (entry._tag !== "send") return;
+  const key = conflationKey(machine, entry.event);
+  if (key === undefined) return;
+  const pending = pendingConflations.get(eventQueue);
+  if (pending?.get(key)?.entry === entry) pending.delete(key);
+};
+
+/**
+ * Offer a send, conflating it into a still-queued send with the same key (`.conflate()`).
+ * `offer` enqueues a fresh entry and reports whether it made it into the mailbox.
+ * @internal
+ */
+export const offerSend = <E extends { readonly _tag: string }, Err>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- wide acceptance
+  machine: Machine<any, E, any, any, any, any>,
+  eventQueue: Queue.Queue<RuntimeQueuedEvent<E>>,
+  event: E,
+  offer: (entry: { readonly _tag: "send"; readonly event: E }) => Effect.Effect<boolean, Err>,
+  onConflate?: (event: E, replaced: E, count: number) => Effect.Effect<void>,
+): Effect.Effect<void, Err> =>
+  Effect.suspend(() => {
+    const entry: { readonly _tag: "send"; event: E } = { _tag: "send", event };
+    const key = conflationKey(machine, event);
+    if (key === undefined) return Effect.asVoid(offer(entry));
+    let pending = pendingConflations.get(eventQueue);
+    if (pending === undefined) {
+      pending = new Map();
+      pendingConflations.set(eventQueue, pending);
+    }
+    const current = pending.get(key);
+    if (current !== undefined) {
+      const replaced = current.entry.event;
+      current.entry.event = event;
+      current.count++;
+      return onConflate !== undefined ? onConflate(event, replaced, current.count) : Effect.void;
+    }
+    pending.set(key, { entry, count: 0 });
+    return offer(entry).pipe(
+      Effect.onExit((exit) =>
+        Exit.isSuccess(exit) && exit.value
+          ? Effect.void
+          : Effect.sync(() => releaseConflation(machine, eventQueue, entry)),
+      ),
+      Effect.asVoid,
+    );
+  });
+
 // ============================================================================
 // Cell resources — stable across runtime generations
 // ============================================================================
 
+/**
+ * Pending deferred reply of the event loop — a single value for `ask`,
+ * a stream of items for `askStream`.
+ * @internal
+ */
+export interface DeferredReplyRef {
+  current: Deferred.Deferred<unknown, unknown> | undefined;
+  stream: { readonly eventTag: string; readonly queue: Queue.Queue<unknown, unknown> } | undefined;
+}
+
 /**
  * Resources owned by the actor cell (stable across generations).
  * When provided, createRuntime uses these instead of allocating its own.
@@ -92,10 +309,19 @@ export interface RuntimeHandle<S, E> {
   readonly send: (event: E) => Effect.Effect<void>;
   /** Enqueue event and wait for processing to complete (for RPC Send). Fails on defect. */
   readonly sendWait: (event: E) => Effect.Effect<void, unknown>;
-  /** Enqueue an ask event, returns the reply value */
-  readonly ask: (event: E) => Effect.Effect<unknown, NoReplyError>;
+  /** Enqueue an ask event, returns the reply value (fails with NoReplyError or the reply error) */
+  readonly ask: (event: E) => Effect.Effect<unknown, unknown>;
+  /**
+   * Enqueue an askStream event and wait for processing (for RPC AskStream).
+   * Returns the streamed reply items. Fails on defect.
+   */
+  readonly askStream: (event: E) => Effect.Effect<Stream.Stream<unknown, unknown>, unknown>;
   /** Get current state */
   readonly getState: Effect.Effect<S>;
+  /** Get the recorded state history (read by `Machine.history()` targets) */
+  readonly getHistory: Effect.Effect<StateHistory<S>>;
+  /** Pending named timers with their remaining time */
+  readonly getTimers: Effect.Effect<ReadonlyArray<PendingTimer<E>>>;
   /** SubscriptionRef for state observation (WatchState streaming) */
   readonly stateRef: SubscriptionRef.SubscriptionRef<S>;
   /** Whether the runtime has stopped (final state reached) */
@@ -142,6 +368,12 @@ export interface RuntimeLifecycleHooks<S, E> {
   readonly onShutdown?: () => Effect.Effect<void>;
   /** Before initial spawn effects — actor emits @machine.effect inspection */
   readonly onInitialSpawnEffects?: (state: S) => Effect.Effect<void>;
+  /** A send replaced a still-queued one (`.conflate()`) — actor emits @machine.conflate */
+  readonly onConflate?: (event: E, replaced: E, count: number) => Effect.Effect<void>;
+  /** No transition accepted the event — actor emits @machine.unhandled, publishes a dead letter */
+  readonly onUnhandled?: (state: S, event: E) => Effect.Effect<void>;
+  /** A call/ask was skipped because its caller timed out — actor publishes a dead letter */
+  readonly onExpired?: (event: E) => Effect.Effect<void>;
 }
 
 // ============================================================================
@@ -178,6 +410,8 @@ export interface RuntimeConfig<S, E> {
   readonly skipFinalizer?: boolean;
   /** Prefix for child actor IDs in self.spawn. Entity-machine uses `${actorId}/`. Default: no prefix. */
   readonly childIdPrefix?: string;
+  /** Recovered state history to seed `Machine.history()` targets with */
+  readonly history?: StateHistory<S>;
 }
 
 /** @internal */
@@ -185,8 +419,38 @@ export interface ProcessQueuedResult<S> {
   readonly shouldStop: boolean;
   readonly stateChanged: boolean;
   readonly result: ProcessEventResult<S>;
+  /** Output of the final state, resolved when `shouldStop` */
+  readonly output?: unknown;
 }
 
+/**
+ * Resolve a terminal exit to the actor's output.
+ * @internal
+ */
+export const outputOf = <S, O>(
+  actorId: string,
+  exit: ActorExit<S, O>,
+): Effect.Effect<O, ActorFailedError> =>
+  exit._tag === "Final"
+    ? Effect.succeed(exit.output)
+    : Effect.fail(
+        new ActorFailedError({
+          actorId,
+          reason:
+            exit._tag === "Stopped" ? "stopped" : exit._tag === "Failed" ? "failed" : "defect",
+        }),
+      );
+
+/** The unhandled typed failure of a transition handler, if that is what the cause holds */
+const transitionFailureOf = (cause: Cause.Cause<unknown>): TransitionFailedError | undefined => {
+  for (const reason of cause.reasons) {
+    if (Cause.isDieReason(reason) && Schema.is(TransitionFailedError)(reason.defect)) {
+      return reason.defect;
+    }
+  }
+  return undefined;
+};
+
 /**
  * Create a runtime for a machine. Returns a handle for sending events
  * and querying state. The runtime owns:
@@ -234,34 +498,129 @@ export const createRuntime = Effect.fn("effect-machine.runtime.create")(function
   const actorScope = yield* Scope.make();
 
   // Pending deferred reply — stored when handler returns Machine.deferReply()
-  // Settled by self.reply() from spawn handler
-  const deferredReplyRef: { current: Deferred.Deferred<unknown, NoReplyError> | undefined } = {
-    current: undefined,
-  };
+  // Settled by self.reply() (ask) or self.emitReply()/self.completeReply() (askStream)
+  const deferredReplyRef: DeferredReplyRef = { current: undefined, stream: undefined };
 
   // Self reference — sends go through the same queue
-  const selfSend = Effect.fn("effect-machine.runtime.self.send")(function* (event: E) {
+  // `onEnqueued` sees the mailbox entry — idle timeouts mark their own deliveries with it
+  const selfSend = Effect.fn("effect-machine.runtime.self.send")(function* (
+    event: E,
+    onEnqueued?: (entry: RuntimeQueuedEvent<E>) => void,
+  ) {
     const stopped = yield* Ref.get(stoppedRef);
     if (!stopped) {
-      yield* Queue.offer(eventQueue, { _tag: "send", event });
+      yield* offerSend(
+        machine,
+        eventQueue,
+        event,
+        (entry) => {
+          onEnqueued?.(entry);
+          if (isHighPriority(machine, event)) {
+            return Effect.as(offerQueued(machine, eventQueue, entry), true);
+          }
+          // A full bounded mailbox must not block the event loop on its own sends
+          if (!Queue.offerUnsafe(eventQueue, entry)) fork(Queue.offer(eventQueue, entry));
+          return Effect.succeed(true);
+        },
+        lifecycle?.onConflate,
+      );
     }
   });
+
+  // Raised events skip the mailbox entirely — the loop takes them before anything else
+  const selfRaise = Effect.fn("effect-machine.runtime.self.raise")(function* (event: E) {
+    if (yield* Ref.get(stoppedRef)) return;
+    lanesOf(eventQueue).raised.push(event);
+    wakeLoop(eventQueue);
+  });
+
+  // Stash signals — read by the event loop once the current event is processed
+  const stash = Effect.sync(() => {
+    lanesOf(eventQueue).stash = true;
+  });
+  const unstashAll = Effect.sync(() => {
+    lanesOf(eventQueue).unstash = true;
+    wakeLoop(eventQueue);
+  });
+
+  // Named generic timers — forked into actorScope, so they survive state changes
+  // and end with the generation
+  const timers = new Map<
+    string,
+    { readonly fiber: Fiber.Fiber<void>; readonly event: E; readonly deadline: number }
+  >();
+  const cancelTimer = (name: string) =>
+    Effect.suspend(() => {
+      const timer = timers.get(name);
+      if (timer === undefined) return Effect.void;
+      timers.delete(name);
+      return Fiber.interrupt(timer.fiber);
+    });
+  const startTimer = Effect.fn("effect-machine.runtime.self.startTimer")(function* (
+    name: string,
+    duration: Duration.Input,
+    event: E,
+  ) {
+    yield* cancelTimer(name);
+    if (yield* Ref.get(stoppedRef)) return;
+    const delay = Duration.fromInputUnsafe(duration);
+    const deadline = (yield* Clock.currentTimeMillis) + Duration.toMillis(delay);
+    const fiber = yield* Effect.sleep(delay).pipe(
+      Effect.andThen(
+        Effect.suspend(() => {
+          if (timers.get(name)?.fiber === fiber) timers.delete(name);
+          return selfSend(event);
+        }),
+      ),
+      Effect.forkIn(actorScope),
+    );
+    timers.set(name, { fiber, event, deadline });
+  });
+  const getTimers = Effect.gen(function* () {
+    const now = yield* Clock.currentTimeMillis;
+    return Array.from(timers, ([name, timer]) => ({
+      name,
+      event: timer.event,
+      remaining: Duration.millis(Math.max(0, timer.deadline - now)),
+    }));
+  });
+
+  // Idle timeouts — re-armed after every processed event, also forked into actorScope
+  const syncIdleTimeouts = makeIdleTimeouts(machine, actorId, actorScope, stoppedRef, selfSend);
+
   const childPrefix = config.childIdPrefix ?? "";
-  const defaultSpawn: MachineRef<E>["spawn"] = (childId, childMachine) =>
+  const defaultSpawn: MachineRef<E>["spawn"] = (childId, childMachine, options) =>
     system
-      .spawn(`${childPrefix}${childId}`, childMachine)
+      .spawn(`${childPrefix}${childId}`, childMachine, { input: options?.input })
       .pipe(Effect.provideService(ActorSystemTag, system));
   const onChildSpawned = config.onChildSpawned;
+  // Child output is delivered as an event; the watcher ends with this generation
+  const deliverOutput = <O>(
+    awaitOutput: Effect.Effect<O, ActorFailedError>,
+    onOutput: (output: O) => E,
+  ) =>
+    awaitOutput.pipe(
+      Effect.flatMap((output) => selfSend(onOutput(output))),
+      Effect.ignore,
+      Effect.forkIn(actorScope),
+    );
   const self: MachineRef<E> = {
-    send: selfSend,
-    cast: selfSend,
-    spawn:
-      onChildSpawned !== undefined
-        ? (childId, childMachine) =>
-            defaultSpawn(childId, childMachine).pipe(
-              Effect.tap((child) => onChildSpawned(childId, child)),
-            )
-        : defaultSpawn,
+    send: (event) => selfSend(event),
+    cast: (event) => selfSend(event),
+    raise: selfRaise,
+    stash: () => stash,
+    unstashAll: () => unstashAll,
+    spawn: (childId, childMachine, options) =>
+      defaultSpawn(childId, childMachine, options).pipe(
+        Effect.tap((child) =>
+          onChildSpawned !== undefined ? onChildSpawned(childId, child) : Effect.void,
+        ),
+        Effect.tap((child) =>
+          options?.onOutput !== undefined
+            ? deliverOutput(child.awaitOutput, options.onOutput)
+            : Effect.void,
+        ),
+      ),
     reply: (value: unknown) =>
       Effect.sync(() => {
         const deferred = deferredReplyRef.current;
@@ -272,11 +631,38 @@ export const createRuntime = Effect.fn("effect-machine.runtime.create")(function
         }
         return false;
       }),
+    emitReply: (item: unknown) =>
+      Effect.suspend(() => {
+        const pending = deferredReplyRef.stream;
+        if (pending === undefined) return Effect.succeed(false);
+        const itemSchema = machine._replyStreamSchemas.get(pending.eventTag);
+        return (
+          itemSchema === undefined
+            ? Effect.succeed(item)
+            : Schema.decodeUnknownEffect(itemSchema)(item).pipe(Effect.orDie)
+        ).pipe(Effect.flatMap((decoded) => Queue.offer(pending.queue, decoded)));
+      }),
+    completeReply: () =>
+      Effect.sync(() => {
+        const pending = deferredReplyRef.stream;
+        if (pending === undefined) return false;
+        deferredReplyRef.stream = undefined;
+        fork(Queue.end(pending.queue));
+        return true;
+      }),
+    startTimer,
+    cancelTimer,
   };
 
-  // State scope for spawn effects
-  const stateScopeRef: { current: Scope.Closeable } = {
+  // State history — seeded from recovery, then updated on every transition
+  const history: HistoryRef = new Map();
+  for (const state of config.history ?? []) history.set(state._tag, state);
+  recordHistory(machine, machine.initial, history);
+
+  // State scopes for spawn effects (leaf + active groups)
+  const stateScopeRef: StateScopeRef = {
     current: yield* Scope.make(),
+    groups: [],
   };
 
   // Shared mutable refs used by both start() and stop()
@@ -345,39 +731,67 @@ export const createRuntime = Effect.fn("effect-machine.runtime.create")(function
         ),
         Effect.asVoid,
       );
-    yield* runSpawnEffects(
-      machine,
-      machine.initial,
-      initEvent,
-      self,
-      stateScopeRef.current,
-      system,
-      actorId,
-      hooks?.onError,
-      initialSpawnDefectSignal,
-    ).pipe(
+    const initialActionPhase: ActionPhaseRef = { current: undefined };
+    const initialHooks: ProcessEventHooks<S, E> = {
+      ...trackActionPhase(hooks, initialActionPhase),
+      onSpawnDefect: initialSpawnDefectSignal,
+    };
+    const { state: initialState, output: initialOutput } = yield* Effect.gen(function* () {
+      yield* runEntryEffects(
+        machine,
+        machine.initial,
+        initEvent,
+        self,
+        stateScopeRef,
+        system,
+        actorId,
+        initialHooks.onError,
+        initialSpawnDefectSignal,
+      );
+      // Eventless transitions out of the initial state settle before the first event
+      const settled = yield* settleAlwaysCore(
+        machine,
+        machine.initial,
+        initEvent,
+        self,
+        stateScopeRef,
+        system,
+        actorId,
+        initialHooks,
+        history,
+      );
+      if (settled.state !== machine.initial) yield* SubscriptionRef.set(stateRef, settled.state);
+      return {
+        state: settled.state,
+        output: isFinalState(machine, settled.state)
+          ? yield* resolveOutput(machine, settled.state)
+          : undefined,
+      };
+    }).pipe(
       Effect.catchCause((cause) => {
-        // Tag as initial-spawn defect, set exit, clean up, then propagate
+        // Tag as initial-spawn (or enter/transition) defect, set exit, clean up, then propagate
+        const phase: DefectPhase = initialActionPhase.current ?? "initial-spawn";
         return Effect.gen(function* () {
           yield* Ref.set(stoppedRef, true);
-          yield* Scope.close(stateScopeRef.current, Exit.void);
+          yield* closeStateScopes(stateScopeRef);
           yield* Scope.close(actorScope, Exit.void);
-          yield* Deferred.succeed(exitDeferred, ActorExit.Defect(cause, "initial-spawn"));
+          yield* Deferred.succeed(exitDeferred, ActorExit.Defect(cause, phase));
           return yield* Effect.failCause(cause);
         });
       }),
     );
 
     // Check if initial state is final — if so, clean up and signal done
-    if (machine.finalStates.has(machine.initial._tag)) {
-      if (lifecycle?.onFinal !== undefined) yield* lifecycle.onFinal(machine.initial);
+    if (isFinalState(machine, initialState)) {
+      if (lifecycle?.onFinal !== undefined) yield* lifecycle.onFinal(initialState);
       yield* Ref.set(stoppedRef, true);
-      yield* Scope.close(stateScopeRef.current, Exit.void);
+      yield* closeStateScopes(stateScopeRef);
       yield* Scope.close(actorScope, Exit.void);
-      yield* setExit(ActorExit.Final(machine.initial));
+      yield* setExit(ActorExit.Final(initialState, initialOutput));
       yield* Deferred.succeed(startDeferred, undefined);
       return;
     }
+    yield* syncIdleTimeouts(initialState);
 
     // Augment hooks with spawn defect signal — spawn fibers signal through this
     // instead of dying silently, so the runtime can set exitDeferred and terminate.
@@ -407,6 +821,7 @@ export const createRuntime = Effect.fn("effect-machine.runtime.create")(function
         stoppedRef,
         self,
         stateScopeRef,
+        history,
         actorId,
         system,
         exitDeferred,
@@ -415,6 +830,7 @@ export const createRuntime = Effect.fn("effect-machine.runtime.create")(function
         lifecycle,
         config.wrapProcess,
         fork,
+        syncIdleTimeouts,
       ),
     );
     loopFiberRef.current = loopFiber;
@@ -473,7 +889,7 @@ export const createRuntime = Effect.fn("effect-machine.runtime.create")(function
     if (loopFiber !== undefined) {
       yield* Fiber.interrupt(loopFiber);
     }
-    yield* Scope.close(stateScopeRef.current, Exit.void);
+    yield* closeStateScopes(stateScopeRef);
     yield* Scope.close(actorScope, Exit.void);
     yield* setExit(ActorExit.Stopped as ActorExit<S>);
   }).pipe(Effect.asVoid);
@@ -485,7 +901,17 @@ export const createRuntime = Effect.fn("effect-machine.runtime.create")(function
   }
 
   return {
-    ...makeHandle(stateRef, stoppedRef, eventQueue, exitDeferred, actorScope),
+    ...makeHandle(
+      machine,
+      lifecycle?.onConflate,
+      stateRef,
+      history,
+      getTimers,
+      stoppedRef,
+      eventQueue,
+      exitDeferred,
+      actorScope,
+    ),
     stop,
     start,
   };
@@ -496,7 +922,12 @@ export const createRuntime = Effect.fn("effect-machine.runtime.create")(function
  * Shared between initial-final and normal paths.
  */
 const makeHandle = <S extends { readonly _tag: string }, E extends { readonly _tag: string }>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- wide acceptance
+  machine: Machine<S, E, any, any, any, any>,
+  onConflate: RuntimeLifecycleHooks<S, E>["onConflate"],
   stateRef: SubscriptionRef.SubscriptionRef<S>,
+  history: HistoryRef,
+  getTimers: Effect.Effect<ReadonlyArray<PendingTimer<E>>>,
   stoppedRef: Ref.Ref<boolean>,
   eventQueue: Queue.Queue<RuntimeQueuedEvent<E>>,
   exitDeferred: Deferred.Deferred<ActorExit<S>, never>,
@@ -506,7 +937,13 @@ const makeHandle = <S extends { readonly _tag: string }, E extends { readonly _t
     Effect.gen(function* () {
       const stopped = yield* Ref.get(stoppedRef);
       if (!stopped) {
-        yield* Queue.offer(eventQueue, { _tag: "send", event });
+        yield* offerSend(
+          machine,
+          eventQueue,
+          event,
+          (entry) => Effect.as(offerQueued(machine, eventQueue, entry), true),
+          onConflate,
+        );
       }
     }),
   sendWait: (event: E) =>
@@ -514,8 +951,9 @@ const makeHandle = <S extends { readonly _tag: string }, E extends { readonly _t
       const stopped = yield* Ref.get(stoppedRef);
       if (!stopped) {
         const done = yield* Deferred.make<void, unknown>();
-        yield* Queue.offer(eventQueue, { _tag: "sendWait", event, done });
-        yield* Deferred.await(done);
+        yield* offerQueued(machine, eventQueue, { _tag: "sendWait", event, done });
+        // Interrupting the wait (client timeout) marks the request abandoned — the loop skips it
+        yield* Deferred.await(done).pipe(Effect.onInterrupt(() => Deferred.interrupt(done)));
       }
     }),
   ask: (event: E) =>
@@ -524,11 +962,26 @@ const makeHandle = <S extends { readonly _tag: string }, E extends { readonly _t
       if (stopped) {
         return yield* new NoReplyError({ actorId: "stopped", eventTag: event._tag });
       }
-      const reply = yield* Deferred.make<unknown, NoReplyError>();
-      yield* Queue.offer(eventQueue, { _tag: "ask", event, reply });
-      return yield* Deferred.await(reply);
+      const reply = yield* Deferred.make<unknown, unknown>();
+      yield* offerQueued(machine, eventQueue, { _tag: "ask", event, reply });
+      // Interrupting the wait (client timeout) marks the request abandoned — the loop skips it
+      return yield* Deferred.await(reply).pipe(Effect.onInterrupt(() => Deferred.interrupt(reply)));
+    }),
+  askStream: (event: E) =>
+    Effect.gen(function* () {
+      const stopped = yield* Ref.get(stoppedRef);
+      if (stopped) {
+        return Stream.fail(new ActorStoppedError({ actorId: "stopped" }));
+      }
+      const stream = yield* Queue.unbounded<unknown, unknown>();
+      const done = yield* Deferred.make<void, unknown>();
+      yield* offerQueued(machine, eventQueue, { _tag: "askStream", event, stream, done });
+      yield* Deferred.await(done);
+      return Stream.fromQueue(stream);
     }),
   getState: SubscriptionRef.get(stateRef),
+  getHistory: Effect.sync(() => Array.from(history.values()) as Array<S>),
+  getTimers,
   stateRef,
   isStopped: Ref.get(stoppedRef),
   stop: Effect.void,
@@ -543,6 +996,22 @@ const makeHandle = <S extends { readonly _tag: string }, E extends { readonly _t
 // Event loop
 // ============================================================================
 
+/** Records the phase of a transition or entry/exit action defect reported through `onError`. */
+interface ActionPhaseRef {
+  current: "transition" | "enter" | "exit" | undefined;
+}
+
+const trackActionPhase = <S, E>(
+  hooks: ProcessEventHooks<S, E> | undefined,
+  phaseRef: ActionPhaseRef,
+): ProcessEventHooks<S, E> => ({
+  ...hooks,
+  onError: (info) => {
+    if (info.phase !== "spawn") phaseRef.current = info.phase;
+    return hooks?.onError !== undefined ? hooks.onError(info) : Effect.void;
+  },
+});
+
 const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function* <
   S extends { readonly _tag: string },
   E extends { readonly _tag: string },
@@ -555,12 +1024,13 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
   eventQueue: Queue.Queue<RuntimeQueuedEvent<E>>,
   stoppedRef: Ref.Ref<boolean>,
   self: MachineRef<E>,
-  stateScopeRef: { current: Scope.Closeable },
+  stateScopeRef: StateScopeRef,
+  history: HistoryRef,
   actorId: string,
   system: ActorSystem,
   exitDeferred: Deferred.Deferred<ActorExit<S>, never>,
   hooks?: ProcessEventHooks<S, E>,
-  deferredReplyRef?: { current: Deferred.Deferred<unknown, NoReplyError> | undefined },
+  deferredReplyRef?: DeferredReplyRef,
   lifecycle?: RuntimeLifecycleHooks<S, E>,
   wrapProcess?: (
     state: S,
@@ -569,19 +1039,53 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
   ) => Effect.Effect<ProcessQueuedResult<S>>,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   fork?: (effect: Effect.Effect<any>) => Fiber.Fiber<any>,
+  syncIdleTimeouts?: (state: S, processed?: IdleProcessed<E>) => Effect.Effect<void>,
 ) {
   // Fire-and-forget fork with captured services
   const forkEffect = fork ?? Effect.runFork;
 
-  // Event-bearing queue variants (excludes drain sentinel)
-  type EventQueued = Exclude<RuntimeQueuedEvent<E>, { readonly _tag: "drain" }>;
+  type EventQueued = QueuedRequest<E>;
+  const lanes = lanesOf(eventQueue);
+
+  // Entry/exit action defects are reported through onError before they propagate
+  const actionPhase: ActionPhaseRef = { current: undefined };
+  const loopHooks: ProcessEventHooks<S, E> = {
+    ...trackActionPhase(hooks, actionPhase),
+    isStashed: () => lanes.stash,
+  };
 
   /** Set the exit deferred exactly once. */
   const setExit = (exit: ActorExit<S>) => Deferred.succeed(exitDeferred, exit).pipe(Effect.asVoid);
 
   // Postpone buffer — only event-bearing variants, never drain
   const postponed: EventQueued[] = [];
+  // Buffered events released by self.unstashAll(), retried ahead of the mailbox
+  const unstashed: EventQueued[] = [];
   const hasPostponeRules = machine.postponeRules.length > 0;
+
+  /** Move a request into the postpone buffer, settling what its caller must not wait on */
+  const bufferQueued = Effect.fnUntraced(function* (
+    queued: EventQueued,
+    callResult: ProcessEventResult<{ readonly _tag: string }>,
+  ) {
+    // For call: settle immediately with postponed result, push into buffer for re-processing
+    if (queued._tag === "call") {
+      yield* Deferred.succeed(queued.reply, callResult);
+    }
+    // For sendWait/askStream: settle immediately so RPC caller doesn't block
+    if (queued._tag === "sendWait" || queued._tag === "askStream") {
+      yield* Deferred.succeed(queued.done, undefined);
+    }
+    // Buffer event for drain — downcast to send since Deferreds are already settled;
+    // ask/askStream keep their reply so it still reaches the caller once handled, and
+    // sends keep their entry, which idle timeouts recognise their own deliveries by
+    postponed.push(
+      queued._tag === "send" || queued._tag === "ask" || queued._tag === "askStream"
+        ? queued
+        : { _tag: "send", event: queued.event },
+    );
+  });
+
   const processQueued = Effect.fn("effect-machine.runtime.processQueued")(function* (
     queued: EventQueued,
   ) {
@@ -589,28 +1093,18 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
     const currentState = yield* SubscriptionRef.get(stateRef);
 
     // Check postpone rules
-    if (hasPostponeRules && shouldPostpone(machine, currentState._tag, event._tag)) {
-      // For call: settle immediately with postponed result, push into buffer for re-processing
-      if (queued._tag === "call") {
-        const postponedResult: ProcessEventResult<{ readonly _tag: string }> = {
-          newState: currentState,
-          previousState: currentState,
-          transitioned: false,
-          lifecycleRan: false,
-          isFinal: false,
-          hasReply: false,
-          deferReply: false,
-          reply: undefined,
-          postponed: true,
-        };
-        yield* Deferred.succeed(queued.reply, postponedResult);
-      }
-      // For sendWait: settle immediately so RPC caller doesn't block
-      if (queued._tag === "sendWait") {
-        yield* Deferred.succeed(queued.done, undefined);
-      }
-      // Buffer event for drain — downcast to send since Deferreds are already settled
-      postponed.push({ _tag: "send", event });
+    if (hasPostponeRules && shouldPostpone(machine, currentState, event)) {
+      yield* bufferQueued(queued, {
+        newState: currentState,
+        previousState: currentState,
+        transitioned: false,
+        lifecycleRan: false,
+        isFinal: false,
+        hasReply: false,
+        deferReply: false,
+        reply: undefined,
+        postponed: true,
+      });
       const noopResult: ProcessEventResult<S> = {
         newState: currentState,
         previousState: currentState,
@@ -629,6 +1123,7 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
     if (lifecycle?.onEvent !== undefined) yield* lifecycle.onEvent(currentState, event);
 
     // Process event through core
+    lanes.stash = false;
     const result: ProcessEventResult<S> = yield* processEventCore(
       machine,
       currentState,
@@ -637,9 +1132,27 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
       stateScopeRef,
       system,
       actorId,
-      hooks,
+      loopHooks,
+      history,
     );
 
+    // No transition accepted the event — unless an `.onUnhandled()` handler stashes it,
+    // it is reported as a dead letter
+    if (!result.transitioned && !lanes.stash) {
+      yield* runUnhandledHandlers(machine, currentState, event, self, system, actorId);
+      if (!lanes.stash && lifecycle?.onUnhandled !== undefined) {
+        yield* lifecycle.onUnhandled(currentState, event);
+      }
+    }
+
+    // self.stash() — the event is deferred like a postponed one, so nothing is committed
+    if (lanes.stash) {
+      lanes.stash = false;
+      const stashedResult: ProcessEventResult<S> = { ...result, postponed: true };
+      yield* bufferQueued(queued, stashedResult as ProcessEventResult<{ readonly _tag: string }>);
+      return { shouldStop: false, stateChanged: false, result: stashedResult };
+    }
+
     // Update state if transitioned
     if (result.transitioned) {
       yield* SubscriptionRef.set(stateRef, result.newState);
@@ -650,6 +1163,11 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
       yield* lifecycle.onStateChange(result, event);
     }
 
+    // Every processed event restarts the idle window of the state it leaves us in
+    if (syncIdleTimeouts !== undefined && !(result.isFinal && result.lifecycleRan)) {
+      yield* syncIdleTimeouts(result.newState, { queued, lifecycleRan: result.lifecycleRan });
+    }
+
     // Settle reply/done Deferreds
     switch (queued._tag) {
       case "call":
@@ -662,7 +1180,21 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
         yield* Deferred.succeed(queued.done, undefined);
         break;
       case "ask":
-        if (result.hasReply) {
+        if (result.hasReply && isReplyFailure(result.reply)) {
+          // Machine.replyError() — fail the ask with the (validated) domain error
+          const errorSchema = machine._replyErrorSchemas?.get(event._tag);
+          let error: unknown = result.reply.error;
+          if (errorSchema !== undefined) {
+            // @effect-diagnostics tryCatchInEffectGen:off
+            try {
+              error = Schema.decodeUnknownSync(errorSchema)(error);
+            } catch (decodeError) {
+              yield* Deferred.die(queued.reply, decodeError);
+              return yield* Effect.die(decodeError);
+            }
+          }
+          yield* Deferred.fail(queued.reply, error);
+        } else if (result.hasReply) {
           const replySchema = machine._replySchemas?.get(event._tag);
           if (replySchema !== undefined) {
             let decoded: unknown;
@@ -684,6 +1216,15 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
           yield* Deferred.fail(queued.reply, new NoReplyError({ actorId, eventTag: event._tag }));
         }
         break;
+      case "askStream":
+        if (result.deferReply && deferredReplyRef !== undefined) {
+          // Handler returned Machine.deferReply() — spawn handler emits items, then completes
+          deferredReplyRef.stream = { eventTag: event._tag, queue: queued.stream };
+        } else {
+          yield* Queue.fail(queued.stream, new NoReplyError({ actorId, eventTag: event._tag }));
+        }
+        yield* Deferred.succeed(queued.done, undefined);
+        break;
     }
 
     // Lifecycle: onProcessed (actor publishes to transitionsPubSub)
@@ -692,6 +1233,7 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
     }
 
     const shouldStop = result.isFinal && result.lifecycleRan;
+    const output = shouldStop ? yield* resolveOutput(machine, result.newState) : undefined;
 
     // Lifecycle: onFinal (actor emits @machine.stop)
     if (shouldStop && lifecycle?.onFinal !== undefined) {
@@ -702,6 +1244,7 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
       shouldStop,
       stateChanged: result.lifecycleRan,
       result,
+      output,
     };
   });
 
@@ -711,8 +1254,18 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
       yield* Ref.set(stoppedRef, true);
       if (lifecycle?.onShutdown !== undefined) yield* lifecycle.onShutdown();
       settlePostponed(postponed, actorId, forkEffect);
-      // Drain remaining events non-blocking
-      const remaining = yield* Queue.clear(eventQueue);
+      settlePostponed(unstashed, actorId, forkEffect);
+      lanes.stash = false;
+      lanes.unstash = false;
+      // Pending streamed reply never completes — fail it for the asker
+      if (deferredReplyRef?.stream !== undefined) {
+        forkEffect(Queue.fail(deferredReplyRef.stream.queue, new ActorStoppedError({ actorId })));
+        deferredReplyRef.stream = undefined;
+      }
+      // Drain remaining events non-blocking — priority lane first
+      lanes.raised.length = 0;
+      pendingConflations.delete(eventQueue);
+      const remaining = [...lanes.high.splice(0), ...(yield* Queue.clear(eventQueue))];
       for (const entry of remaining) {
         if (entry._tag === "sendWait") {
           forkEffect(Deferred.succeed(entry.done, undefined));
@@ -720,6 +1273,9 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
           forkEffect(
             Deferred.fail(entry.reply, new NoReplyError({ actorId, eventTag: entry.event._tag })),
           );
+        } else if (entry._tag === "askStream") {
+          forkEffect(Deferred.succeed(entry.done, undefined));
+          forkEffect(Queue.fail(entry.stream, new ActorStoppedError({ actorId })));
         } else if (entry._tag === "call") {
           // Settle with a stopped result
           const currentState = yield* SubscriptionRef.get(stateRef);
@@ -729,7 +1285,7 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
               previousState: currentState,
               transitioned: false,
               lifecycleRan: false,
-              isFinal: machine.finalStates.has(currentState._tag),
+              isFinal: isFinalState(machine, currentState),
               hasReply: false,
               deferReply: false,
               reply: undefined,
@@ -738,14 +1294,48 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
           );
         }
       }
-      yield* Scope.close(stateScopeRef.current, Exit.void);
+      yield* closeStateScopes(stateScopeRef);
       // actorScope is closed by the generation owner fiber (which observes loop exit),
       // or by stop(). Not closed here — the loop just sets the exit reason and returns.
       yield* setExit(exitReason);
     });
 
+  /**
+   * Abandoned request — the caller's `{ timeout }` elapsed (or the RPC was interrupted)
+   * before the actor got to it, whether in the mailbox or the postpone buffer.
+   * Reported as expired, then skipped.
+   */
+  const skipAbandoned = Effect.fnUntraced(function* (queued: EventQueued) {
+    const abandoned =
+      (queued._tag === "ask" && (yield* Deferred.isDone(queued.reply))) ||
+      (queued._tag === "call" && (yield* Deferred.isDone(queued.reply))) ||
+      (queued._tag === "sendWait" && (yield* Deferred.isDone(queued.done)));
+    if (abandoned && lifecycle?.onExpired !== undefined) yield* lifecycle.onExpired(queued.event);
+    return abandoned;
+  });
+
+  // Set when a transition changed state while raised events were pending —
+  // the postpone buffer is retried once they are processed
+  let drainPending = false;
+
   while (true) {
-    const queued = yield* Queue.take(eventQueue);
+    if (lanes.unstash) {
+      lanes.unstash = false;
+      unstashed.push(...postponed.splice(0));
+    }
+    // Raised events, then unstashed events, then high-priority requests, then the mailbox
+    const raised = lanes.raised.shift();
+    const queued: RuntimeQueuedEvent<E> | undefined =
+      raised !== undefined
+        ? { _tag: "send", event: raised }
+        : (unstashed.shift() ??
+          lanes.high.shift() ??
+          Option.getOrUndefined(yield* Queue.poll(eventQueue)));
+    if (queued === undefined) {
+      yield* awaitWork(eventQueue);
+      continue;
+    }
+    releaseConflation(machine, eventQueue, queued);
 
     // Drain: graceful shutdown — process remaining queue then stop
     if (queued._tag === "drain") {
@@ -755,7 +1345,8 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
     }
 
     // queued is narrowed: drain is handled above, so it's always an event-bearing variant here
-    const eventQueued = queued as Exclude<RuntimeQueuedEvent<E>, { readonly _tag: "drain" }>;
+    const eventQueued = queued as EventQueued;
+    if (yield* skipAbandoned(eventQueued)) continue;
     const processInner = processQueued(eventQueued) as Effect.Effect<ProcessQueuedResult<S>>;
     const wrapped =
       wrapProcess !== undefined
@@ -765,7 +1356,7 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
           })
         : processInner;
 
-    const { shouldStop, stateChanged } = yield* wrapped.pipe(
+    const processed = yield* wrapped.pipe(
       Effect.catchCause((cause) => {
         // On defect: settle the current event's Deferred, run shutdown cleanup, then die
         if (queued._tag === "sendWait") {
@@ -774,31 +1365,50 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
           forkEffect(Deferred.die(queued.reply, cause));
         } else if (queued._tag === "call") {
           forkEffect(Deferred.failCause(queued.reply, cause));
+        } else if (queued._tag === "askStream") {
+          forkEffect(Deferred.failCause(queued.done, cause));
+          forkEffect(Queue.failCause(queued.stream, cause));
+        }
+        // Unhandled typed handler failure — the transition never committed
+        const failure = transitionFailureOf(cause);
+        if (failure !== undefined) {
+          return SubscriptionRef.get(stateRef).pipe(
+            Effect.flatMap((current) => shutdown(ActorExit.Failed(current, failure.error))),
+            Effect.as(undefined),
+          );
         }
-        // Determine defect phase from cause
-        const phase: DefectPhase = "transition";
+        // Entry/exit action defects carry their own phase
+        const phase: DefectPhase = actionPhase.current ?? "transition";
         return shutdown(ActorExit.Defect(cause, phase)).pipe(
           Effect.andThen(Effect.failCause(cause)),
         );
       }),
     );
+    if (processed === undefined) return;
+    const { shouldStop, stateChanged, output } = processed;
 
     if (shouldStop) {
       const finalState = yield* SubscriptionRef.get(stateRef);
-      yield* shutdown(ActorExit.Final(finalState));
+      yield* shutdown(ActorExit.Final(finalState, output));
       return;
     }
 
+    // Raised events run before the postpone buffer is retried
+    drainPending = drainPending || stateChanged;
+    if (lanes.raised.length > 0) continue;
+
     // Drain postponed events — loop until stable
-    let drainTriggered = stateChanged;
+    let drainTriggered = drainPending;
+    drainPending = false;
     while (drainTriggered && postponed.length > 0) {
       drainTriggered = false;
       const drained = postponed.splice(0);
       for (const entry of drained) {
+        if (yield* skipAbandoned(entry)) continue;
         const drain = yield* processQueued(entry);
         if (drain.shouldStop) {
           const finalState = yield* SubscriptionRef.get(stateRef);
-          yield* shutdown(ActorExit.Final(finalState));
+          yield* shutdown(ActorExit.Final(finalState, drain.output));
           return;
         }
         if (drain.stateChanged) {
@@ -809,9 +1419,102 @@ const runtimeEventLoop = Effect.fn("effect-machine.runtime.eventLoop")(function*
   }
 });
 
+/** The mailbox entry just processed, as seen by the idle-timeout sync */
+interface IdleProcessed<E> {
+  readonly queued: RuntimeQueuedEvent<E>;
+  readonly lifecycleRan: boolean;
+}
+
+/**
+ * Idle timeouts (`.idleTimeout()`): one timer fiber per registration, forked into actorScope.
+ * The returned sync re-arms registrations matching the state (leaf or enclosing group)
+ * and cancels the rest.
+ */
+const makeIdleTimeouts = <S extends { readonly _tag: string }, E extends { readonly _tag: string }>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- wide acceptance
+  machine: Machine<S, E, any, any, any, any>,
+  actorId: string,
+  actorScope: Scope.Scope,
+  stoppedRef: Ref.Ref<boolean>,
+  send: (event: E, onEnqueued: (entry: RuntimeQueuedEvent<E>) => void) => Effect.Effect<void>,
+) => {
+  const armed = new Map<
+    IdleTimeout<S, E>,
+    { readonly fiber: Fiber.Fiber<void>; readonly state: S }
+  >();
+  // Mailbox entries delivering an idle event — marked by entry, so the same event
+  // value sent by anyone else still restarts the window
+  const fired = new WeakSet<RuntimeQueuedEvent<E>>();
+  const markFired = (queued: RuntimeQueuedEvent<E>) => {
+    fired.add(queued);
+  };
+
+  const emit = (
+    entry: IdleTimeout<S, E>,
+    state: S,
+    phase: "start" | "reset" | "success" | "interrupt",
+  ) =>
+    Effect.flatMap(Effect.serviceOption(InspectorTag), (inspector) =>
+      emitWithTimestamp(Option.getOrUndefined(inspector), (timestamp) => ({
+        type: "@machine.task",
+        actorId,
+        state,
+        taskName: `$idle:${entry.stateTag}`,
+        phase,
+        timestamp,
+      })),
+    );
+
+  const arm = Effect.fn("effect-machine.runtime.idleTimeout.arm")(function* (
+    entry: IdleTimeout<S, E>,
+    state: S,
+  ) {
+    const previous = armed.get(entry);
+    if (previous !== undefined) yield* Fiber.interrupt(previous.fiber);
+    yield* emit(entry, state, previous === undefined ? "start" : "reset");
+    const fiber: Fiber.Fiber<void> = yield* Effect.sleep(entry.duration(state)).pipe(
+      Effect.andThen(
+        Effect.suspend(() => {
+          if (armed.get(entry)?.fiber === fiber) armed.delete(entry);
+          return emit(entry, state, "success").pipe(
+            Effect.andThen(send(entry.event(state), markFired)),
+          );
+        }),
+      ),
+      Effect.forkIn(actorScope),
+    );
+    armed.set(entry, { fiber, state });
+  });
+
+  return Effect.fn("effect-machine.runtime.idleTimeout.sync")(function* (
+    state: S,
+    processed?: IdleProcessed<E>,
+  ) {
+    if (machine.idleTimeouts.length === 0 || (yield* Ref.get(stoppedRef))) return;
+    // The idle event itself re-arms only when it left or re-entered the state — the
+    // timeout fires once per stretch of inactivity instead of ticking
+    if (processed !== undefined && fired.has(processed.queued) && !processed.lifecycleRan) {
+      return;
+    }
+    const active = new Set([state._tag, ...ancestorsOf(machine, state._tag)]);
+    for (const entry of machine.idleTimeouts) {
+      if (active.has(entry.stateTag)) {
+        yield* arm(entry, state);
+        continue;
+      }
+      const previous = armed.get(entry);
+      if (previous !== undefined) {
+        armed.delete(entry);
+        yield* Fiber.interrupt(previous.fiber);
+        yield* emit(entry, previous.state, "interrupt");
+      }
+    }
+  });
+};
+
 /** Settle all pending Deferreds in the postpone buffer on shutdown. */
 const settlePostponed = <E extends { readonly _tag: string }>(
-  postponed: Exclude<RuntimeQueuedEvent<E>, { readonly _tag: "drain" }>[],
+  postponed: QueuedRequest<E>[],
   actorId: string,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   forkFn: (effect: Effect.Effect<any>) => Fiber.Fiber<any>,
@@ -821,6 +1524,8 @@ const settlePostponed = <E extends { readonly _tag: string }>(
       forkFn(Deferred.fail(entry.reply, new NoReplyError({ actorId, eventTag: entry.event._tag })));
     } else if (entry._tag === "sendWait") {
       forkFn(Deferred.succeed(entry.done, undefined));
+    } else if (entry._tag === "askStream") {
+      forkFn(Queue.fail(entry.stream, new ActorStoppedError({ actorId })));
     }
     // call entries in postpone buffer were already settled on postpone
     // send entries have no Deferred
@@ -8,13 +8,36 @@
  *
  * @internal
  */
-import { Cause, Effect, Exit, Scope } from "effect";
+import { Cause, Effect, Exit, Schema, Scope } from "effect";
 
-import type { Machine, MachineRef, Transition, SpawnEffect, HandlerContext } from "../machine.js";
+import type {
+  Machine,
+  MachineRef,
+  ParallelState,
+  StateHistory,
+  Transition,
+  SpawnEffect,
+  StateAction,
+  AlwaysTransition,
+  TransitionContext,
+} from "../machine.js";
+import { AlwaysLoopError, TransitionFailedError, UndeclaredTargetError } from "../errors.js";
 import type { ActorSystem } from "../actor.js";
 import type { SlotsDef, MachineContext } from "../slot.js";
-import { isEffect, isReplyResult, isDeferReplyResult, INTERNAL_ENTER_EVENT } from "./utils.js";
-import type { ReplyResult, DeferReplyResult } from "./utils.js";
+import { MachineContextTag } from "../slot.js";
+import {
+  isEffect,
+  isReplyResult,
+  isDeferReplyResult,
+  isHistoryTarget,
+  makeReply,
+  makeDeferReply,
+  isDevMode,
+  stubSystem,
+  INTERNAL_ENTER_EVENT,
+  INTERNAL_INIT_EVENT,
+} from "./utils.js";
+import type { ReplyResult, DeferReplyResult, HistoryTarget } from "./utils.js";
 
 // ============================================================================
 // Transition Execution
@@ -30,6 +53,8 @@ export interface TransitionExecutionResult<S> {
   readonly transitioned: boolean;
   /** Whether reenter was specified on the transition */
   readonly reenter: boolean;
+  /** State tag (or group name) the matched transition was registered on */
+  readonly source: string | undefined;
 }
 
 /**
@@ -56,19 +81,104 @@ export const runTransitionHandler = Effect.fn("effect-machine.runTransitionHandl
   self: MachineRef<E>,
   system: ActorSystem,
   actorId: string,
+  history?: HistoryRef,
 ) {
   const ctx: MachineContext<S, E, MachineRef<E>> = { actorId, state, event, self, system };
   const slots = machine._slots;
 
-  const handlerCtx: HandlerContext<S, E, SD> = { state, event, slots };
+  const handlerCtx: TransitionContext<S, E, SD> = { state, event, slots, self };
   const raw = transition.handler(handlerCtx);
 
+  let recovered = false;
   const resolved = isEffect(raw)
     ? yield* (
-        raw as Effect.Effect<S | ReplyResult<S, unknown> | DeferReplyResult<S>, never, R>
-      ).pipe(Effect.provideService(machine.Context, ctx))
+        // @effect-diagnostics-next-line anyUnknownInErrorContext:off — handler errors are user-typed
+        (
+          raw as Effect.Effect<
+            S | HistoryTarget<S> | ReplyResult<S, unknown> | DeferReplyResult<S>,
+            unknown,
+            R
+          >
+        ).pipe(
+          Effect.provideService(machine.Context, ctx),
+          Effect.catch((error) => {
+            recovered = true;
+            return recoverTransitionError(machine, state, event, error).pipe(
+              Effect.provideService(machine.Context, ctx),
+            );
+          }),
+        )
+      )
     : raw;
 
+  const result = toHandlerResult(resolved, history);
+
+  // Declared targets are enforced outside production — error handlers pick their own state
+  const targets = transition.targets;
+  if (
+    targets !== undefined &&
+    !recovered &&
+    isDevMode() &&
+    !targets.includes(result.newState._tag)
+  ) {
+    return yield* Effect.die(
+      new UndeclaredTargetError({
+        state: state._tag,
+        event: event._tag,
+        target: result.newState._tag,
+        targets,
+      }),
+    );
+  }
+  return result;
+});
+
+/**
+ * Map a typed handler failure through the first matching `.onError()` handler,
+ * trying the state before its enclosing groups. Unhandled failures (and failures
+ * of the error handler itself) die with TransitionFailedError so the actor exits
+ * as Failed.
+ */
+const recoverTransitionError = <
+  S extends { readonly _tag: string },
+  E extends { readonly _tag: string },
+  R,
+  SD extends SlotsDef,
+>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, SD>,
+  state: S,
+  event: E,
+  error: unknown,
+): Effect.Effect<S | HistoryTarget<S>, never, R> => {
+  const failed = (cause: unknown) =>
+    Effect.die(new TransitionFailedError({ state: state._tag, event: event._tag, error: cause }));
+  const tags = [state._tag, ...ancestorsOf(machine, state._tag)];
+  const entry = tags
+    .flatMap((tag) => machine._errorHandlers.filter((h) => h.stateTag === tag))
+    .find((h) => h.matches(error));
+  if (entry === undefined) return failed(error);
+
+  const raw = entry.handler({ state, event, error, slots: machine._slots });
+  if (!isEffect(raw)) return Effect.succeed(raw as S | HistoryTarget<S>);
+  // @effect-diagnostics-next-line anyUnknownInErrorContext:off
+  return (raw as Effect.Effect<S | HistoryTarget<S>, unknown, R>).pipe(Effect.catch(failed));
+};
+
+const toHandlerResult = <S>(
+  resolved: S | HistoryTarget<S> | ReplyResult<S, unknown> | DeferReplyResult<S>,
+  history: HistoryRef | undefined,
+) => {
+  // Resolve Machine.history() against the recorded history
+  if (isHistoryTarget(resolved)) {
+    return {
+      newState: resolveHistoryTarget(resolved as HistoryTarget<S>, history),
+      hasReply: false,
+      deferReply: false,
+      reply: undefined,
+    };
+  }
+
   // Detect branded ReplyResult (created via Machine.reply())
   if (isReplyResult(resolved)) {
     return {
@@ -90,11 +200,11 @@ export const runTransitionHandler = Effect.fn("effect-machine.runTransitionHandl
   }
 
   return { newState: resolved as S, hasReply: false, deferReply: false, reply: undefined };
-});
+};
 
 /**
  * Execute a transition for a given state and event.
- * Handles transition resolution, handler invocation, and guard/effect slot creation.
+ * Handles transition resolution (including guards), handler invocation, and slot creation.
  *
  * Used by:
  * - processEvent in actor.ts (actual actor event loop)
@@ -116,14 +226,25 @@ export const executeTransition = Effect.fn("effect-machine.executeTransition")(f
   self: MachineRef<E>,
   system: ActorSystem,
   actorId: string,
+  history?: HistoryRef,
+  onGuard?: (info: GuardEvaluation<S, E>) => Effect.Effect<void>,
 ) {
-  const transition = resolveTransition(machine, currentState, event);
+  const transition = yield* resolveTransition(
+    machine,
+    currentState,
+    event,
+    self,
+    system,
+    actorId,
+    onGuard,
+  );
 
   if (transition === undefined) {
     return {
       newState: currentState,
       transitioned: false,
       reenter: false,
+      source: undefined,
       hasReply: false,
       deferReply: false,
       reply: undefined,
@@ -138,12 +259,14 @@ export const executeTransition = Effect.fn("effect-machine.executeTransition")(f
     self,
     system,
     actorId,
+    history,
   );
 
   return {
     newState,
     transitioned: true,
     reenter: transition.reenter === true,
+    source: transition.stateTag,
     hasReply,
     deferReply,
     reply,
@@ -162,17 +285,33 @@ export interface ProcessEventHooks<S, E> {
   readonly onSpawnEffect?: (state: S) => Effect.Effect<void>;
   /** Called after transition completes */
   readonly onTransition?: (from: S, to: S, event: E) => Effect.Effect<void>;
-  /** Called when a transition handler or spawn effect fails with a defect */
+  /** Called when a transition handler, spawn effect or entry/exit action fails with a defect */
   readonly onError?: (info: ProcessEventError<S, E>) => Effect.Effect<void>;
   /** Called when a forked spawn fiber defects — signals the runtime to set exitDeferred */
   readonly onSpawnDefect?: (cause: Cause.Cause<unknown>) => Effect.Effect<void>;
+  /** Called after each guard evaluated while selecting a transition */
+  readonly onGuard?: (info: GuardEvaluation<S, E>) => Effect.Effect<void>;
+  /** Checked after the transition handler ran — true when it called `self.stash()` */
+  readonly isStashed?: () => boolean;
+}
+
+/**
+ * A guard evaluated while selecting a transition.
+ */
+export interface GuardEvaluation<S, E> {
+  readonly state: S;
+  readonly event: E;
+  /** State tag (or group name, or `"*"`) the guarded transition was registered on */
+  readonly source: string;
+  readonly guard: string;
+  readonly passed: boolean;
 }
 
 /**
  * Error info for inspection hooks.
  */
 export interface ProcessEventError<S, E> {
-  readonly phase: "transition" | "spawn";
+  readonly phase: "transition" | "spawn" | "enter" | "exit";
   readonly state: S;
   readonly event: E;
   readonly cause: Cause.Cause<unknown>;
@@ -202,8 +341,70 @@ export interface ProcessEventResult<S> {
   readonly postponed: boolean;
 }
 
+/**
+ * Mutable holder for the scopes of the active state configuration.
+ *
+ * `current` owns the leaf state's spawn effects. `groups` holds one scope per
+ * active compound ancestor (outermost first), so group-level effects outlive
+ * moves between the group's children.
+ */
+export interface StateScopeRef {
+  current: Scope.Closeable;
+  groups?: Array<{ readonly name: string; readonly scope: Scope.Closeable }>;
+  /** Per-region scopes of a `Machine.parallel()` machine */
+  regions?: Map<string, StateScopeRef>;
+}
+
+// ============================================================================
+// History
+// ============================================================================
+
+/**
+ * Most recent state per state tag, least recently entered first.
+ * Owned by the caller (runtime, simulate, replay) and read by `Machine.history()` targets.
+ */
+export type HistoryRef = Map<string, { readonly _tag: string }>;
+
+/**
+ * Record `state` as the most recently entered state.
+ * Parallel machines record each region's state.
+ * @internal
+ */
+export const recordHistory = (
+  machine: AnyMachine,
+  state: { readonly _tag: string },
+  history: HistoryRef,
+): void => {
+  const regions = machine._regions;
+  if (regions !== undefined) {
+    for (const [name, region] of regions) {
+      recordHistory(region, regionStateOf(state, name), history);
+    }
+    return;
+  }
+  history.delete(state._tag);
+  history.set(state._tag, state);
+};
+
+/**
+ * Resolve a history target to the state it resumes.
+ * Shallow history only resumes a direct child of the group; deep resumes any leaf.
+ * @internal
+ */
+export const resolveHistoryTarget = <S>(target: HistoryTarget<S>, history?: HistoryRef): S => {
+  if (history === undefined) return target.fallback;
+  const allowed = target.deep ? target.leaves : target.children;
+  let latest: { readonly _tag: string } | undefined;
+  for (const state of history.values()) {
+    if (target.leaves.has(state._tag)) latest = state;
+  }
+  return latest !== undefined && allowed.has(latest._tag) ? (latest as S) : target.fallback;
+};
+
 /**
  * Check if an event should be postponed in the current state.
+ * Rules registered on a group apply to all of its descendants.
+ * A parallel machine postpones when any active region does.
  * @internal
  */
 export const shouldPostpone = <
@@ -213,13 +414,27 @@ export const shouldPostpone = <
 >(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   machine: Machine<S, E, R, any, any, any>,
-  stateTag: string,
-  eventTag: string,
+  state: S,
+  event: E,
 ): boolean => {
+  const regions = machine._regions;
+  if (regions !== undefined) {
+    for (const [name, region] of regions) {
+      const regionState = regionStateOf(state, name);
+      if (!isFinalState(region, regionState) && shouldPostpone(region, regionState, event)) {
+        return true;
+      }
+    }
+    return false;
+  }
+  const stateTag = state._tag;
+  const eventTag = event._tag;
   for (const rule of machine.postponeRules) {
-    if (rule.stateTag === stateTag && rule.eventTag === eventTag) {
-      return true;
+    if (rule.eventTag !== eventTag) continue;
+    if (rule.stateTag !== stateTag && !ancestorsOf(machine, stateTag).includes(rule.stateTag)) {
+      continue;
     }
+    if (rule.when === undefined || rule.when(state, event)) return true;
   }
   return false;
 };
@@ -247,95 +462,367 @@ export const processEventCore = Effect.fn("effect-machine.processEventCore")(fun
   currentState: S,
   event: E,
   self: MachineRef<E>,
-  stateScopeRef: { current: Scope.Closeable },
+  stateScopeRef: StateScopeRef,
   system: ActorSystem,
   actorId: string,
   hooks?: ProcessEventHooks<S, E>,
+  history?: HistoryRef,
 ) {
-  // Execute transition (defect-aware)
-  const result = yield* executeTransition(machine, currentState, event, self, system, actorId).pipe(
-    Effect.catchCause((cause) => {
-      if (Cause.hasInterruptsOnly(cause)) {
-        return Effect.interrupt;
-      }
-      const onError = hooks?.onError;
-      if (onError === undefined) {
-        return Effect.failCause(cause).pipe(Effect.orDie);
-      }
-      return onError({
-        phase: "transition",
-        state: currentState,
-        event,
-        cause,
-      }).pipe(Effect.andThen(Effect.failCause(cause).pipe(Effect.orDie)));
-    }),
+  const { apply } = yield* prepareEvent(
+    machine,
+    currentState,
+    event,
+    self,
+    stateScopeRef,
+    system,
+    actorId,
+    hooks,
+    history,
   );
+  // A stashed event is deferred — its transition is discarded before any lifecycle runs,
+  // including every other region's in a parallel machine
+  if (hooks?.isStashed?.() === true) return unchanged(currentState);
+  return yield* apply;
+});
 
-  if (!result.transitioned) {
-    return {
-      newState: currentState,
-      previousState: currentState,
-      transitioned: false,
-      lifecycleRan: false,
-      isFinal: false,
-      hasReply: false,
-      deferReply: false,
-      reply: undefined,
-      postponed: false,
-    };
+/** Result for an event that left the state as it was */
+const unchanged = <S>(state: S): ProcessEventResult<S> => ({
+  newState: state,
+  previousState: state,
+  transitioned: false,
+  lifecycleRan: false,
+  isFinal: false,
+  hasReply: false,
+  deferReply: false,
+  reply: undefined,
+  postponed: false,
+});
+
+/**
+ * Run the transition handler for an event — each region's, for a parallel machine — and
+ * return `apply`, the effect that applies it: history, lifecycle and eventless transitions.
+ */
+const prepareEvent = Effect.fn("effect-machine.prepareEvent")(function* <
+  S extends { readonly _tag: string },
+  E extends { readonly _tag: string },
+  R,
+  SD extends SlotsDef,
+>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, SD>,
+  currentState: S,
+  event: E,
+  self: MachineRef<E>,
+  stateScopeRef: StateScopeRef,
+  system: ActorSystem,
+  actorId: string,
+  hooks?: ProcessEventHooks<S, E>,
+  history?: HistoryRef,
+) {
+  if (machine._regions !== undefined) {
+    return yield* prepareParallelEvent(
+      machine,
+      currentState,
+      event,
+      self,
+      stateScopeRef,
+      system,
+      actorId,
+      hooks,
+      history,
+    );
   }
 
-  const newState = result.newState;
-  const stateTagChanged = newState._tag !== currentState._tag;
-  const runLifecycle = stateTagChanged || result.reenter;
+  // Execute transition (defect-aware)
+  const result = yield* executeTransition(
+    machine,
+    currentState,
+    event,
+    self,
+    system,
+    actorId,
+    history,
+    hooks?.onGuard,
+  ).pipe(Effect.catchCause(reportTransitionDefect(hooks, currentState, event)));
 
-  if (runLifecycle) {
-    // Close old state scope (interrupts spawn fibers)
-    yield* Scope.close(stateScopeRef.current, Exit.void);
+  if (!result.transitioned) return { apply: Effect.succeed(unchanged(currentState)) };
 
-    // Create new state scope
-    stateScopeRef.current = yield* Scope.make();
+  const apply = Effect.gen(function* () {
+    const newState = result.newState;
+    if (history !== undefined) recordHistory(machine, newState, history);
+    const runLifecycle = newState._tag !== currentState._tag || result.reenter;
 
-    // Hook: transition complete (before spawn effects)
-    if (hooks?.onTransition !== undefined) {
-      yield* hooks.onTransition(currentState, newState, event);
+    if (runLifecycle) {
+      yield* runTransitionLifecycle(
+        machine,
+        currentState,
+        newState,
+        result.reenter,
+        result.source,
+        event,
+        self,
+        stateScopeRef,
+        system,
+        actorId,
+        hooks,
+      );
     }
 
-    // Hook: about to run spawn effects
-    if (hooks?.onSpawnEffect !== undefined) {
-      yield* hooks.onSpawnEffect(newState);
+    // Eventless transitions settle before the next event is taken
+    const settled = yield* settleAlwaysCore(
+      machine,
+      newState,
+      event,
+      self,
+      stateScopeRef,
+      system,
+      actorId,
+      hooks,
+      history,
+    );
+
+    return {
+      newState: settled.state,
+      previousState: currentState,
+      transitioned: true,
+      lifecycleRan: runLifecycle || settled.lifecycleRan,
+      isFinal: machine.finalStates.has(settled.state._tag),
+      hasReply: result.hasReply,
+      deferReply: result.deferReply,
+      reply: result.reply,
+      postponed: false,
+    } satisfies ProcessEventResult<S>;
+  });
+  return { apply };
+});
+
+/**
+ * Report a transition defect through `onError`, then let it propagate.
+ */
+const reportTransitionDefect =
+  <S, E>(hooks: ProcessEventHooks<S, E> | undefined, state: S, event: E) =>
+  (cause: Cause.Cause<unknown>): Effect.Effect<never> => {
+    if (Cause.hasInterruptsOnly(cause)) {
+      return Effect.interrupt;
     }
+    // @effect-diagnostics anyUnknownInErrorContext:off — the cause is rethrown as a defect
+    const onError = hooks?.onError;
+    if (onError === undefined) {
+      return Effect.failCause(cause).pipe(Effect.orDie);
+    }
+    return onError({ phase: "transition", state, event, cause }).pipe(
+      Effect.andThen(Effect.failCause(cause).pipe(Effect.orDie)),
+    );
+    // @effect-diagnostics anyUnknownInErrorContext:on
+  };
+
+/**
+ * Move the active state configuration from `currentState` to `newState`:
+ * exit actions, close exited scopes, then entry actions and spawn effects.
+ */
+const runTransitionLifecycle = Effect.fn("effect-machine.runTransitionLifecycle")(function* <
+  S extends { readonly _tag: string },
+  E extends { readonly _tag: string },
+  R,
+  SD extends SlotsDef,
+>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, SD>,
+  currentState: S,
+  newState: S,
+  reenter: boolean,
+  source: string | undefined,
+  event: E,
+  self: MachineRef<E>,
+  stateScopeRef: StateScopeRef,
+  system: ActorSystem,
+  actorId: string,
+  hooks?: ProcessEventHooks<S, E>,
+) {
+  // Groups shared by the old and new state stay entered — unless the
+  // transition was a reenter registered on one of them
+  const previousPath = ancestorsOf(machine, currentState._tag);
+  const nextPath = ancestorsOf(machine, newState._tag);
+  let retained = 0;
+  while (
+    retained < previousPath.length &&
+    retained < nextPath.length &&
+    previousPath[previousPath.length - 1 - retained] === nextPath[nextPath.length - 1 - retained]
+  ) {
+    retained++;
+  }
+  if (reenter && source !== undefined) {
+    const sourceDepth = previousPath.length - 1 - previousPath.indexOf(source);
+    if (sourceDepth < previousPath.length) retained = Math.min(retained, sourceDepth);
+  }
 
-    // Run spawn effects for new state
-    const enterEvent = { _tag: INTERNAL_ENTER_EVENT } as E;
-    yield* runSpawnEffects(
+  // Exit actions run inline while the old state's effects are still alive:
+  // the leaf first, then each exited group innermost first
+  const exited = [currentState._tag, ...previousPath.slice(0, previousPath.length - retained)];
+  for (const stateTag of exited) {
+    yield* runStateActions(
       machine,
-      newState,
-      enterEvent,
+      "exit",
+      stateTag,
+      currentState,
+      event,
       self,
-      stateScopeRef.current,
       system,
       actorId,
       hooks?.onError,
-      hooks?.onSpawnDefect,
     );
   }
 
-  return {
+  // Close exited state scopes (interrupts spawn fibers), then create new leaf scope
+  yield* closeStateScopes(stateScopeRef, retained);
+  stateScopeRef.current = yield* Scope.make();
+
+  // Hook: transition complete (before spawn effects)
+  if (hooks?.onTransition !== undefined) {
+    yield* hooks.onTransition(currentState, newState, event);
+  }
+
+  // Hook: about to run spawn effects
+  if (hooks?.onSpawnEffect !== undefined) {
+    yield* hooks.onSpawnEffect(newState);
+  }
+
+  // Run entry actions and spawn effects for entered groups and the new state
+  const enterEvent = { _tag: INTERNAL_ENTER_EVENT } as E;
+  yield* runEntryEffects(
+    machine,
     newState,
-    previousState: currentState,
-    transitioned: true,
-    lifecycleRan: runLifecycle,
-    isFinal: machine.finalStates.has(newState._tag),
-    hasReply: result.hasReply,
-    deferReply: result.deferReply,
-    reply: result.reply,
-    postponed: false,
-  };
+    enterEvent,
+    self,
+    stateScopeRef,
+    system,
+    actorId,
+    hooks?.onError,
+    hooks?.onSpawnDefect,
+    event,
+  );
+});
+
+/**
+ * Prepare an event for every active region of a `Machine.parallel()` machine.
+ * Every region's handler runs before any region's lifecycle, which then runs in
+ * the region's own scopes; the first region to reply provides the reply.
+ */
+const prepareParallelEvent = Effect.fn("effect-machine.prepareParallelEvent")(function* <
+  S extends { readonly _tag: string },
+  E extends { readonly _tag: string },
+  R,
+  SD extends SlotsDef,
+>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, SD>,
+  currentState: S,
+  event: E,
+  self: MachineRef<E>,
+  stateScopeRef: StateScopeRef,
+  system: ActorSystem,
+  actorId: string,
+  hooks?: ProcessEventHooks<S, E>,
+  history?: HistoryRef,
+) {
+  const regionScopes = (stateScopeRef.regions ??= new Map());
+  const regionHooks = regionHooksOf(hooks, currentState);
+
+  const pending: Array<
+    readonly [string, Effect.Effect<ProcessEventResult<{ readonly _tag: string }>>]
+  > = [];
+  for (const [name, region] of regionsOf(machine)) {
+    const regionState = regionStateOf(currentState, name);
+    if (isFinalState(region, regionState)) continue;
+    let scopeRef = regionScopes.get(name);
+    if (scopeRef === undefined) {
+      scopeRef = { current: yield* Scope.make(), groups: [] };
+      regionScopes.set(name, scopeRef);
+    }
+    const { apply: applyRegion } = yield* prepareRegionEvent(
+      region,
+      regionState,
+      event,
+      self,
+      scopeRef,
+      system,
+      actorId,
+      regionHooks,
+      history,
+    );
+    pending.push([name, applyRegion]);
+  }
+
+  const apply = Effect.gen(function* () {
+    const nextRegions: Record<string, { readonly _tag: string }> = {
+      ...(currentState as unknown as ParallelState<Record<string, { readonly _tag: string }>>)
+        .regions,
+    };
+    let transitioned = false;
+    let lifecycleRan = false;
+    let hasReply = false;
+    let deferReply = false;
+    let reply: unknown = undefined;
+
+    for (const [name, applyRegion] of pending) {
+      const result = yield* applyRegion;
+      if (!result.transitioned) continue;
+      transitioned = true;
+      nextRegions[name] = result.newState;
+      if (result.lifecycleRan) lifecycleRan = true;
+      if (result.deferReply) deferReply = true;
+      if (result.hasReply && !hasReply) {
+        hasReply = true;
+        reply = result.reply;
+      }
+    }
+
+    const newState = transitioned ? (makeParallelState(nextRegions) as unknown as S) : currentState;
+
+    if (lifecycleRan) {
+      if (hooks?.onTransition !== undefined) {
+        yield* hooks.onTransition(currentState, newState, event);
+      }
+      if (hooks?.onSpawnEffect !== undefined) {
+        yield* hooks.onSpawnEffect(newState);
+      }
+    }
+
+    return {
+      newState,
+      previousState: currentState,
+      transitioned,
+      lifecycleRan,
+      isFinal: transitioned && isFinalState(machine, newState),
+      hasReply,
+      deferReply,
+      reply,
+      postponed: false,
+    } satisfies ProcessEventResult<S>;
+  });
+  return { apply };
 });
 
+/**
+ * Hooks handed to each region — errors and guards report the combined parallel state.
+ */
+const regionHooksOf = <S, E>(
+  hooks: ProcessEventHooks<S, E> | undefined,
+  state: S,
+): ProcessEventHooks<{ readonly _tag: string }, E> => {
+  const onError = hooks?.onError;
+  const onGuard = hooks?.onGuard;
+  return {
+    onError: onError === undefined ? undefined : (info) => onError({ ...info, state }),
+    onSpawnDefect: hooks?.onSpawnDefect,
+    onGuard: onGuard === undefined ? undefined : (info) => onGuard({ ...info, state }),
+    isStashed: hooks?.isStashed,
+  };
+};
+
 /**
  * Run spawn effects for a state (forked into state scope, auto-cancelled on state exit).
+ * Pass `stateTag` to run the effects registered on one of the state's groups instead.
  *
  * @internal
  */
@@ -355,8 +842,9 @@ export const runSpawnEffects = Effect.fn("effect-machine.runSpawnEffects")(funct
   actorId: string,
   onError?: (info: ProcessEventError<S, E>) => Effect.Effect<void>,
   onSpawnDefect?: (cause: Cause.Cause<unknown>) => Effect.Effect<void>,
+  stateTag: string = state._tag,
 ) {
-  const spawnEffects = findSpawnEffects(machine, state._tag);
+  const spawnEffects = findSpawnEffects(machine, stateTag);
   const ctx: MachineContext<S, E, MachineRef<E>> = { actorId, state, event, self, system };
   const slots = machine._slots;
   const reportError = onError;
@@ -397,24 +885,907 @@ export const runSpawnEffects = Effect.fn("effect-machine.runSpawnEffects")(funct
 });
 
 /**
- * Resolve which transition should fire for a given state and event.
- * Uses indexed O(1) lookup. First matching transition wins.
+ * Run the entry or exit actions registered on a state (or group) inline.
+ * Defects are reported with phase `"enter"` / `"exit"` and then propagate.
  */
-export const resolveTransition = <
+const runStateActions = Effect.fn("effect-machine.runStateActions")(function* <
   S extends { readonly _tag: string },
   E extends { readonly _tag: string },
   R,
+  SD extends SlotsDef,
 >(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Schema fields need wide acceptance
-  machine: Machine<S, E, R, any, any, any>,
-  currentState: S,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, SD>,
+  phase: "enter" | "exit",
+  stateTag: string,
+  state: S,
   event: E,
-): (typeof machine.transitions)[number] | undefined => {
-  const candidates = findTransitions(machine, currentState._tag, event._tag);
-  return candidates[0];
-};
+  self: MachineRef<E>,
+  system: ActorSystem,
+  actorId: string,
+  onError?: (info: ProcessEventError<S, E>) => Effect.Effect<void>,
+) {
+  const index = getIndex(machine);
+  const actions = (phase === "enter" ? index.enter : index.exit).get(stateTag);
+  if (actions === undefined) return;
+  const ctx: MachineContext<S, E, MachineRef<E>> = { actorId, state, event, self, system };
+  const slots = machine._slots;
+  for (const action of actions) {
+    yield* (
+      action.handler({ actorId, state, event, self, slots, system }) as Effect.Effect<
+        void,
+        never,
+        R
+      >
+    ).pipe(
+      Effect.provideService(machine.Context, ctx),
+      Effect.catchCause((cause) => {
+        if (Cause.hasInterruptsOnly(cause)) {
+          return Effect.interrupt;
+        }
+        const report =
+          onError !== undefined ? onError({ phase, state, event, cause }) : Effect.void;
+        return report.pipe(Effect.andThen(Effect.failCause(cause).pipe(Effect.orDie)));
+      }),
+    );
+  }
+});
 
-// ============================================================================
+/**
+ * Run the machine's `.onUnhandled()` handlers for an event no transition accepted.
+ * Defects propagate like those of a transition handler.
+ *
+ * @internal
+ */
+export const runUnhandledHandlers = Effect.fn("effect-machine.runUnhandledHandlers")(function* <
+  S extends { readonly _tag: string },
+  E extends { readonly _tag: string },
+  R,
+  SD extends SlotsDef,
+>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, SD>,
+  state: S,
+  event: E,
+  self: MachineRef<E>,
+  system: ActorSystem,
+  actorId: string,
+) {
+  const ctx: MachineContext<S, E, MachineRef<E>> = { actorId, state, event, self, system };
+  const slots = machine._slots;
+  for (const handler of machine._unhandledHandlers) {
+    yield* (
+      handler({ actorId, state, event, self, slots, system }) as Effect.Effect<void, never, R>
+    ).pipe(Effect.provideService(machine.Context, ctx));
+  }
+});
+
+/**
+ * Enter a state: for each group not yet entered (outermost first) run its entry
+ * actions, open its scope and run its spawn effects; then do the same for the state
+ * itself in `stateScopeRef.current`. Entry actions receive `trigger` (default: `event`).
+ *
+ * @internal
+ */
+export const runEntryEffects = Effect.fn("effect-machine.runEntryEffects")(function* <
+  S extends { readonly _tag: string },
+  E extends { readonly _tag: string },
+  R,
+  SD extends SlotsDef,
+>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, SD>,
+  state: S,
+  event: E,
+  self: MachineRef<E>,
+  stateScopeRef: StateScopeRef,
+  system: ActorSystem,
+  actorId: string,
+  onError?: (info: ProcessEventError<S, E>) => Effect.Effect<void>,
+  onSpawnDefect?: (cause: Cause.Cause<unknown>) => Effect.Effect<void>,
+  trigger: E = event,
+) {
+  if (machine._regions !== undefined) {
+    const regionScopes = (stateScopeRef.regions ??= new Map());
+    const regionOnError =
+      onError === undefined
+        ? undefined
+        : (info: ProcessEventError<{ readonly _tag: string }, E>) => onError({ ...info, state });
+    for (const [name, region] of regionsOf(machine)) {
+      const scopeRef: StateScopeRef = { current: yield* Scope.make(), groups: [] };
+      regionScopes.set(name, scopeRef);
+      yield* enterRegion(
+        region,
+        regionStateOf(state, name),
+        event,
+        self,
+        scopeRef,
+        system,
+        actorId,
+        regionOnError,
+        onSpawnDefect,
+      );
+    }
+    return;
+  }
+
+  const ancestors = ancestorsOf(machine, state._tag);
+  if (ancestors.length > 0) {
+    const groups = (stateScopeRef.groups ??= []);
+    for (let depth = groups.length; depth < ancestors.length; depth++) {
+      const name = ancestors[ancestors.length - 1 - depth] as string;
+      yield* runStateActions(
+        machine,
+        "enter",
+        name,
+        state,
+        trigger,
+        self,
+        system,
+        actorId,
+        onError,
+      );
+      const scope = yield* Scope.make();
+      groups.push({ name, scope });
+      yield* runSpawnEffects(
+        machine,
+        state,
+        event,
+        self,
+        scope,
+        system,
+        actorId,
+        onError,
+        onSpawnDefect,
+        name,
+      );
+    }
+  }
+  yield* runStateActions(
+    machine,
+    "enter",
+    state._tag,
+    state,
+    trigger,
+    self,
+    system,
+    actorId,
+    onError,
+  );
+  yield* runSpawnEffects(
+    machine,
+    state,
+    event,
+    self,
+    stateScopeRef.current,
+    system,
+    actorId,
+    onError,
+    onSpawnDefect,
+  );
+});
+
+/**
+ * Close the leaf scope and every group scope deeper than `retainedGroups`
+ * (innermost first). Closing with `retainedGroups = 0` tears down everything.
+ *
+ * @internal
+ */
+export const closeStateScopes: (
+  stateScopeRef: StateScopeRef,
+  retainedGroups?: number,
+) => Effect.Effect<void> = Effect.fn("effect-machine.closeStateScopes")(function* (
+  stateScopeRef: StateScopeRef,
+  retainedGroups = 0,
+) {
+  yield* Scope.close(stateScopeRef.current, Exit.void);
+  const groups = stateScopeRef.groups ?? [];
+  while (groups.length > retainedGroups) {
+    const entry = groups.pop();
+    if (entry !== undefined) yield* Scope.close(entry.scope, Exit.void);
+  }
+  const regions = stateScopeRef.regions;
+  if (regions !== undefined) {
+    for (const region of regions.values()) {
+      yield* closeStateScopes(region);
+    }
+    regions.clear();
+  }
+});
+
+/**
+ * Resolve which transition should fire for a given state and event.
+ * Candidates are tried in resolution order — the state, its enclosing groups,
+ * then `.onAny()` — and in registration order within each level. The first
+ * candidate without a guard, or whose guard passes, wins.
+ */
+export const resolveTransition: <
+  S extends { readonly _tag: string },
+  E extends { readonly _tag: string },
+  R,
+>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Schema fields need wide acceptance
+  machine: Machine<S, E, R, any, any, any>,
+  currentState: S,
+  event: E,
+  self: MachineRef<E>,
+  system: ActorSystem,
+  actorId: string,
+  onGuard?: (info: GuardEvaluation<S, E>) => Effect.Effect<void>,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+) => Effect.Effect<Transition<S, E, any, R> | undefined, never, R> = Effect.fn(
+  "effect-machine.resolveTransition",
+)(function* <S extends { readonly _tag: string }, E extends { readonly _tag: string }, R>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, any>,
+  currentState: S,
+  event: E,
+  self: MachineRef<E>,
+  system: ActorSystem,
+  actorId: string,
+  onGuard?: (info: GuardEvaluation<S, E>) => Effect.Effect<void>,
+) {
+  if (machine._regions !== undefined) {
+    return yield* resolveParallelTransition<S, E, R>(
+      machine,
+      currentState,
+      event,
+      self,
+      system,
+      actorId,
+      onGuard,
+    );
+  }
+  for (const candidates of transitionCandidates(machine, currentState._tag, event._tag)) {
+    for (const transition of candidates) {
+      const guard = transition.guard;
+      if (guard === undefined) return transition;
+      const raw = guard.predicate({ state: currentState, event, slots: machine._slots });
+      const passed = isEffect(raw)
+        ? yield* (raw as Effect.Effect<boolean, never, R>).pipe(
+            Effect.provideService(machine.Context, {
+              actorId,
+              state: currentState,
+              event,
+              self,
+              system,
+            }),
+          )
+        : raw;
+      if (onGuard !== undefined) {
+        yield* onGuard({
+          state: currentState,
+          event,
+          source: transition.stateTag,
+          guard: guard.name,
+          passed,
+        });
+      }
+      if (passed) return transition;
+    }
+  }
+  return undefined;
+});
+
+// ============================================================================
+// Eventless transitions
+// ============================================================================
+
+/** Microsteps `.always()` transitions may take for one state before the actor defects */
+export const MAX_ALWAYS_MICROSTEPS = 100;
+
+const alwaysLoopDefect = (state: { readonly _tag: string }) =>
+  Effect.die(
+    new AlwaysLoopError({
+      state: state._tag,
+      microsteps: MAX_ALWAYS_MICROSTEPS,
+      message: `.always() transitions did not settle after ${MAX_ALWAYS_MICROSTEPS} microsteps (last state: "${state._tag}")`,
+    }),
+  );
+
+/**
+ * Evaluate the `.always()` transitions of a state — the state's own first, then
+ * its enclosing groups. Returns the first next state, or `undefined` when stable.
+ * Parallel machines step every active region at once.
+ *
+ * @internal
+ */
+export const resolveAlways: <
+  S extends { readonly _tag: string },
+  E extends { readonly _tag: string },
+  R,
+>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, any>,
+  state: S,
+  event: E,
+  self: MachineRef<E>,
+  system: ActorSystem,
+  actorId: string,
+) => Effect.Effect<S | undefined, never, R> = Effect.fn("effect-machine.resolveAlways")(function* <
+  S extends { readonly _tag: string },
+  E extends { readonly _tag: string },
+  R,
+>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, any>,
+  state: S,
+  event: E,
+  self: MachineRef<E>,
+  system: ActorSystem,
+  actorId: string,
+) {
+  if (machine._regions !== undefined) {
+    const nextRegions: Record<string, { readonly _tag: string }> = {
+      ...(state as unknown as ParallelState<Record<string, { readonly _tag: string }>>).regions,
+    };
+    let stepped = false;
+    for (const [name, region] of regionsOf(machine)) {
+      const regionState = regionStateOf(state, name);
+      if (isFinalState(region, regionState)) continue;
+      const next = yield* resolveRegionAlways(region, regionState, event, self, system, actorId);
+      if (next === undefined) continue;
+      nextRegions[name] = next;
+      stepped = true;
+    }
+    return stepped ? (makeParallelState(nextRegions) as unknown as S) : undefined;
+  }
+  if (machine.finalStates.has(state._tag)) return undefined;
+  const index = getIndex(machine).always;
+  const ctx: MachineContext<S, E, MachineRef<E>> = { actorId, state, event, self, system };
+  for (const stateTag of [state._tag, ...ancestorsOf(machine, state._tag)]) {
+    for (const always of index.get(stateTag) ?? []) {
+      const raw = always.handler({ state, slots: machine._slots });
+      const next = isEffect(raw)
+        ? yield* (raw as Effect.Effect<S | undefined, never, R>).pipe(
+            Effect.provideService(machine.Context, ctx),
+          )
+        : raw;
+      if (next !== undefined) return next;
+    }
+  }
+  return undefined;
+});
+
+/**
+ * Follow `.always()` transitions from `state` without running any lifecycle.
+ * Returns each microstep's state in order (empty when `state` is already stable).
+ * Used by simulate, the test harness and replay.
+ *
+ * @internal
+ */
+export const settleAlways = Effect.fn("effect-machine.settleAlways")(function* <
+  S extends { readonly _tag: string },
+  E extends { readonly _tag: string },
+  R,
+>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, any>,
+  state: S,
+  event: E,
+  self: MachineRef<E>,
+  system: ActorSystem,
+  actorId: string,
+  history?: HistoryRef,
+) {
+  const steps: S[] = [];
+  let current = state;
+  while (true) {
+    const next = yield* resolveAlways(machine, current, event, self, system, actorId);
+    if (next === undefined) return steps;
+    if (steps.length >= MAX_ALWAYS_MICROSTEPS) return yield* alwaysLoopDefect(next);
+    if (history !== undefined) recordHistory(machine, next, history);
+    steps.push(next);
+    current = next;
+  }
+});
+
+/**
+ * Follow `.always()` transitions from `state` in a live actor: every microstep
+ * runs the full exit/enter lifecycle. Parallel machines settle each region in its
+ * own scopes.
+ *
+ * @internal
+ */
+export const settleAlwaysCore: <
+  S extends { readonly _tag: string },
+  E extends { readonly _tag: string },
+  R,
+>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, any>,
+  state: S,
+  event: E,
+  self: MachineRef<E>,
+  stateScopeRef: StateScopeRef,
+  system: ActorSystem,
+  actorId: string,
+  hooks?: ProcessEventHooks<S, E>,
+  history?: HistoryRef,
+) => Effect.Effect<{ readonly state: S; readonly lifecycleRan: boolean }, never, R> = Effect.fn(
+  "effect-machine.settleAlwaysCore",
+)(function* <S extends { readonly _tag: string }, E extends { readonly _tag: string }, R>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, any>,
+  state: S,
+  event: E,
+  self: MachineRef<E>,
+  stateScopeRef: StateScopeRef,
+  system: ActorSystem,
+  actorId: string,
+  hooks?: ProcessEventHooks<S, E>,
+  history?: HistoryRef,
+) {
+  if (machine._regions !== undefined) {
+    const regionScopes = (stateScopeRef.regions ??= new Map());
+    const regionHooks = regionHooksOf(hooks, state);
+    const nextRegions: Record<string, { readonly _tag: string }> = {
+      ...(state as unknown as ParallelState<Record<string, { readonly _tag: string }>>).regions,
+    };
+    let stepped = false;
+    let lifecycleRan = false;
+    for (const [name, region] of regionsOf(machine)) {
+      const regionState = regionStateOf(state, name);
+      const scopeRef = regionScopes.get(name);
+      if (scopeRef === undefined || isFinalState(region, regionState)) continue;
+      const settled = yield* settleRegionAlways(
+        region,
+        regionState,
+        event,
+        self,
+        scopeRef,
+        system,
+        actorId,
+        regionHooks,
+        history,
+      );
+      if (settled.state === regionState) continue;
+      nextRegions[name] = settled.state;
+      stepped = true;
+      if (settled.lifecycleRan) lifecycleRan = true;
+    }
+    const newState = stepped ? (makeParallelState(nextRegions) as unknown as S) : state;
+    if (lifecycleRan && hooks?.onTransition !== undefined) {
+      yield* hooks.onTransition(state, newState, event);
+    }
+    return { state: newState, lifecycleRan };
+  }
+
+  let current = state;
+  let lifecycleRan = false;
+  for (let microsteps = 0; ; microsteps++) {
+    const from = current;
+    const next = yield* resolveAlways(machine, from, event, self, system, actorId).pipe(
+      Effect.flatMap((resolved) =>
+        resolved !== undefined && microsteps >= MAX_ALWAYS_MICROSTEPS
+          ? alwaysLoopDefect(resolved)
+          : Effect.succeed(resolved),
+      ),
+      Effect.catchCause(reportTransitionDefect(hooks, from, event)),
+    );
+    if (next === undefined) return { state: current, lifecycleRan };
+    if (history !== undefined) recordHistory(machine, next, history);
+    if (next._tag !== from._tag) {
+      yield* runTransitionLifecycle(
+        machine,
+        from,
+        next,
+        false,
+        undefined,
+        event,
+        self,
+        stateScopeRef,
+        system,
+        actorId,
+        hooks,
+      );
+      lifecycleRan = true;
+    }
+    current = next;
+  }
+});
+
+// ============================================================================
+// Parallel regions
+// ============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyMachine = Machine<any, any, any, any, any, any>;
+
+const regionsOf = (machine: AnyMachine): ReadonlyMap<string, AnyMachine> =>
+  machine._regions ?? new Map();
+
+/** @internal */
+export const regionStateOf = (
+  state: { readonly _tag: string },
+  name: string,
+): { readonly _tag: string } =>
+  (state as unknown as ParallelState<Record<string, { readonly _tag: string }>>).regions[name] as {
+    readonly _tag: string;
+  };
+
+/** @internal */
+export const makeParallelState = <Regions extends Record<string, { readonly _tag: string }>>(
+  regions: Regions,
+): ParallelState<Regions> => ({ _tag: "Parallel", regions });
+
+/**
+ * Output of a final state — the `.final()` derivation (or `undefined`), decoded by the
+ * machine's `output` schema when one is configured. Dies if decoding fails.
+ */
+export const resolveOutput = (
+  machine: AnyMachine,
+  state: { readonly _tag: string },
+): Effect.Effect<unknown> =>
+  Effect.suspend(() => {
+    const derive = machine._finalOutputs.get(state._tag);
+    const output = derive === undefined ? undefined : derive({ state });
+    const schema = machine._outputSchema;
+    return schema === undefined
+      ? Effect.succeed(output)
+      : Schema.decodeUnknownEffect(schema)(output).pipe(Effect.orDie);
+  });
+
+/**
+ * Whether `state` is final for `machine`.
+ * A parallel machine is final once every region is.
+ */
+export const isFinalState = (machine: AnyMachine, state: { readonly _tag: string }): boolean => {
+  const regions = machine._regions;
+  if (regions === undefined) return machine.finalStates.has(state._tag);
+  for (const [name, region] of regions) {
+    if (!isFinalState(region, regionStateOf(state, name))) return false;
+  }
+  return true;
+};
+
+/**
+ * Identity of the active state configuration: the state tag, or each region's
+ * key for a parallel machine. A change means postponed events should drain.
+ */
+export const stateKey = (machine: AnyMachine, state: { readonly _tag: string }): string => {
+  const regions = machine._regions;
+  if (regions === undefined) return state._tag;
+  const parts: string[] = [];
+  for (const [name, region] of regions) {
+    parts.push(`${name}:${stateKey(region, regionStateOf(state, name))}`);
+  }
+  return `${state._tag}(${parts.join(",")})`;
+};
+
+// Typed per-region entry points — regions recurse into the generic processors, so
+// these annotations break the inference cycle. Region requirements are provided by
+// the parallel machine's runtime.
+const prepareRegionEvent: <E extends { readonly _tag: string }>(
+  machine: AnyMachine,
+  state: { readonly _tag: string },
+  event: E,
+  self: MachineRef<E>,
+  stateScopeRef: StateScopeRef,
+  system: ActorSystem,
+  actorId: string,
+  hooks?: ProcessEventHooks<{ readonly _tag: string }, E>,
+  history?: HistoryRef,
+) => Effect.Effect<{
+  readonly apply: Effect.Effect<ProcessEventResult<{ readonly _tag: string }>>;
+}> = (machine, state, event, self, stateScopeRef, system, actorId, hooks, history) =>
+  // @effect-diagnostics anyUnknownInErrorContext:off — regions are typed `any`
+  prepareEvent(
+    machine,
+    state,
+    event,
+    self,
+    stateScopeRef,
+    system,
+    actorId,
+    hooks,
+    history,
+  ) as Effect.Effect<{
+    readonly apply: Effect.Effect<ProcessEventResult<{ readonly _tag: string }>>;
+  }>;
+
+const enterRegion: <E extends { readonly _tag: string }>(
+  machine: AnyMachine,
+  state: { readonly _tag: string },
+  event: E,
+  self: MachineRef<E>,
+  stateScopeRef: StateScopeRef,
+  system: ActorSystem,
+  actorId: string,
+  onError?: (info: ProcessEventError<{ readonly _tag: string }, E>) => Effect.Effect<void>,
+  onSpawnDefect?: (cause: Cause.Cause<unknown>) => Effect.Effect<void>,
+) => Effect.Effect<void> = (
+  machine,
+  state,
+  event,
+  self,
+  stateScopeRef,
+  system,
+  actorId,
+  onError,
+  onSpawnDefect,
+) =>
+  // @effect-diagnostics anyUnknownInErrorContext:off — regions are typed `any`
+  runEntryEffects(
+    machine,
+    state,
+    event,
+    self,
+    stateScopeRef,
+    system,
+    actorId,
+    onError,
+    onSpawnDefect,
+  ) as Effect.Effect<void>;
+
+const resolveRegionAlways: <E extends { readonly _tag: string }>(
+  machine: AnyMachine,
+  state: { readonly _tag: string },
+  event: E,
+  self: MachineRef<E>,
+  system: ActorSystem,
+  actorId: string,
+) => Effect.Effect<{ readonly _tag: string } | undefined> = (
+  machine,
+  state,
+  event,
+  self,
+  system,
+  actorId,
+) =>
+  // @effect-diagnostics anyUnknownInErrorContext:off — regions are typed `any`
+  resolveAlways(machine, state, event, self, system, actorId) as Effect.Effect<
+    { readonly _tag: string } | undefined
+  >;
+
+const settleRegionAlways: <E extends { readonly _tag: string }>(
+  machine: AnyMachine,
+  state: { readonly _tag: string },
+  event: E,
+  self: MachineRef<E>,
+  stateScopeRef: StateScopeRef,
+  system: ActorSystem,
+  actorId: string,
+  hooks?: ProcessEventHooks<{ readonly _tag: string }, E>,
+  history?: HistoryRef,
+) => Effect.Effect<{
+  readonly state: { readonly _tag: string };
+  readonly lifecycleRan: boolean;
+}> = (machine, state, event, self, stateScopeRef, system, actorId, hooks, history) =>
+  // @effect-diagnostics anyUnknownInErrorContext:off — regions are typed `any`
+  settleAlwaysCore(
+    machine,
+    state,
+    event,
+    self,
+    stateScopeRef,
+    system,
+    actorId,
+    hooks,
+    history,
+  ) as Effect.Effect<{ readonly state: { readonly _tag: string }; readonly lifecycleRan: boolean }>;
+
+// Regions resolve through the generic resolver — annotated to break the inference cycle
+const resolveRegionTransition: <E extends { readonly _tag: string }>(
+  machine: AnyMachine,
+  state: { readonly _tag: string },
+  event: E,
+  self: MachineRef<E>,
+  system: ActorSystem,
+  actorId: string,
+  onGuard?: (info: GuardEvaluation<{ readonly _tag: string }, E>) => Effect.Effect<void>,
+) => Effect.Effect<Transition<{ readonly _tag: string }, E, SlotsDef, unknown> | undefined> = <
+  E extends { readonly _tag: string },
+>(
+  machine: AnyMachine,
+  state: { readonly _tag: string },
+  event: E,
+  self: MachineRef<E>,
+  system: ActorSystem,
+  actorId: string,
+  onGuard?: (info: GuardEvaluation<{ readonly _tag: string }, E>) => Effect.Effect<void>,
+) =>
+  // @effect-diagnostics anyUnknownInErrorContext:off — regions are typed `any`
+  resolveTransition(machine, state, event, self, system, actorId, onGuard) as Effect.Effect<
+    Transition<{ readonly _tag: string }, E, SlotsDef, unknown> | undefined
+  >;
+
+/**
+ * Combine the transitions each active region would take into a single transition
+ * over the parallel state. Regions without a matching transition keep their state.
+ */
+const resolveParallelTransition = Effect.fn("effect-machine.resolveParallelTransition")(function* <
+  S extends { readonly _tag: string },
+  E extends { readonly _tag: string },
+  R,
+>(
+  machine: AnyMachine,
+  currentState: S,
+  event: E,
+  self: MachineRef<E>,
+  system: ActorSystem,
+  actorId: string,
+  onGuard?: (info: GuardEvaluation<S, E>) => Effect.Effect<void>,
+) {
+  const matched: Array<{
+    readonly name: string;
+    readonly region: AnyMachine;
+    readonly transition: Transition<{ readonly _tag: string }, E, SlotsDef, unknown>;
+  }> = [];
+  for (const [name, region] of regionsOf(machine)) {
+    const regionState = regionStateOf(currentState, name);
+    if (isFinalState(region, regionState)) continue;
+    const transition = yield* resolveRegionTransition(
+      region,
+      regionState,
+      event,
+      self,
+      system,
+      actorId,
+      onGuard === undefined ? undefined : (info) => onGuard({ ...info, state: currentState }),
+    );
+    if (transition !== undefined) matched.push({ name, region, transition });
+  }
+  if (matched.length === 0) return undefined;
+
+  const handler = () =>
+    Effect.gen(function* () {
+      const ctx = yield* MachineContextTag;
+      const regions: Record<string, { readonly _tag: string }> = {
+        ...(currentState as unknown as ParallelState<Record<string, { readonly _tag: string }>>)
+          .regions,
+      };
+      let replied: { readonly value: unknown } | undefined;
+      let deferred = false;
+      for (const { name, region, transition } of matched) {
+        // @effect-diagnostics anyUnknownInErrorContext:off — regions are typed `any`
+        const result = yield* runTransitionHandler(
+          region,
+          transition,
+          regionStateOf(currentState, name),
+          event,
+          ctx.self,
+          ctx.system,
+          ctx.actorId,
+        );
+        regions[name] = result.newState;
+        if (result.hasReply && replied === undefined) replied = { value: result.reply };
+        if (result.deferReply) deferred = true;
+      }
+      const next = makeParallelState(regions);
+      if (replied !== undefined) return makeReply(next, replied.value);
+      return deferred ? makeDeferReply(next) : next;
+    });
+
+  return {
+    stateTag: currentState._tag,
+    eventTag: event._tag,
+    handler: handler as unknown as Transition<S, E, SlotsDef, R>["handler"],
+    reenter: matched.some(({ transition }) => transition.reenter === true),
+  };
+});
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * Fold events through a machine (slots already bound), also folding the state history,
+ * seeded from `options.history`. Backs `Machine.replay` and entity journal hydration.
+ */
+export const replayWithHistory = Effect.fn("effect-machine.replay")(function* <
+  S extends { readonly _tag: string },
+  E extends { readonly _tag: string },
+  R,
+>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, any>,
+  events: ReadonlyArray<E>,
+  options?: { from?: S; history?: StateHistory<S> },
+) {
+  let state: S = options?.from ?? machine.initial;
+
+  const visited: HistoryRef = new Map();
+  for (const entry of options?.history ?? []) visited.set(entry._tag, entry);
+  recordHistory(machine, state, visited);
+
+  const hasPostponeRules = machine.postponeRules.length > 0;
+  const postponed: E[] = [];
+
+  const dummySend = Effect.fn("effect-machine.replay.send")((_event: E) => Effect.void);
+  const self: MachineRef<E> = {
+    send: dummySend,
+    cast: dummySend,
+    raise: dummySend,
+    stash: () => Effect.void,
+    unstashAll: () => Effect.void,
+    spawn: () => Effect.die("spawn not supported in replay"),
+    reply: () => Effect.succeed(false),
+    emitReply: () => Effect.succeed(false),
+    completeReply: () => Effect.succeed(false),
+    startTimer: () => Effect.void,
+    cancelTimer: () => Effect.void,
+  };
+
+  // Follow eventless transitions, as the live actor does after every transition
+  const settle = Effect.fn("effect-machine.replay.settle")(function* (from: S, event: E) {
+    const steps = yield* settleAlways(machine, from, event, self, stubSystem, "replay", visited);
+    return steps.length > 0 ? (steps[steps.length - 1] as S) : from;
+  });
+  state = yield* settle(state, { _tag: INTERNAL_INIT_EVENT } as E);
+
+  for (const event of events) {
+    // Final state stops replay
+    if (isFinalState(machine, state)) break;
+
+    // Check postpone rules
+    if (hasPostponeRules && shouldPostpone(machine, state, event)) {
+      postponed.push(event);
+      continue;
+    }
+
+    const transition = yield* resolveTransition(machine, state, event, self, stubSystem, "replay");
+    if (transition !== undefined) {
+      const result = yield* runTransitionHandler(
+        machine,
+        transition,
+        state,
+        event,
+        self,
+        stubSystem,
+        "replay",
+        visited,
+      );
+      recordHistory(machine, result.newState, visited);
+      const previousTag = stateKey(machine, state);
+      state = yield* settle(result.newState, event);
+
+      // Drain postponed events on state change — loop until stable
+      const stateChanged = stateKey(machine, state) !== previousTag || transition.reenter === true;
+      if (stateChanged && postponed.length > 0) {
+        let drainTag = previousTag;
+        while (stateKey(machine, state) !== drainTag && postponed.length > 0) {
+          if (isFinalState(machine, state)) break;
+          drainTag = stateKey(machine, state);
+          const drained = postponed.splice(0);
+          for (const postponedEvent of drained) {
+            if (isFinalState(machine, state)) break;
+            if (shouldPostpone(machine, state, postponedEvent)) {
+              postponed.push(postponedEvent);
+              continue;
+            }
+            const pTransition = yield* resolveTransition(
+              machine,
+              state,
+              postponedEvent,
+              self,
+              stubSystem,
+              "replay",
+            );
+            if (pTransition !== undefined) {
+              const pResult = yield* runTransitionHandler(
+                machine,
+                pTransition,
+                state,
+                postponedEvent,
+                self,
+                stubSystem,
+                "replay",
+                visited,
+              );
+              recordHistory(machine, pResult.newState, visited);
+              state = yield* settle(pResult.newState, postponedEvent);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return { state, history: Array.from(visited.values()) as Array<S> };
+});
+
+// ============================================================================
 // Transition Index (O(1) Lookup)
 // ============================================================================
 
@@ -432,12 +1803,22 @@ type TransitionIndex<S, E, SD extends SlotsDef, R> = Map<
  */
 type SpawnIndex<S, E, SD extends SlotsDef, R> = Map<string, Array<SpawnEffect<S, E, SD, R>>>;
 
+/**
+ * Index for entry/exit actions: stateTag -> actions[]
+ */
+type ActionIndex<S, E, SD extends SlotsDef, R> = Map<string, Array<StateAction<S, E, SD, R>>>;
+
 /**
  * Combined index for a machine
  */
 interface MachineIndex<S, E, SD extends SlotsDef, R> {
   readonly transitions: TransitionIndex<S, E, SD, R>;
   readonly spawn: SpawnIndex<S, E, SD, R>;
+  readonly enter: ActionIndex<S, E, SD, R>;
+  readonly exit: ActionIndex<S, E, SD, R>;
+  readonly always: Map<string, Array<AlwaysTransition<S, SD, R>>>;
+  /** stateTag -> enclosing groups, innermost first (filled lazily) */
+  readonly ancestors: Map<string, ReadonlyArray<string>>;
 }
 
 // Module-level cache - WeakMap allows GC of unreferenced machines
@@ -485,17 +1866,12 @@ const buildTransitionIndex = <
 };
 
 /**
- * Build spawn index from machine definition.
+ * Build a stateTag index for spawn effects or entry/exit actions.
  */
-const buildSpawnIndex = <
-  S extends { readonly _tag: string },
-  E extends { readonly _tag: string },
-  SD extends SlotsDef,
-  R,
->(
-  effects: ReadonlyArray<SpawnEffect<S, E, SD, R>>,
-): SpawnIndex<S, E, SD, R> => {
-  const index: SpawnIndex<S, E, SD, R> = new Map();
+const buildStateIndex = <T extends { readonly stateTag: string }>(
+  effects: ReadonlyArray<T>,
+): Map<string, Array<T>> => {
+  const index = new Map<string, Array<T>>();
 
   for (const e of effects) {
     let stateList = index.get(e.stateTag);
@@ -525,17 +1901,49 @@ const getIndex = <
   if (index === undefined) {
     index = {
       transitions: buildTransitionIndex(machine.transitions),
-      spawn: buildSpawnIndex(machine.spawnEffects),
+      spawn: buildStateIndex(machine.spawnEffects),
+      enter: buildStateIndex(machine.enterActions),
+      exit: buildStateIndex(machine.exitActions),
+      always: buildStateIndex(machine.alwaysTransitions),
+      ancestors: new Map(),
     };
     indexCache.set(machine, index);
   }
   return index;
 };
 
+/**
+ * Enclosing groups of a state (or group), innermost first.
+ * Empty for states outside any `Machine.group()`.
+ */
+export const ancestorsOf = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Schema fields need wide acceptance
+  machine: Machine<any, any, any, any, any, any>,
+  stateTag: string,
+): ReadonlyArray<string> => {
+  if (machine._stateParents.size === 0) return [];
+  const index = getIndex(machine);
+  let ancestors = index.ancestors.get(stateTag);
+  if (ancestors === undefined) {
+    const chain: string[] = [];
+    let parent = machine._stateParents.get(stateTag);
+    while (parent !== undefined) {
+      chain.push(parent);
+      parent = machine._stateParents.get(parent);
+    }
+    ancestors = chain;
+    index.ancestors.set(stateTag, ancestors);
+  }
+  return ancestors;
+};
+
 /**
  * Find all transitions matching a state/event pair.
  * Returns empty array if no matches.
  *
+ * Resolution order: the state itself, then its enclosing groups (innermost
+ * first), then `.onAny()` wildcards.
+ *
  * O(1) lookup after first access (index is lazily built).
  */
 export const findTransitions = <
@@ -552,10 +1960,43 @@ export const findTransitions = <
   const index = getIndex(machine);
   const specific = index.transitions.get(stateTag)?.get(eventTag) ?? [];
   if (specific.length > 0) return specific;
+  // Bubble to enclosing groups
+  for (const ancestor of ancestorsOf(machine, stateTag)) {
+    const inherited = index.transitions.get(ancestor)?.get(eventTag) ?? [];
+    if (inherited.length > 0) return inherited;
+  }
   // Fallback to wildcard transitions
   return index.transitions.get("*")?.get(eventTag) ?? [];
 };
 
+/**
+ * Every level of candidate transitions for a state/event pair, in resolution
+ * order: the state itself, its enclosing groups (innermost first), then
+ * `.onAny()` wildcards. Empty levels are skipped.
+ *
+ * Guard evaluation walks these levels — when every guarded candidate at one
+ * level fails, the next level gets a chance.
+ */
+const transitionCandidates = <
+  S extends { readonly _tag: string },
+  E extends { readonly _tag: string },
+  R,
+  SD extends SlotsDef,
+>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Schema fields need wide acceptance
+  machine: Machine<S, E, R, any, any, SD>,
+  stateTag: string,
+  eventTag: string,
+): Array<ReadonlyArray<Transition<S, E, SD, R>>> => {
+  const index = getIndex(machine);
+  const levels: Array<ReadonlyArray<Transition<S, E, SD, R>>> = [];
+  for (const tag of [stateTag, ...ancestorsOf(machine, stateTag), "*"]) {
+    const candidates = index.transitions.get(tag)?.get(eventTag);
+    if (candidates !== undefined && candidates.length > 0) levels.push(candidates);
+  }
+  return levels;
+};
+
 /**
  * Find all spawn effects for a state.
  * Returns empty array if no matches.
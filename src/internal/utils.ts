@@ -2,8 +2,12 @@
  * Internal utilities for effect-machine.
  * @internal
  */
-import { Effect, Stream } from "effect";
+import { Duration, Effect, Option, Schema, Stream } from "effect";
 import type { ActorSystem } from "../actor.js";
+import type { Machine, StateGroup } from "../machine.js";
+import type { SlotsDef } from "../slot.js";
+import { ActorTimeoutError, InvalidInputError } from "../errors.js";
+import type { ExtractReply, ExtractReplyError, ExtractReplyStreamItem } from "./brands.js";
 
 // ============================================================================
 // Type Helpers
@@ -62,6 +66,55 @@ export const makeReply = <State, Reply>(state: State, reply: Reply): ReplyResult
 export const isReplyResult = (value: unknown): value is ReplyResult<unknown, unknown> =>
   value !== null && typeof value === "object" && ReplyResultSymbol in value;
 
+// ============================================================================
+// ReplyFailure — typed reply error, carried as the reply value
+// ============================================================================
+
+const ReplyFailureSymbol: unique symbol = Symbol.for("effect-machine/ReplyFailure");
+export type ReplyFailureSymbol = typeof ReplyFailureSymbol;
+
+/**
+ * Branded reply error. Travels as the reply of a `ReplyResult`, so the
+ * asker's `ask()` fails with `error` instead of succeeding.
+ */
+export interface ReplyFailure<Err> {
+  readonly error: Err;
+  readonly [ReplyFailureSymbol]: true;
+}
+
+/**
+ * Create a reply result that fails the ask with a typed domain error.
+ */
+export const makeReplyError = <State, Err>(
+  state: State,
+  error: Err,
+): ReplyResult<State, ReplyFailure<Err>> =>
+  makeReply(state, { error, [ReplyFailureSymbol]: true as const });
+
+/**
+ * Type guard for ReplyFailure.
+ */
+export const isReplyFailure = (value: unknown): value is ReplyFailure<unknown> =>
+  value !== null && typeof value === "object" && ReplyFailureSymbol in value;
+
+/**
+ * Reply of an `Event.replyStream()` event. Type-only — handlers answer with
+ * `Machine.deferReply(state)` and spawn handlers emit the items.
+ */
+export interface StreamedReply<Item> {
+  readonly _StreamItem: Item;
+}
+
+/**
+ * Reply a handler may produce for an event — the reply type, plus `ReplyFailure`
+ * when the event declares a reply error schema. Streamed replies are deferred.
+ */
+export type HandlerReply<E> = [ExtractReplyStreamItem<E>] extends [never]
+  ? [ExtractReplyError<E>] extends [never]
+    ? ExtractReply<E>
+    : ExtractReply<E> | ReplyFailure<ExtractReplyError<E>>
+  : StreamedReply<ExtractReplyStreamItem<E>>;
+
 // ============================================================================
 // DeferReplyResult — signal that spawn handler will reply later
 // ============================================================================
@@ -94,17 +147,71 @@ export const makeDeferReply = <State>(state: State): DeferReplyResult<State> =>
 export const isDeferReplyResult = (value: unknown): value is DeferReplyResult<unknown> =>
   value !== null && typeof value === "object" && DeferReplySymbol in value;
 
+// ============================================================================
+// HistoryTarget — resume the last active state of a group
+// ============================================================================
+
+const HistoryTargetSymbol: unique symbol = Symbol.for("effect-machine/HistoryTarget");
+export type HistoryTargetSymbol = typeof HistoryTargetSymbol;
+
+/**
+ * Branded history pseudo-state returned from a transition handler.
+ * Created via `Machine.history(group, fallback)`.
+ */
+export interface HistoryTarget<State> {
+  /** Group name */
+  readonly group: string;
+  /** Leaf state tags anywhere under the group */
+  readonly leaves: ReadonlySet<string>;
+  /** Leaf state tags that are direct children of the group */
+  readonly children: ReadonlySet<string>;
+  /** Resume the last leaf at any depth, not just a direct child */
+  readonly deep: boolean;
+  /** State to enter when the group has no usable history */
+  readonly fallback: State;
+  readonly [HistoryTargetSymbol]: true;
+}
+
+/**
+ * Create a history target.
+ */
+export const makeHistoryTarget = <State>(
+  target: Omit<HistoryTarget<State>, HistoryTargetSymbol>,
+): HistoryTarget<State> => ({ ...target, [HistoryTargetSymbol]: true as const });
+
+/**
+ * Type guard for HistoryTarget.
+ */
+export const isHistoryTarget = (value: unknown): value is HistoryTarget<unknown> =>
+  value !== null && typeof value === "object" && HistoryTargetSymbol in value;
+
+// ============================================================================
+// StateGroup brand — compound states created via `Machine.group()`
+// ============================================================================
+
+export const StateGroupTypeId: unique symbol = Symbol.for("effect-machine/StateGroup");
+export type StateGroupTypeId = typeof StateGroupTypeId;
+
+/**
+ * Type guard for StateGroup.
+ */
+export const isStateGroup = (value: unknown): value is StateGroup<{ readonly _tag: string }> =>
+  Array.isArray(value) && StateGroupTypeId in value;
+
 /**
  * Transition handler result.
- * - When Reply is `never`: handler returns plain State (no reply allowed)
+ * - When Reply is `never`: handler returns plain State or a history target (no reply allowed)
  * - When Reply is concrete: handler must return ReplyResult via Machine.reply()
+ *
+ * Effects may fail with a typed error — `.onError()` maps it to a state, otherwise
+ * the actor ends with `ActorExit.Failed`.
  */
 export type TransitionResult<State, R, Reply = never> = [Reply] extends [never]
-  ? State | Effect.Effect<State, never, R>
+  ? State | HistoryTarget<State> | Effect.Effect<State | HistoryTarget<State>, unknown, R>
   :
       | ReplyResult<State, Reply>
       | DeferReplyResult<State>
-      | Effect.Effect<ReplyResult<State, Reply> | DeferReplyResult<State>, never, R>;
+      | Effect.Effect<ReplyResult<State, Reply> | DeferReplyResult<State>, unknown, R>;
 
 // ============================================================================
 // Constants
@@ -118,6 +225,16 @@ export type TransitionResult<State, R, Reply = never> = [Reply] extends [never]
 export const INTERNAL_INIT_EVENT = "$init" as const;
 export const INTERNAL_ENTER_EVENT = "$enter" as const;
 
+/**
+ * Development-only runtime checks (declared transition targets) — off when
+ * `NODE_ENV` is `"production"`.
+ * @internal
+ */
+export const isDevMode = (): boolean =>
+  (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env?.[
+    "NODE_ENV"
+  ] !== "production";
+
 // ============================================================================
 // Runtime Utilities
 // ============================================================================
@@ -146,6 +263,62 @@ export const getTag = (
   }
 };
 
+/**
+ * Apply an optional `{ timeout }` to an operation waiting on an actor. When it
+ * elapses, `abandon` runs (e.g. drops the queued request) and the operation
+ * fails with `ActorTimeoutError`.
+ */
+export const withTimeout = <A, E, R>(
+  self: Effect.Effect<A, E, R>,
+  actorId: string,
+  operation: string,
+  options: { readonly timeout: Duration.Input } | undefined,
+  abandon: Effect.Effect<unknown> = Effect.void,
+): Effect.Effect<A, E | ActorTimeoutError, R> => {
+  if (options === undefined) return self;
+  const timeoutMillis = Duration.toMillis(Duration.fromInputUnsafe(options.timeout));
+  // Abandon only after the race — settling the request inside it would win the race
+  return Effect.timeoutOption(self, options.timeout).pipe(
+    Effect.flatMap((result) =>
+      Option.isSome(result)
+        ? Effect.succeed(result.value)
+        : abandon.pipe(
+            Effect.andThen(
+              Effect.fail(new ActorTimeoutError({ actorId, operation, timeoutMillis })),
+            ),
+          ),
+    ),
+  );
+};
+
+/**
+ * Apply spawn-time input: validate it against the machine's `input` schema and derive
+ * the initial state when `initial` is a function. Fails with `InvalidInputError` when the
+ * input does not decode. Machines without an input-derived initial state are returned as-is.
+ */
+export const resolveInput = <S, E, R, SD extends SlotsDef, O, I>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  machine: Machine<S, E, R, any, any, SD, O, I>,
+  input: unknown,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Effect.Effect<Machine<S, E, R, any, any, SD, O, I>, InvalidInputError, R> =>
+  Effect.gen(function* () {
+    const schema = machine._inputSchema;
+    const decoded =
+      schema === undefined
+        ? input
+        : yield* Schema.decodeUnknownEffect(schema as unknown as Schema.Decoder<unknown>)(
+            input,
+          ).pipe(Effect.mapError((error) => new InvalidInputError({ message: error.message })));
+    const derive = machine._initialFromInput;
+    if (derive === undefined) return machine;
+    const derived = derive(decoded);
+    const initial = Effect.isEffect(derived) ? yield* derived : derived;
+    return Object.create(machine, {
+      initial: { value: initial, enumerable: true },
+    }) as typeof machine;
+  });
+
 /** Check if a value is an Effect */
 export const isEffect: (value: unknown) => value is Effect.Effect<unknown, unknown, unknown> =
   Effect.isEffect;
@@ -165,6 +338,7 @@ export const stubSystem: ActorSystem = {
   get: () => Effect.die("get not supported in stub system"),
   stop: () => Effect.die("stop not supported in stub system"),
   events: Stream.empty,
+  deadLetters: Stream.empty,
   get actors() {
     return new Map();
   },
@@ -0,0 +1,169 @@
+/**
+ * Static machine validation — structural checks over the builder's registrations.
+ *
+ * Transition handlers are opaque functions: reachability follows declared targets
+ * (`.on(state, event, targets, handler)`), and a transition without them — or an
+ * `.always()` — is assumed to reach every state.
+ *
+ * @internal
+ */
+import type { Machine } from "../machine.js";
+import { ancestorsOf } from "./transition.js";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyMachine = Machine<any, any, any, any, any, any, any, any>;
+
+/**
+ * Result of `Machine.validate()`. Each list is empty for a well-formed machine.
+ * Parallel regions report states as `region:State`.
+ */
+export interface ValidationReport {
+  /** True when every list below is empty */
+  readonly valid: boolean;
+  /** States no path from the initial state enters */
+  readonly unreachableStates: ReadonlyArray<string>;
+  /** Non-final states with no transition out (postponed events do not count) */
+  readonly deadEndStates: ReadonlyArray<string>;
+  /** Event variants no `.on()` / `.onAny()` handles in any state */
+  readonly unhandledEvents: ReadonlyArray<string>;
+  /** Transitions registered on final states — they never run. `event` is omitted for `.always()` */
+  readonly finalStateTransitions: ReadonlyArray<{
+    readonly state: string;
+    readonly event?: string;
+  }>;
+  /** Postpone rules whose state is never entered or never left */
+  readonly undrainablePostpones: ReadonlyArray<{ readonly state: string; readonly event: string }>;
+}
+
+const variantTags = (schema: unknown): ReadonlyArray<string> => {
+  const definition = (schema as { readonly _definition?: Record<string, unknown> } | undefined)
+    ?._definition;
+  return definition === undefined ? [] : Object.keys(definition);
+};
+
+/** Leaf states a state or group name covers */
+const leavesOf = (machine: AnyMachine, name: string): ReadonlyArray<string> => {
+  const children = machine._groups.get(name);
+  if (children === undefined) return [name];
+  return children.flatMap((child) => leavesOf(machine, child));
+};
+
+const validateLeaves = (machine: AnyMachine): ValidationReport => {
+  const states = variantTags(machine.stateSchema);
+  const events = variantTags(machine.eventSchema);
+  const finals = machine._finalStates;
+
+  // Ways out of a state: its own, its groups' and wildcard transitions (minus postponed events)
+  const exitsOf = (state: string) => {
+    const scopes = new Set([state, ...ancestorsOf(machine, state), "*"]);
+    const postponed = new Set(
+      machine._postponeRules.filter((r) => scopes.has(r.stateTag)).map((r) => r.eventTag),
+    );
+    return {
+      transitions: machine._transitions.filter(
+        (t) => scopes.has(t.stateTag) && !postponed.has(t.eventTag),
+      ),
+      always: machine._alwaysTransitions.filter((a) => scopes.has(a.stateTag)),
+    };
+  };
+
+  const deadEnds = new Set(
+    states.filter((s) => {
+      if (finals.has(s)) return false;
+      const exits = exitsOf(s);
+      return exits.transitions.length === 0 && exits.always.length === 0;
+    }),
+  );
+
+  const successorsOf = (state: string): ReadonlyArray<string> => {
+    if (finals.has(state)) return [];
+    const { transitions, always } = exitsOf(state);
+    if (always.length > 0 || transitions.some((t) => t.targets === undefined)) return states;
+    return transitions.flatMap((t) => t.targets ?? []);
+  };
+
+  // Reachability from the initial state (every state when it is derived from input)
+  const initial = (machine.initial as { readonly _tag?: string } | undefined)?._tag;
+  const reachable = new Set<string>(initial === undefined ? states : [initial]);
+  const queue = [...reachable];
+  for (let next = queue.shift(); next !== undefined; next = queue.shift()) {
+    for (const target of successorsOf(next)) {
+      if (!reachable.has(target)) {
+        reachable.add(target);
+        queue.push(target);
+      }
+    }
+  }
+
+  const handledEvents = new Set(machine._transitions.map((t) => t.eventTag));
+
+  const finalStateTransitions = [
+    ...machine._transitions
+      .filter((t) => finals.has(t.stateTag))
+      .map((t) => ({ state: t.stateTag, event: t.eventTag })),
+    ...machine._alwaysTransitions
+      .filter((a) => finals.has(a.stateTag))
+      .map((a) => ({ state: a.stateTag })),
+  ];
+
+  const undrainablePostpones = machine._postponeRules
+    .filter((rule) =>
+      leavesOf(machine, rule.stateTag).every((s) => !reachable.has(s) || deadEnds.has(s)),
+    )
+    .map((rule) => ({ state: rule.stateTag, event: rule.eventTag }));
+
+  return makeReport({
+    unreachableStates: states.filter((s) => !reachable.has(s)),
+    deadEndStates: [...deadEnds],
+    unhandledEvents: events.filter((e) => !handledEvents.has(e)),
+    finalStateTransitions,
+    undrainablePostpones,
+  });
+};
+
+const makeReport = (lists: Omit<ValidationReport, "valid">): ValidationReport => ({
+  valid: Object.values(lists).every((list: ReadonlyArray<unknown>) => list.length === 0),
+  ...lists,
+});
+
+/**
+ * Validate a machine's structure without running it.
+ *
+ * Reports unreachable states, dead-end non-final states, events never handled,
+ * transitions out of final states and postpone rules that can never drain.
+ *
+ * @example
+ * ```ts
+ * const report = Machine.validate(machine);
+ * expect(report.deadEndStates).toEqual([]);
+ * expect(report.valid).toBe(true);
+ * ```
+ */
+export const validate = (machine: AnyMachine): ValidationReport => {
+  const regions = machine._regions;
+  if (regions === undefined) return validateLeaves(machine);
+
+  const reports = [...regions].map(([name, region]) => ({
+    name,
+    report: validate(region as AnyMachine),
+  }));
+  const prefixed = (name: string, state: string) => `${name}:${state}`;
+  return makeReport({
+    unreachableStates: reports.flatMap(({ name, report }) =>
+      report.unreachableStates.map((s) => prefixed(name, s)),
+    ),
+    deadEndStates: reports.flatMap(({ name, report }) =>
+      report.deadEndStates.map((s) => prefixed(name, s)),
+    ),
+    // An event is unhandled only if no region handles it
+    unhandledEvents: (reports[0]?.report.unhandledEvents ?? []).filter((event) =>
+      reports.every(({ report }) => report.unhandledEvents.includes(event)),
+    ),
+    finalStateTransitions: reports.flatMap(({ name, report }) =>
+      report.finalStateTransitions.map((t) => ({ ...t, state: prefixed(name, t.state) })),
+    ),
+    undrainablePostpones: reports.flatMap(({ name, report }) =>
+      report.undrainablePostpones.map((p) => ({ ...p, state: prefixed(name, p.state) })),
+    ),
+  });
+};
@@ -42,36 +42,65 @@
  *
  * @module
  */
-import type { Context, Duration } from "effect";
-import { Cause, Effect, Exit, Option, Random, Schema, Scope } from "effect";
+import type { Context } from "effect";
+import { Cause, Duration, Effect, Exit, Option, Random, Schema, Scope } from "effect";
 
-import type { TransitionResult, ReplyResult } from "./internal/utils.js";
-import { getTag, stubSystem, makeReply, makeDeferReply } from "./internal/utils.js";
 import type {
-  TaggedOrConstructor,
-  BrandedState,
-  BrandedEvent,
-  ExtractReply,
-} from "./internal/brands.js";
+  TransitionResult,
+  ReplyResult,
+  HistoryTarget,
+  HandlerReply,
+} from "./internal/utils.js";
+import {
+  getTag,
+  makeReply,
+  makeReplyError,
+  makeDeferReply,
+  makeHistoryTarget,
+  isStateGroup,
+  resolveInput,
+  StateGroupTypeId,
+} from "./internal/utils.js";
+import type { TaggedOrConstructor, BrandedState, BrandedEvent } from "./internal/brands.js";
 import type { MachineStateSchema, MachineEventSchema, VariantsUnion } from "./schema.js";
-import { SlotProvisionError, SlotCodecError, ProvisionValidationError } from "./errors.js";
-import type { DuplicateActorError } from "./errors.js";
 import {
-  invalidateIndex,
-  resolveTransition,
-  runTransitionHandler,
-  shouldPostpone,
-} from "./internal/transition.js";
+  SlotProvisionError,
+  SlotCodecError,
+  ProvisionValidationError,
+  InvalidStateGroupError,
+  InvalidMachineConfigError,
+} from "./errors.js";
+import type { DuplicateActorError } from "./errors.js";
+import { invalidateIndex, replayWithHistory } from "./internal/transition.js";
 import { emitWithTimestamp } from "./internal/inspection.js";
-import type { ActorRef, ActorSystem } from "./actor.js";
+import { registrationInfo } from "./internal/describe.js";
+import type {
+  ActorRef,
+  ActorSystem,
+  MailboxOptions,
+  MailboxSendError,
+  SpawnInputError,
+} from "./actor.js";
 import { Inspector as InspectorTag } from "./inspection.js";
-import type { SlotsDef, SlotsSchema, SlotCalls, ProvideSlots, MachineContext } from "./slot.js";
-import { MachineContextTag } from "./slot.js";
+import type {
+  SlotsDef,
+  SlotFnDef,
+  SlotsSchema,
+  SlotCalls,
+  ProvideSlots,
+  MachineContext,
+} from "./slot.js";
+import { MachineContextTag, Slot } from "./slot.js";
 
 // ============================================================================
 // Core types
 // ============================================================================
 
+/**
+ * Mailbox priority of an event tag — `"high"` events jump ahead of queued `"normal"` ones.
+ */
+export type EventPriority = "high" | "normal";
+
 /**
  * Self reference for sending events back to the machine
  */
@@ -79,17 +108,60 @@ export interface MachineRef<Event> {
   readonly send: (event: Event) => Effect.Effect<void>;
   /** Fire-and-forget alias for send (OTP gen_server:cast). */
   readonly cast: (event: Event) => Effect.Effect<void>;
-  readonly spawn: <S2 extends { readonly _tag: string }, E2 extends { readonly _tag: string }, R2>(
+  /**
+   * Raise an internal event (gen_statem's `next_event`) — processed right after the
+   * current transition, ahead of everything already in the mailbox.
+   */
+  readonly raise: (event: Event) => Effect.Effect<void>;
+  /**
+   * Stash the event being processed — call from a transition or `.onUnhandled()` handler.
+   * The event moves to the postpone buffer, exactly as if a `.postpone()` rule had matched;
+   * the handler's result is discarded.
+   */
+  readonly stash: () => Effect.Effect<void>;
+  /** Retry all stashed and postponed events, ahead of the mailbox. */
+  readonly unstashAll: () => Effect.Effect<void>;
+  /**
+   * Spawn a child actor. With `onOutput`, the child's output is sent back to this
+   * machine as an event once the child reaches a final state.
+   */
+  readonly spawn: <
+    S2 extends { readonly _tag: string },
+    E2 extends { readonly _tag: string },
+    R2,
+    O2 = unknown,
+    I2 = unknown,
+  >(
     id: string,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    machine: Machine<S2, E2, R2, any, any, any>,
-  ) => Effect.Effect<ActorRef<S2, E2>, DuplicateActorError, R2>;
+    machine: Machine<S2, E2, R2, any, any, any, O2, I2>,
+    options?: { readonly input?: I2; readonly onOutput?: (output: O2) => Event },
+  ) => Effect.Effect<ActorRef<S2, E2, O2>, DuplicateActorError | SpawnInputError<I2>, R2>;
   /**
    * Settle a deferred reply from a spawn handler.
    * Only usable when the transition handler returned `Machine.deferReply(state)`.
    * Returns true if a pending reply was settled, false if none was pending.
    */
   readonly reply: (value: unknown) => Effect.Effect<boolean>;
+  /**
+   * Emit an item on a deferred streamed reply (`Event.replyStream()` events, via `askStream`).
+   * Returns true if a stream was pending, false otherwise.
+   */
+  readonly emitReply: (item: unknown) => Effect.Effect<boolean>;
+  /** End the pending streamed reply. Returns true if a stream was pending. */
+  readonly completeReply: () => Effect.Effect<boolean>;
+  /**
+   * Start a named timer (gen_statem's `generic_timeout`) that sends `event` after `duration`.
+   * Timers survive state changes; starting a timer with a pending name restarts it.
+   * Driven by Effect's `Clock`, so `TestClock` controls them.
+   */
+  readonly startTimer: (
+    name: string,
+    duration: Duration.Input,
+    event: Event,
+  ) => Effect.Effect<void>;
+  /** Cancel a named timer. No-op when no timer with that name is pending. */
+  readonly cancelTimer: (name: string) => Effect.Effect<void>;
 }
 
 /**
@@ -101,6 +173,18 @@ export interface HandlerContext<State, Event, SD extends SlotsDef = Record<strin
   readonly slots: SlotCalls<SD>;
 }
 
+/**
+ * Context passed to `.on()` handlers — adds the running machine, e.g. for
+ * `self.stash()` to defer the event being handled
+ */
+export interface TransitionContext<
+  State,
+  Event,
+  SD extends SlotsDef = Record<string, never>,
+> extends HandlerContext<State, Event, SD> {
+  readonly self: MachineRef<Event>;
+}
+
 /**
  * Handler context passed to state effect handlers (onEnter, spawn, background)
  */
@@ -119,7 +203,7 @@ export interface StateHandlerContext<State, Event, SD extends SlotsDef = Record<
  * When Reply is never, handler returns plain state.
  */
 export type TransitionHandler<S, E, NewState, SD extends SlotsDef, R, Reply = never> = (
-  ctx: HandlerContext<S, E, SD>,
+  ctx: TransitionContext<S, E, SD>,
 ) => TransitionResult<NewState, R, Reply>;
 
 /**
@@ -129,6 +213,53 @@ export type StateEffectHandler<S, E, SD extends SlotsDef, R> = (
   ctx: StateHandlerContext<S, E, SD>,
 ) => Effect.Effect<void, never, R>;
 
+/**
+ * Names of slots usable as guards — no params, boolean result.
+ */
+export type GuardSlotName<SD extends SlotsDef> = {
+  readonly [K in keyof SD & string]: SD[K] extends SlotFnDef<infer F, infer Return>
+    ? [keyof F] extends [never]
+      ? [Return] extends [boolean]
+        ? K
+        : never
+      : never
+    : never;
+}[keyof SD & string];
+
+/**
+ * Transition guard — the name of a boolean slot, or a predicate over the handler context.
+ */
+export type TransitionGuard<S, E, SD extends SlotsDef, R> =
+  | GuardSlotName<SD>
+  | ((ctx: HandlerContext<S, E, SD>) => boolean | Effect.Effect<boolean, never, R>);
+
+/**
+ * Guarded transition — pass to `.on()` / `.reenter()` in place of a bare handler.
+ * The handler only runs when the guard passes.
+ */
+export interface GuardedTransition<S, E, NewState, SD extends SlotsDef, R, Reply = never> {
+  readonly guard: TransitionGuard<S, E, SD, R>;
+  readonly handler: TransitionHandler<S, E, NewState, SD, R, Reply>;
+}
+
+/**
+ * Transition handler, or `{ guard, handler }` for a guarded transition.
+ */
+export type TransitionSpec<S, E, NewState, SD extends SlotsDef, R, Reply = never> =
+  | TransitionHandler<S, E, NewState, SD, R, Reply>
+  | GuardedTransition<S, E, NewState, SD, R, Reply>;
+
+/**
+ * Normalized guard stored on a transition
+ */
+export interface TransitionGuardDef<State, Event, SD extends SlotsDef, R> {
+  /** Slot name for named guards, the function name (or `"guard"`) for predicates */
+  readonly name: string;
+  readonly predicate: (
+    ctx: HandlerContext<State, Event, SD>,
+  ) => boolean | Effect.Effect<boolean, never, R>;
+}
+
 /**
  * Transition definition
  */
@@ -137,6 +268,33 @@ export interface Transition<State, Event, SD extends SlotsDef, R> {
   readonly eventTag: string;
   readonly handler: TransitionHandler<State, Event, State, SD, R>;
   readonly reenter?: boolean;
+  /** Declared target state tags — `.on(state, event, targets, handler)` */
+  readonly targets?: ReadonlyArray<string>;
+  /** Guard checked before the handler — a failing guard lets the next candidate match */
+  readonly guard?: TransitionGuardDef<State, Event, SD, R>;
+}
+
+/**
+ * Context passed to `.onError()` handlers — the failing transition's state and event
+ */
+export interface ErrorContext<
+  State,
+  Event,
+  Err,
+  SD extends SlotsDef = Record<string, never>,
+> extends HandlerContext<State, Event, SD> {
+  readonly error: Err;
+}
+
+/**
+ * Error handler registered via `.onError()` — maps a transition's typed failure to a state
+ */
+export interface TransitionErrorHandler<State, Event, SD extends SlotsDef, R> {
+  readonly stateTag: string;
+  /** Error class name or `_tag` the handler matches */
+  readonly error: string;
+  readonly matches: (error: unknown) => boolean;
+  readonly handler: (ctx: ErrorContext<State, Event, unknown, SD>) => TransitionResult<State, R>;
 }
 
 /**
@@ -147,6 +305,32 @@ export interface SpawnEffect<State, Event, SD extends SlotsDef, R> {
   readonly handler: StateEffectHandler<State, Event, SD, R>;
 }
 
+/**
+ * Entry/exit action - runs inline while the event is processed, never forked
+ */
+export interface StateAction<State, Event, SD extends SlotsDef, R> {
+  readonly stateTag: string;
+  readonly handler: StateEffectHandler<State, Event, SD, R>;
+}
+
+/**
+ * Context passed to `.always()` handlers
+ */
+export interface AlwaysContext<State, SD extends SlotsDef = Record<string, never>> {
+  readonly state: State;
+  readonly slots: SlotCalls<SD>;
+}
+
+/**
+ * Eventless transition - checked on entering the state until it returns `undefined`
+ */
+export interface AlwaysTransition<State, SD extends SlotsDef, R> {
+  readonly stateTag: string;
+  readonly handler: (
+    ctx: AlwaysContext<State, SD>,
+  ) => State | undefined | Effect.Effect<State | undefined, never, R>;
+}
+
 /**
  * Background effect - runs for entire machine lifetime
  */
@@ -176,6 +360,10 @@ export interface TaskOptions<State, Event, SD extends SlotsDef, A, E1, ES, EF> {
  */
 export interface Recovery<S> {
   readonly resolve: (ctx: RecoveryContext<S>) => Effect.Effect<Option.Option<S>>;
+  /** Loads the state history saved with `DurabilityCommit.history`. Runs only when `resolve` recovers a state. */
+  readonly resolveHistory?: (
+    ctx: RecoveryContext<S>,
+  ) => Effect.Effect<Option.Option<StateHistory<S>>>;
 }
 
 export interface RecoveryContext<S> {
@@ -198,8 +386,16 @@ export interface DurabilityCommit<S, E> {
   readonly previousState: S;
   readonly nextState: S;
   readonly event: E;
+  /** State history after the transition — persist it to restore `Machine.history()` targets */
+  readonly history: StateHistory<S>;
 }
 
+/**
+ * Most recently entered state per state tag, least recent first.
+ * Read by `Machine.history()` targets; for parallel machines, entries are region states.
+ */
+export type StateHistory<S> = ReadonlyArray<S>;
+
 /**
  * Actor lifecycle configuration.
  */
@@ -221,6 +417,144 @@ export interface TimeoutConfig<State, Event> {
   readonly event: Event | ((state: State) => Event);
 }
 
+/**
+ * Postpone rule registered via `.postpone()` — state tag (or group name), event tag
+ * and an optional runtime condition
+ */
+export interface PostponeRule<State, Event> {
+  readonly stateTag: string;
+  readonly eventTag: string;
+  readonly when?: (state: State, event: Event) => boolean;
+}
+
+/**
+ * Idle timeout registered via `.idleTimeout()` — state tag (or group name) with
+ * resolved duration/event functions
+ */
+export interface IdleTimeout<State, Event> {
+  readonly stateTag: string;
+  readonly duration: (state: State) => Duration.Input;
+  readonly event: (state: State) => Event;
+}
+
+// ============================================================================
+// State groups (compound states)
+// ============================================================================
+
+/**
+ * Compound state — a named parent of leaf states and/or nested groups.
+ * Created via `Machine.group()`.
+ *
+ * A group is an array of its leaf states, so it is accepted anywhere a state list is.
+ * Registering on a group differs from registering on a plain list:
+ * - Transitions bubble: a child's own transition wins, then its ancestors, then `.onAny()`
+ * - Spawn effects and timeouts live in the group's scope — they survive moves between
+ *   children and are cancelled only when the machine leaves the group
+ */
+export interface StateGroup<S extends { readonly _tag: string }> extends ReadonlyArray<
+  TaggedOrConstructor<S>
+> {
+  readonly [StateGroupTypeId]: StateGroupTypeId;
+  readonly name: string;
+  /** Direct children (leaf states or nested groups) */
+  readonly children: ReadonlyArray<TaggedOrConstructor<S> | StateGroup<S>>;
+}
+
+type GroupChildState<C> =
+  C extends StateGroup<infer S> ? S : C extends TaggedOrConstructor<infer S> ? S : never;
+
+/**
+ * Declare a compound state. Children may be states or other groups; the group name
+ * must not collide with a state tag.
+ *
+ * @example
+ * ```ts
+ * const Processing = Machine.group("Processing", [
+ *   State.Charging,
+ *   State.Authorizing,
+ *   State.Capturing,
+ * ])
+ *
+ * machine
+ *   .on(State.Charging, Event.Charged, () => State.Authorizing)
+ *   // Applies to every child of Processing unless the child handles Cancel itself
+ *   .on(Processing, Event.Cancel, () => State.Cancelled)
+ *   // Keeps running across Charging → Authorizing → Capturing
+ *   .timeout(Processing, { duration: "30 seconds", event: Event.Expired })
+ * ```
+ */
+export const group = <
+  const Children extends ReadonlyArray<
+    TaggedOrConstructor<BrandedState> | StateGroup<BrandedState>
+  >,
+>(
+  name: string,
+  children: Children,
+): StateGroup<GroupChildState<Children[number]>> => {
+  const leaves: Array<TaggedOrConstructor<BrandedState>> = [];
+  for (const child of children) {
+    if (isStateGroup(child)) {
+      leaves.push(...(child as StateGroup<BrandedState>));
+    } else {
+      leaves.push(child as TaggedOrConstructor<BrandedState>);
+    }
+  }
+  return Object.assign(leaves, {
+    [StateGroupTypeId]: StateGroupTypeId,
+    name,
+    children,
+  }) as unknown as StateGroup<GroupChildState<Children[number]>>;
+};
+
+/**
+ * History pseudo-state — return it from a transition handler to resume the state
+ * the machine was last in under `stateGroup`.
+ *
+ * - Shallow (default): resumes the last active direct child of the group
+ * - Deep (`{ deep: true }`): resumes the last active state at any depth
+ *
+ * Enters `fallback` when the group has not been visited, or when shallow history
+ * last left it from inside a nested group.
+ *
+ * @example
+ * ```ts
+ * const Editing = Machine.group("Editing", [State.Draft, State.Preview])
+ *
+ * machine
+ *   .on(Editing, Event.OpenHelp, () => State.Help)
+ *   .on(State.Help, Event.CloseHelp, () => Machine.history(Editing, State.Draft))
+ * ```
+ */
+export const history = <S extends BrandedState, F extends BrandedState>(
+  stateGroup: StateGroup<S>,
+  fallback: F,
+  options?: { readonly deep?: boolean },
+): HistoryTarget<S | F> => {
+  const children = new Set<string>();
+  for (const child of stateGroup.children) {
+    if (!isStateGroup(child)) children.add(getTag(child));
+  }
+  return makeHistoryTarget<S | F>({
+    group: stateGroup.name,
+    leaves: new Set(stateGroup.map((state) => getTag(state))),
+    children,
+    deep: options?.deep === true,
+    fallback,
+  });
+};
+
+/** Static parts of a timeout config, for `Machine.describe()` */
+const staticTimeoutOf = (config: TimeoutConfig<never, unknown>) => ({
+  ...(typeof config.duration === "function" ? {} : { duration: config.duration }),
+  ...(typeof config.event === "function"
+    ? {}
+    : { event: getTag(config.event as { readonly _tag: string }) }),
+});
+
+/** Tag (or group name) a builder method was called with */
+const stateNameOf = (state: unknown): string =>
+  isStateGroup(state) ? state.name : getTag(state as { _tag: string });
+
 // ============================================================================
 // Internal helpers
 // ============================================================================
@@ -256,11 +590,19 @@ export interface MakeConfig<
   S extends BrandedState,
   E extends BrandedEvent,
   SLD extends SlotsDef = Record<string, never>,
+  O = void,
+  I = never,
+  RI = never,
 > {
   readonly state: MachineStateSchema<SD> & { Type: S };
   readonly event: MachineEventSchema<ED> & { Type: E };
   readonly slots?: SlotsSchema<SLD>;
-  readonly initial: S;
+  /** Schema of the value final states resolve to — see `.final()` and `actor.awaitOutput` */
+  readonly output?: Schema.Schema<O>;
+  /** Schema of the spawn-time input passed to `spawn(machine, { input })` */
+  readonly input?: Schema.Schema<I>;
+  /** Initial state, or a function deriving it (optionally effectfully) from the spawn-time input */
+  readonly initial: S | ((input: I) => S | Effect.Effect<S, never, RI>);
   /** Validate slot inputs/outputs at runtime. Default: true. Set to false for hot paths. */
   readonly slotValidation?: boolean;
 }
@@ -329,6 +671,26 @@ export const materializeMachine = <S, E, R, SD extends SlotsDef>(
     throw new ProvisionValidationError({ missing, extra });
   }
 
+  // Parallel: materialize each region with its own handlers, then recombine
+  if (machine._regions !== undefined) {
+    const regions: Record<string, RegionMachine> = {};
+    for (const [name, region] of machine._regions) {
+      const definitions = region._slotsSchema?.definitions;
+      regions[name] = materializeMachine(
+        region,
+        definitions === undefined
+          ? undefined
+          : Object.fromEntries(Object.keys(definitions).map((slot) => [slot, handlers[slot]])),
+      );
+    }
+    const parallelResult = parallel(regions);
+    for (const name of requiredSlots) {
+      parallelResult._slotHandlers.set(name, handlers[name]);
+    }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return parallelResult as any;
+  }
+
   // Create fresh copy to avoid mutation bleed between actors
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const result = new Machine<S, E, never, any, any, SD>(
@@ -337,7 +699,12 @@ export const materializeMachine = <S, E, R, SD extends SlotsDef>(
     machine.eventSchema,
     machine._slotsSchema,
     machine._slotValidation,
+    machine._outputSchema,
   );
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._inputSchema = machine._inputSchema;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._initialFromInput = machine._initialFromInput;
 
   // Copy arrays/sets
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -345,13 +712,39 @@ export const materializeMachine = <S, E, R, SD extends SlotsDef>(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   (result as any)._finalStates = new Set(machine._finalStates);
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._finalOutputs = new Map(machine._finalOutputs);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
   (result as any)._spawnEffects = [...machine._spawnEffects];
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._errorHandlers = [...machine._errorHandlers];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._enterActions = [...machine._enterActions];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._exitActions = [...machine._exitActions];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._alwaysTransitions = [...machine._alwaysTransitions];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._idleTimeouts = [...machine._idleTimeouts];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
   (result as any)._backgroundEffects = [...machine._backgroundEffects];
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   (result as any)._postponeRules = [...machine._postponeRules];
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._priorities = new Map(machine._priorities);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._conflations = new Map(machine._conflations);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._unhandledHandlers = [...machine._unhandledHandlers];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
   (result as any)._replySchemas = machine._replySchemas;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._replyErrorSchemas = machine._replyErrorSchemas;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._replyStreamSchemas = machine._replyStreamSchemas;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._groups = new Map(machine._groups);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (result as any)._stateParents = new Map(machine._stateParents);
 
   // Register handlers — single map
   if (machine._slotsSchema !== undefined) {
@@ -363,6 +756,24 @@ export const materializeMachine = <S, E, R, SD extends SlotsDef>(
   return result;
 };
 
+/**
+ * Normalize a guard to its stored form. Named guards call the slot of that name.
+ * @internal
+ */
+const toGuardDef = <S, E, SD extends SlotsDef, R>(
+  guard: TransitionGuard<S, E, SD, R>,
+): TransitionGuardDef<S, E, SD, R> => {
+  if (typeof guard === "string") {
+    return {
+      name: guard,
+      predicate: ({ slots }) =>
+        (slots as unknown as Record<string, () => Effect.Effect<boolean>>)[guard]?.() ??
+        Effect.die(`Guard slot "${guard}" is not defined`),
+    };
+  }
+  return { name: guard.name === "" ? "guard" : guard.name, predicate: guard };
+};
+
 // ============================================================================
 // Machine class
 // ============================================================================
@@ -377,6 +788,8 @@ export const materializeMachine = <S, E, R, SD extends SlotsDef>(
  * - `_SD`: State schema definition (for compile-time validation)
  * - `_ED`: Event schema definition (for compile-time validation)
  * - `SD`: Slot definitions
+ * - `Output`: Value a final state resolves to (`Machine.make({ output })` + `.final()`)
+ * - `Input`: Spawn-time value the initial state is derived from (`Machine.make({ input })`)
  */
 export class Machine<
   State,
@@ -385,16 +798,33 @@ export class Machine<
   _SD extends Record<string, Schema.Struct.Fields> = Record<string, Schema.Struct.Fields>,
   _ED extends Record<string, Schema.Struct.Fields> = Record<string, Schema.Struct.Fields>,
   SD extends SlotsDef = Record<string, never>,
+  Output = unknown,
+  Input = unknown,
 > {
+  /** Fixed initial state — `undefined` when `initial` is derived from spawn-time input */
   readonly initial: State;
   /** @internal */ readonly _transitions: Array<Transition<State, Event, SD, R>>;
+  /** @internal */ readonly _errorHandlers: Array<TransitionErrorHandler<State, Event, SD, R>>;
   /** @internal */ readonly _spawnEffects: Array<SpawnEffect<State, Event, SD, R>>;
+  /** @internal */ readonly _enterActions: Array<StateAction<State, Event, SD, R>>;
+  /** @internal */ readonly _exitActions: Array<StateAction<State, Event, SD, R>>;
+  /** @internal */ readonly _alwaysTransitions: Array<AlwaysTransition<State, SD, R>>;
+  /** @internal */ readonly _idleTimeouts: Array<IdleTimeout<State, Event>>;
   /** @internal */ readonly _backgroundEffects: Array<BackgroundEffect<State, Event, SD, R>>;
   /** @internal */ readonly _finalStates: Set<string>;
-  /** @internal */ readonly _postponeRules: Array<{
-    readonly stateTag: string;
-    readonly eventTag: string;
-  }>;
+  /** @internal */ readonly _finalOutputs: Map<string, (ctx: { readonly state: State }) => Output>;
+  /** @internal */ readonly _outputSchema?: Schema.Decoder<unknown>;
+  /** @internal */ readonly _inputSchema?: Schema.Schema<Input>;
+  /** @internal */ readonly _initialFromInput?: (
+    input: unknown,
+  ) => State | Effect.Effect<State, never, R>;
+  /** @internal */ readonly _postponeRules: Array<PostponeRule<State, Event>>;
+  /** @internal */ readonly _priorities: Map<string, EventPriority>;
+  /** @internal */ readonly _conflations: Map<string, { readonly key: string | undefined }>;
+  /** @internal */ readonly _unhandledHandlers: Array<StateEffectHandler<State, Event, SD, R>>;
+  /** @internal */ readonly _groups: Map<string, ReadonlyArray<string>>;
+  /** @internal */ readonly _stateParents: Map<string, string>;
+  /** @internal */ readonly _regions?: ReadonlyMap<string, RegionMachine>;
   /** @internal */ readonly _slotsSchema?: SlotsSchema<SD>;
   /** @internal */ readonly _slotHandlers: Map<
     string,
@@ -405,6 +835,11 @@ export class Machine<
   readonly stateSchema?: Schema.Schema<State>;
   readonly eventSchema?: Schema.Schema<Event>;
   /** @internal */ readonly _replySchemas: ReadonlyMap<string, Schema.Decoder<unknown>>;
+  /** @internal */ readonly _replyErrorSchemas: ReadonlyMap<string, Schema.Codec<unknown, unknown>>;
+  /** @internal */ readonly _replyStreamSchemas: ReadonlyMap<
+    string,
+    Schema.Codec<unknown, unknown>
+  >;
 
   /**
    * Context tag for accessing machine state/event/self in slot handlers.
@@ -422,24 +857,71 @@ export class Machine<
   get transitions(): ReadonlyArray<Transition<State, Event, SD, R>> {
     return this._transitions;
   }
+  get errorHandlers(): ReadonlyArray<TransitionErrorHandler<State, Event, SD, R>> {
+    return this._errorHandlers;
+  }
   get spawnEffects(): ReadonlyArray<SpawnEffect<State, Event, SD, R>> {
     return this._spawnEffects;
   }
+  get enterActions(): ReadonlyArray<StateAction<State, Event, SD, R>> {
+    return this._enterActions;
+  }
+  get exitActions(): ReadonlyArray<StateAction<State, Event, SD, R>> {
+    return this._exitActions;
+  }
+  get alwaysTransitions(): ReadonlyArray<AlwaysTransition<State, SD, R>> {
+    return this._alwaysTransitions;
+  }
+  get idleTimeouts(): ReadonlyArray<IdleTimeout<State, Event>> {
+    return this._idleTimeouts;
+  }
   get backgroundEffects(): ReadonlyArray<BackgroundEffect<State, Event, SD, R>> {
     return this._backgroundEffects;
   }
   get finalStates(): ReadonlySet<string> {
     return this._finalStates;
   }
-  get postponeRules(): ReadonlyArray<{ readonly stateTag: string; readonly eventTag: string }> {
+  get outputSchema(): Schema.Decoder<unknown> | undefined {
+    return this._outputSchema;
+  }
+  get inputSchema(): Schema.Schema<Input> | undefined {
+    return this._inputSchema;
+  }
+  get postponeRules(): ReadonlyArray<PostponeRule<State, Event>> {
     return this._postponeRules;
   }
+  /** Event tag → mailbox priority (tags without an entry are `"normal"`) */
+  get priorities(): ReadonlyMap<string, EventPriority> {
+    return this._priorities;
+  }
+  /** Conflated event tags → optional payload key field */
+  get conflations(): ReadonlyMap<string, { readonly key: string | undefined }> {
+    return this._conflations;
+  }
+  /** Handlers registered with `.onUnhandled()`, in registration order */
+  get unhandledHandlers(): ReadonlyArray<StateEffectHandler<State, Event, SD, R>> {
+    return this._unhandledHandlers;
+  }
+  /** Compound states: group name → direct child names (state tags or group names) */
+  get groups(): ReadonlyMap<string, ReadonlyArray<string>> {
+    return this._groups;
+  }
+  /** Parallel regions: region name → region machine (`Machine.parallel()` only) */
+  get regions(): ReadonlyMap<string, RegionMachine> | undefined {
+    return this._regions;
+  }
   get slotsSchema(): SlotsSchema<SD> | undefined {
     return this._slotsSchema;
   }
   get replySchemas(): ReadonlyMap<string, Schema.Decoder<unknown>> {
     return this._replySchemas;
   }
+  get replyErrorSchemas(): ReadonlyMap<string, Schema.Codec<unknown, unknown>> {
+    return this._replyErrorSchemas;
+  }
+  get replyStreamSchemas(): ReadonlyMap<string, Schema.Codec<unknown, unknown>> {
+    return this._replyStreamSchemas;
+  }
 
   /** @internal */
   constructor(
@@ -448,16 +930,33 @@ export class Machine<
     eventSchema?: Schema.Schema<Event>,
     slotsSchema?: SlotsSchema<SD>,
     slotValidation = true,
+    outputSchema?: Schema.Decoder<unknown>,
   ) {
     this.initial = initial;
     this._transitions = [];
+    this._errorHandlers = [];
     this._spawnEffects = [];
+    this._enterActions = [];
+    this._exitActions = [];
+    this._alwaysTransitions = [];
+    this._idleTimeouts = [];
     this._backgroundEffects = [];
     this._finalStates = new Set();
+    this._finalOutputs = new Map();
+    this._outputSchema = outputSchema;
     this._postponeRules = [];
+    this._priorities = new Map();
+    this._conflations = new Map();
+    this._unhandledHandlers = [];
+    this._groups = new Map();
+    this._stateParents = new Map();
     this._slotsSchema = slotsSchema;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     this._replySchemas = (eventSchema as any)?._replySchemas ?? new Map();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    this._replyErrorSchemas = (eventSchema as any)?._replyErrorSchemas ?? new Map();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    this._replyStreamSchemas = (eventSchema as any)?._replyStreamSchemas ?? new Map();
     this._slotHandlers = new Map();
     this._slotValidation = slotValidation;
     this.stateSchema = stateSchema;
@@ -565,7 +1064,7 @@ export class Machine<
   from<NS extends VariantsUnion<_SD> & BrandedState, R1>(
     state: TaggedOrConstructor<NS>,
     build: (scope: TransitionScope<State, Event, R, _SD, _ED, SD, NS>) => R1,
-  ): Machine<State, Event, R, _SD, _ED, SD>;
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
   from<NS extends ReadonlyArray<TaggedOrConstructor<VariantsUnion<_SD> & BrandedState>>, R1>(
     states: NS,
     build: (
@@ -581,7 +1080,7 @@ export class Machine<
           : never
       >,
     ) => R1,
-  ): Machine<State, Event, R, _SD, _ED, SD>;
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
   from(
     stateOrStates:
       | TaggedOrConstructor<VariantsUnion<_SD> & BrandedState>
@@ -590,7 +1089,8 @@ export class Machine<
       scope: TransitionScope<State, Event, R, _SD, _ED, SD, VariantsUnion<_SD> & BrandedState>,
     ) => unknown,
   ) {
-    const states = Array.isArray(stateOrStates) ? stateOrStates : [stateOrStates];
+    const states =
+      isStateGroup(stateOrStates) || Array.isArray(stateOrStates) ? stateOrStates : [stateOrStates];
     build(new TransitionScope(this, states));
     return this;
   }
@@ -603,14 +1103,14 @@ export class Machine<
   >(
     states: ReadonlyArray<TaggedOrConstructor<NS>>,
     event: TaggedOrConstructor<NE>,
-    handler: TransitionHandler<NS, NE, RS, SD, never, ExtractReply<NE>>,
+    handler: TransitionSpec<NS, NE, RS, SD, never, HandlerReply<NE>>,
     reenter: boolean,
-  ): Machine<State, Event, R, _SD, _ED, SD> {
-    for (const state of states) {
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    for (const stateTag of this.stateTagsOf(states)) {
       this.addTransition(
-        state,
+        stateTag,
         event,
-        handler as TransitionHandler<NS, NE, BrandedState, SD, never>,
+        handler as TransitionSpec<NS, NE, BrandedState, SD, never>,
         reenter,
       );
     }
@@ -625,8 +1125,8 @@ export class Machine<
   >(
     state: TaggedOrConstructor<NS>,
     event: TaggedOrConstructor<NE>,
-    handler: TransitionHandler<NS, NE, RS, SD, never, ExtractReply<NE>>,
-  ): Machine<State, Event, R, _SD, _ED, SD>;
+    handler: TransitionSpec<NS, NE, RS, SD, never, HandlerReply<NE>>,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
   /** Register transition for multiple states (handler receives union of state types) */
   on<
     NS extends ReadonlyArray<TaggedOrConstructor<VariantsUnion<_SD> & BrandedState>>,
@@ -635,20 +1135,69 @@ export class Machine<
   >(
     states: NS,
     event: TaggedOrConstructor<NE>,
-    handler: TransitionHandler<
+    handler: TransitionSpec<
       NS[number] extends TaggedOrConstructor<infer S> ? S : never,
       NE,
       RS,
       SD,
       never,
-      ExtractReply<NE>
+      HandlerReply<NE>
     >,
-  ): Machine<State, Event, R, _SD, _ED, SD>;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  on(stateOrStates: any, event: any, handler: any): Machine<State, Event, R, _SD, _ED, SD> {
-    const states = Array.isArray(stateOrStates) ? stateOrStates : [stateOrStates];
-    for (const s of states) {
-      this.addTransition(s, event, handler, false);
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
+  /**
+   * Register transition with declared targets — the handler may only return those variants.
+   * Targets feed `Machine.validate()` reachability; returning another variant is a defect
+   * outside production (`NODE_ENV`).
+   */
+  on<
+    NS extends VariantsUnion<_SD> & BrandedState,
+    NE extends VariantsUnion<_ED> & BrandedEvent,
+    const RT extends ReadonlyArray<TaggedOrConstructor<VariantsUnion<_SD> & BrandedState>>,
+  >(
+    state: TaggedOrConstructor<NS>,
+    event: TaggedOrConstructor<NE>,
+    targets: RT,
+    handler: TransitionSpec<
+      NS,
+      NE,
+      RT[number] extends TaggedOrConstructor<infer T> ? T : never,
+      SD,
+      never,
+      HandlerReply<NE>
+    >,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
+  /** Register transition with declared targets for multiple states */
+  on<
+    NS extends ReadonlyArray<TaggedOrConstructor<VariantsUnion<_SD> & BrandedState>>,
+    NE extends VariantsUnion<_ED> & BrandedEvent,
+    const RT extends ReadonlyArray<TaggedOrConstructor<VariantsUnion<_SD> & BrandedState>>,
+  >(
+    states: NS,
+    event: TaggedOrConstructor<NE>,
+    targets: RT,
+    handler: TransitionSpec<
+      NS[number] extends TaggedOrConstructor<infer S> ? S : never,
+      NE,
+      RT[number] extends TaggedOrConstructor<infer T> ? T : never,
+      SD,
+      never,
+      HandlerReply<NE>
+    >,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
+  /* eslint-disable @typescript-eslint/no-explicit-any */
+  on(
+    stateOrStates: any,
+    event: any,
+    targetsOrHandler: any,
+    handler?: any,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    /* eslint-enable @typescript-eslint/no-explicit-any */
+    const targets =
+      handler === undefined
+        ? undefined
+        : (targetsOrHandler as ReadonlyArray<unknown>).map(stateNameOf);
+    for (const stateTag of this.stateTagsOf(stateOrStates)) {
+      this.addTransition(stateTag, event, handler ?? targetsOrHandler, false, targets);
     }
     return this;
   }
@@ -667,8 +1216,8 @@ export class Machine<
   >(
     state: TaggedOrConstructor<NS>,
     event: TaggedOrConstructor<NE>,
-    handler: TransitionHandler<NS, NE, RS, SD, never, ExtractReply<NE>>,
-  ): Machine<State, Event, R, _SD, _ED, SD>;
+    handler: TransitionSpec<NS, NE, RS, SD, never, HandlerReply<NE>>,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
   /** Multiple states */
   reenter<
     NS extends ReadonlyArray<TaggedOrConstructor<VariantsUnion<_SD> & BrandedState>>,
@@ -677,21 +1226,24 @@ export class Machine<
   >(
     states: NS,
     event: TaggedOrConstructor<NE>,
-    handler: TransitionHandler<
+    handler: TransitionSpec<
       NS[number] extends TaggedOrConstructor<infer S> ? S : never,
       NE,
       RS,
       SD,
       never,
-      ExtractReply<NE>
+      HandlerReply<NE>
     >,
-  ): Machine<State, Event, R, _SD, _ED, SD>;
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
   /* eslint-disable @typescript-eslint/no-explicit-any */
-  reenter(stateOrStates: any, event: any, handler: any): Machine<State, Event, R, _SD, _ED, SD> {
+  reenter(
+    stateOrStates: any,
+    event: any,
+    handler: any,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
     /* eslint-enable @typescript-eslint/no-explicit-any */
-    const states = Array.isArray(stateOrStates) ? stateOrStates : [stateOrStates];
-    for (const s of states) {
-      this.addTransition(s, event, handler, true);
+    for (const stateTag of this.stateTagsOf(stateOrStates)) {
+      this.addTransition(stateTag, event, handler, true);
     }
     return this;
   }
@@ -704,36 +1256,140 @@ export class Machine<
    */
   onAny<NE extends VariantsUnion<_ED> & BrandedEvent, RS extends VariantsUnion<_SD> & BrandedState>(
     event: TaggedOrConstructor<NE>,
-    handler: TransitionHandler<VariantsUnion<_SD> & BrandedState, NE, RS, SD, never>,
-  ): Machine<State, Event, R, _SD, _ED, SD> {
-    const eventTag = getTag(event);
-    const transition: Transition<State, Event, SD, R> = {
-      stateTag: "*",
-      eventTag,
-      handler: handler as unknown as Transition<State, Event, SD, R>["handler"],
-      reenter: false,
-    };
+    handler: TransitionSpec<VariantsUnion<_SD> & BrandedState, NE, RS, SD, never>,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    return this.addTransition("*", event, handler, false);
+  }
+
+  // ---- onError ----
+
+  /**
+   * Map a typed failure of a transition handler in the state (or a state in the group)
+   * to a new state. The failed handler's state is discarded, so the transition either
+   * completes or moves to the error state — never half of both.
+   *
+   * Match by error class or by `_tag`. Handlers on the state are tried before
+   * enclosing groups; a failure nothing handles ends the actor with `ActorExit.Failed`.
+   *
+   * @example
+   * ```ts
+   * machine
+   *   .on(State.Paying, Event.Pay, ({ state }) => charge(state).pipe(Effect.as(State.Paid)))
+   *   .onError(State.Paying, PaymentDeclined, ({ error }) => State.Declined({ reason: error.reason }))
+   * ```
+   */
+  onError<
+    NS extends VariantsUnion<_SD> & BrandedState,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    (this._transitions as any[]).push(transition);
+    C extends abstract new (...args: any) => unknown,
+    RS extends VariantsUnion<_SD> & BrandedState,
+  >(
+    state: TaggedOrConstructor<NS> | StateGroup<NS>,
+    error: C,
+    handler: (ctx: ErrorContext<NS, Event, InstanceType<C>, SD>) => TransitionResult<RS, never>,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
+  onError<
+    NS extends VariantsUnion<_SD> & BrandedState,
+    const Tag extends string,
+    RS extends VariantsUnion<_SD> & BrandedState,
+  >(
+    state: TaggedOrConstructor<NS> | StateGroup<NS>,
+    error: Tag,
+    handler: (
+      ctx: ErrorContext<NS, Event, { readonly _tag: Tag }, SD>,
+    ) => TransitionResult<RS, never>,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
+  /* eslint-disable @typescript-eslint/no-explicit-any */
+  onError(
+    state: any,
+    error: any,
+    handler: any,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    /* eslint-enable @typescript-eslint/no-explicit-any */
+    const matches =
+      typeof error === "string"
+        ? (e: unknown) =>
+            typeof e === "object" && e !== null && (e as { readonly _tag?: unknown })._tag === error
+        : (e: unknown) => e instanceof error;
+    for (const stateTag of this.stateTagsOf(state)) {
+      this._errorHandlers.push({
+        stateTag,
+        error: typeof error === "string" ? error : error.name,
+        matches,
+        handler,
+      });
+    }
+    return this;
+  }
+
+  // ---- always ----
+
+  /**
+   * Eventless transition — evaluated right after the state (or a state in the group)
+   * is entered, and after every self-transition, until every handler returns `undefined`.
+   * Each returned state is a microstep with the full exit/enter lifecycle; a machine
+   * that keeps stepping defects with `AlwaysLoopError`.
+   *
+   * @example
+   * ```ts
+   * machine.always(State.Validating, ({ state }) =>
+   *   state.input.length > 0 ? State.Valid(state) : State.Invalid(state),
+   * );
+   * ```
+   */
+  /** Single state */
+  always<
+    NS extends VariantsUnion<_SD> & BrandedState,
+    RS extends VariantsUnion<_SD> & BrandedState,
+  >(
+    state: TaggedOrConstructor<NS>,
+    handler: (
+      ctx: AlwaysContext<NS, SD>,
+    ) => RS | undefined | Effect.Effect<RS | undefined, never, never>,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
+  /** Multiple states */
+  always<
+    NS extends ReadonlyArray<TaggedOrConstructor<VariantsUnion<_SD> & BrandedState>>,
+    RS extends VariantsUnion<_SD> & BrandedState,
+  >(
+    states: NS,
+    handler: (
+      ctx: AlwaysContext<NS[number] extends TaggedOrConstructor<infer S> ? S : never, SD>,
+    ) => RS | undefined | Effect.Effect<RS | undefined, never, never>,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  always(stateOrStates: any, handler: any): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    for (const stateTag of this.stateTagsOf(stateOrStates)) {
+      this._alwaysTransitions.push({
+        stateTag,
+        handler: handler as AlwaysTransition<State, SD, R>["handler"],
+      });
+    }
     invalidateIndex(this);
     return this;
   }
 
   /** @internal */
   private addTransition<NS extends BrandedState, NE extends BrandedEvent>(
-    state: TaggedOrConstructor<NS>,
+    stateTag: string,
     event: TaggedOrConstructor<NE>,
-    handler: TransitionHandler<NS, NE, BrandedState, SD, never>,
+    spec: TransitionSpec<NS, NE, BrandedState, SD, never>,
     reenter: boolean,
-  ): Machine<State, Event, R, _SD, _ED, SD> {
-    const stateTag = getTag(state);
+    targets?: ReadonlyArray<string>,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
     const eventTag = getTag(event);
+    const handler = typeof spec === "function" ? spec : spec.handler;
+    const guard = typeof spec === "function" ? undefined : toGuardDef(spec.guard);
 
     const transition: Transition<State, Event, SD, R> = {
       stateTag,
       eventTag,
       handler: handler as unknown as Transition<State, Event, SD, R>["handler"],
       reenter,
+      ...(targets === undefined ? {} : { targets }),
+      ...(guard === undefined
+        ? {}
+        : { guard: guard as unknown as TransitionGuardDef<State, Event, SD, R> }),
     };
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -743,7 +1399,61 @@ export class Machine<
     return this;
   }
 
-  // ---- spawn ----
+  /**
+   * Normalize a builder's state argument to the tags it registers under.
+   * Groups register once under their own name (and record their hierarchy).
+   * @internal
+   */
+  private stateTagsOf(stateOrStates: unknown): ReadonlyArray<string> {
+    if (isStateGroup(stateOrStates)) {
+      this.registerGroup(stateOrStates);
+      return [stateOrStates.name];
+    }
+    const states = Array.isArray(stateOrStates) ? stateOrStates : [stateOrStates];
+    return states.map(stateNameOf);
+  }
+
+  /** @internal */
+  private registerGroup(stateGroup: StateGroup<{ readonly _tag: string }>): void {
+    const children = stateGroup.children.map(stateNameOf);
+    const existing = this._groups.get(stateGroup.name);
+    if (existing !== undefined) {
+      if (existing.length === children.length && existing.every((c, i) => c === children[i])) {
+        return;
+      }
+      throw new InvalidStateGroupError({
+        group: stateGroup.name,
+        message: `Group "${stateGroup.name}" is already declared with different children`,
+      });
+    }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const variants: Record<string, unknown> | undefined = (this.stateSchema as any)?._definition;
+    if (variants !== undefined && stateGroup.name in variants) {
+      throw new InvalidStateGroupError({
+        group: stateGroup.name,
+        message: `Group name "${stateGroup.name}" collides with a state tag`,
+      });
+    }
+    for (const child of children) {
+      const parent = this._stateParents.get(child);
+      if (parent !== undefined && parent !== stateGroup.name) {
+        throw new InvalidStateGroupError({
+          group: stateGroup.name,
+          message: `"${child}" already belongs to group "${parent}"`,
+        });
+      }
+    }
+    this._groups.set(stateGroup.name, children);
+    for (const child of children) {
+      this._stateParents.set(child, stateGroup.name);
+    }
+    for (const child of stateGroup.children) {
+      if (isStateGroup(child)) this.registerGroup(child);
+    }
+    invalidateIndex(this);
+  }
+
+  // ---- spawn ----
 
   /**
    * State-scoped effect that is forked on state entry and automatically cancelled on state exit.
@@ -763,7 +1473,7 @@ export class Machine<
   spawn<NS extends VariantsUnion<_SD> & BrandedState>(
     state: TaggedOrConstructor<NS>,
     handler: StateEffectHandler<NS, VariantsUnion<_ED> & BrandedEvent, SD, Scope.Scope>,
-  ): Machine<State, Event, R, _SD, _ED, SD>;
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
   /** Multiple states */
   spawn<NS extends ReadonlyArray<TaggedOrConstructor<VariantsUnion<_SD> & BrandedState>>>(
     states: NS,
@@ -773,12 +1483,10 @@ export class Machine<
       SD,
       Scope.Scope
     >,
-  ): Machine<State, Event, R, _SD, _ED, SD>;
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  spawn(stateOrStates: any, handler: any): Machine<State, Event, R, _SD, _ED, SD> {
-    const states = Array.isArray(stateOrStates) ? stateOrStates : [stateOrStates];
-    for (const s of states) {
-      const stateTag = getTag(s);
+  spawn(stateOrStates: any, handler: any): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    for (const stateTag of this.stateTagsOf(stateOrStates)) {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       (this._spawnEffects as any[]).push({
         stateTag,
@@ -789,6 +1497,80 @@ export class Machine<
     return this;
   }
 
+  // ---- onEnter / onExit ----
+
+  /**
+   * Action run inline whenever the state (or group) is entered — after exit actions
+   * of the previous state, before spawn effects fork and before the next event is taken.
+   * Receives the event that caused the entry. Also runs for the initial state on start.
+   * Like spawn effects, actions only run in live actors — not in `simulate` or `replay`.
+   *
+   * @example
+   * ```ts
+   * machine.onEnter(State.Paid, ({ state }) => Metrics.increment("orders.paid"));
+   * ```
+   */
+  /** Single state */
+  onEnter<NS extends VariantsUnion<_SD> & BrandedState>(
+    state: TaggedOrConstructor<NS>,
+    handler: StateEffectHandler<NS, VariantsUnion<_ED> & BrandedEvent, SD, never>,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
+  /** Multiple states */
+  onEnter<NS extends ReadonlyArray<TaggedOrConstructor<VariantsUnion<_SD> & BrandedState>>>(
+    states: NS,
+    handler: StateEffectHandler<
+      NS[number] extends TaggedOrConstructor<infer S> ? S : never,
+      VariantsUnion<_ED> & BrandedEvent,
+      SD,
+      never
+    >,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  onEnter(stateOrStates: any, handler: any): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    return this.addStateActions(this._enterActions, stateOrStates, handler);
+  }
+
+  /**
+   * Action run inline whenever the state (or group) is exited by a transition —
+   * before state-scoped effects are cancelled and before entry actions of the next state.
+   * Receives the current state and the event that caused the exit.
+   */
+  /** Single state */
+  onExit<NS extends VariantsUnion<_SD> & BrandedState>(
+    state: TaggedOrConstructor<NS>,
+    handler: StateEffectHandler<NS, VariantsUnion<_ED> & BrandedEvent, SD, never>,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
+  /** Multiple states */
+  onExit<NS extends ReadonlyArray<TaggedOrConstructor<VariantsUnion<_SD> & BrandedState>>>(
+    states: NS,
+    handler: StateEffectHandler<
+      NS[number] extends TaggedOrConstructor<infer S> ? S : never,
+      VariantsUnion<_ED> & BrandedEvent,
+      SD,
+      never
+    >,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  onExit(stateOrStates: any, handler: any): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    return this.addStateActions(this._exitActions, stateOrStates, handler);
+  }
+
+  /** @internal */
+  private addStateActions(
+    actions: Array<StateAction<State, Event, SD, R>>,
+    stateOrStates: unknown,
+    handler: unknown,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    for (const stateTag of this.stateTagsOf(stateOrStates)) {
+      actions.push({
+        stateTag,
+        handler: handler as StateAction<State, Event, SD, R>["handler"],
+      });
+    }
+    invalidateIndex(this);
+    return this;
+  }
+
   // ---- task ----
 
   /**
@@ -813,7 +1595,7 @@ export class Machine<
       ctx: StateHandlerContext<NS, VariantsUnion<_ED> & BrandedEvent, SD>,
     ) => Effect.Effect<A, E1, Scope.Scope>,
     options: TaskOptions<NS, VariantsUnion<_ED> & BrandedEvent, SD, A, E1, ES, EF>,
-  ): Machine<State, Event, R, _SD, _ED, SD>;
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
   /** Multiple states, explicit onSuccess */
   task<
     NS extends ReadonlyArray<TaggedOrConstructor<VariantsUnion<_SD> & BrandedState>>,
@@ -839,9 +1621,14 @@ export class Machine<
       ES,
       EF
     >,
-  ): Machine<State, Event, R, _SD, _ED, SD>;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  task(stateOrStates: any, run: any, options: any): Machine<State, Event, R, _SD, _ED, SD> {
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input>;
+  /* eslint-disable @typescript-eslint/no-explicit-any */
+  task(
+    stateOrStates: any,
+    run: any,
+    options: any,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    /* eslint-enable @typescript-eslint/no-explicit-any */
     const handler = Effect.fn("effect-machine.task")(function* (
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       ctx: StateHandlerContext<any, any, SD>,
@@ -896,6 +1683,8 @@ export class Machine<
       return yield* Effect.failCause(cause).pipe(Effect.orDie);
     });
 
+    registrationInfo.set(handler, { task: options.name });
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     return this.spawn(stateOrStates, handler as any);
   }
@@ -924,10 +1713,10 @@ export class Machine<
    * ```
    */
   timeout<NS extends VariantsUnion<_SD> & BrandedState>(
-    state: TaggedOrConstructor<NS>,
+    state: TaggedOrConstructor<NS> | StateGroup<NS>,
     config: TimeoutConfig<NS, VariantsUnion<_ED> & BrandedEvent>,
-  ): Machine<State, Event, R, _SD, _ED, SD> {
-    const stateTag = getTag(state);
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    const stateTag = stateNameOf(state);
     const resolveDuration =
       typeof config.duration === "function"
         ? (config.duration as (state: NS) => Duration.Input)
@@ -938,11 +1727,62 @@ export class Machine<
         : () => config.event as VariantsUnion<_ED> & BrandedEvent;
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return (this as any).task(state, (ctx: any) => Effect.sleep(resolveDuration(ctx.state)), {
+    (this as any).task(state, (ctx: any) => Effect.sleep(resolveDuration(ctx.state)), {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       onSuccess: (_: void, ctx: any) => resolveEvent(ctx.state),
       name: `$timeout:${stateTag}`,
     });
+    const timer = this._spawnEffects[this._spawnEffects.length - 1]?.handler;
+    if (timer !== undefined) {
+      registrationInfo.set(timer, {
+        ...registrationInfo.get(timer),
+        timeout: staticTimeoutOf(config),
+      });
+    }
+    return this;
+  }
+
+  // ---- idleTimeout ----
+
+  /**
+   * Event timeout — gen_statem's `event_timeout`.
+   *
+   * Fires when no event is processed within `duration` while in the state.
+   * Every processed event restarts the window (postponed events do not); leaving the state
+   * cancels it. The timeout's own event does not restart it unless it leaves or re-enters
+   * the state, so it fires once per stretch of inactivity. Emits `@machine.task` events named `$idle:<state>`, with a `"reset"` phase
+   * each time an event restarts the window.
+   *
+   * @example
+   * ```ts
+   * machine.idleTimeout(State.Typing, {
+   *   duration: "2 seconds",
+   *   event: Event.Commit,
+   * })
+   * ```
+   */
+  idleTimeout<NS extends VariantsUnion<_SD> & BrandedState>(
+    state: TaggedOrConstructor<NS> | StateGroup<NS>,
+    config: TimeoutConfig<NS, VariantsUnion<_ED> & BrandedEvent>,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    const resolveDuration =
+      typeof config.duration === "function"
+        ? (config.duration as (state: NS) => Duration.Input)
+        : () => config.duration as Duration.Input;
+    const resolveEvent =
+      typeof config.event === "function"
+        ? (config.event as (state: NS) => VariantsUnion<_ED> & BrandedEvent)
+        : () => config.event as VariantsUnion<_ED> & BrandedEvent;
+
+    if (isStateGroup(state)) this.registerGroup(state);
+    const entry = {
+      stateTag: stateNameOf(state),
+      duration: resolveDuration,
+      event: resolveEvent,
+    } as unknown as IdleTimeout<State, Event>;
+    registrationInfo.set(entry, { timeout: staticTimeoutOf(config) });
+    this._idleTimeouts.push(entry);
+    return this;
   }
 
   // ---- background ----
@@ -961,7 +1801,7 @@ export class Machine<
    */
   background(
     handler: StateEffectHandler<State, Event, SD, Scope.Scope>,
-  ): Machine<State, Event, R, _SD, _ED, SD> {
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     (this._backgroundEffects as any[]).push({
       handler: handler as unknown as BackgroundEffect<State, Event, SD, R>["handler"],
@@ -978,6 +1818,10 @@ export class Machine<
    * processed. After the next state transition (tag change), all buffered events
    * are drained through the loop in FIFO order.
    *
+   * With `when`, only events matching the predicate are postponed — e.g. a `Write`
+   * for a key that is currently locked. For conditions only a handler can decide,
+   * see `self.stash()`.
+   *
    * Reply-bearing events (from `call`/`ask`) in the postpone buffer are settled
    * with `ActorStoppedError` on stop/interrupt/final-state.
    *
@@ -986,30 +1830,138 @@ export class Machine<
    * machine
    *   .postpone(State.Connecting, Event.Data)           // single event
    *   .postpone(State.Connecting, [Event.Data, Event.Cmd]) // multiple events
+   *   .postpone(State.Ready, Event.Write, (state, event) => state.locked.includes(event.key))
    * ```
    */
-  postpone<NS extends VariantsUnion<_SD> & BrandedState>(
-    state: TaggedOrConstructor<NS>,
+  postpone<
+    NS extends VariantsUnion<_SD> & BrandedState,
+    EV extends TaggedOrConstructor<VariantsUnion<_ED> & BrandedEvent>,
+  >(
+    state: TaggedOrConstructor<NS> | StateGroup<NS>,
+    events: EV | ReadonlyArray<EV>,
+    when?: (state: NS, event: EV extends (...args: never[]) => infer NE ? NE : EV) => boolean,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    if (isStateGroup(state)) this.registerGroup(state);
+    const stateTag = stateNameOf(state);
+    const eventList: ReadonlyArray<EV> = Array.isArray(events) ? events : [events];
+    for (const ev of eventList) {
+      const eventTag = getTag(ev);
+      this._postponeRules.push({
+        stateTag,
+        eventTag,
+        when: when as ((state: State, event: Event) => boolean) | undefined,
+      });
+    }
+    return this;
+  }
+
+  // ---- priority ----
+
+  /**
+   * Set the mailbox priority of events.
+   *
+   * `"high"` events (including `call`/`ask` requests) are taken before any queued
+   * `"normal"` event, FIFO among themselves. Useful for cancel/shutdown commands that
+   * must not wait behind a backlog of data events.
+   *
+   * @example
+   * ```ts
+   * machine
+   *   .priority(Event.Cancel, "high")
+   *   .priority([Event.Stop, Event.Pause], "high")
+   * ```
+   */
+  priority(
     events:
       | TaggedOrConstructor<VariantsUnion<_ED> & BrandedEvent>
       | ReadonlyArray<TaggedOrConstructor<VariantsUnion<_ED> & BrandedEvent>>,
-  ): Machine<State, Event, R, _SD, _ED, SD> {
-    const stateTag = getTag(state);
+    priority: EventPriority,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
     const eventList = Array.isArray(events) ? events : [events];
     for (const ev of eventList) {
-      const eventTag = getTag(ev);
-      this._postponeRules.push({ stateTag, eventTag });
+      this._priorities.set(getTag(ev), priority);
     }
     return this;
   }
 
+  // ---- conflate ----
+
+  /**
+   * Conflate events — only the latest pending event of a tag matters.
+   *
+   * When a `send` of the tag is enqueued while an older one is still waiting in the
+   * mailbox, the older one is replaced in place (keeping its position) and a
+   * `@machine.conflate` inspection event reports the running count. With `key`, only
+   * events whose payload field holds the same value conflate.
+   * Requests (`call`/`ask`) are never conflated.
+   *
+   * @example
+   * ```ts
+   * machine
+   *   .conflate(Event.Resize)
+   *   .conflate(Event.PointerMove, { key: "pointerId" })
+   * ```
+   */
+  conflate<NE extends VariantsUnion<_ED> & BrandedEvent>(
+    event: TaggedOrConstructor<NE>,
+    options?: { readonly key?: Exclude<keyof NE, "_tag"> & string },
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    this._conflations.set(getTag(event), { key: options?.key });
+    return this;
+  }
+
+  // ---- onUnhandled ----
+
+  /**
+   * Handle events no transition accepts in the current state — no matching `.on()`,
+   * or every guard failed. Runs inline before the event is reported as an
+   * `@machine.unhandled` inspection event and a `"unhandled"` dead letter.
+   * Calling `self.stash()` keeps the event for a later `self.unstashAll()` instead.
+   *
+   * @example
+   * ```ts
+   * machine.onUnhandled(({ state, event }) =>
+   *   Effect.logWarning(`${event._tag} ignored in ${state._tag}`),
+   * )
+   * ```
+   */
+  onUnhandled(
+    handler: StateEffectHandler<
+      VariantsUnion<_SD> & BrandedState,
+      VariantsUnion<_ED> & BrandedEvent,
+      SD,
+      never
+    >,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
+    this._unhandledHandlers.push(handler as unknown as StateEffectHandler<State, Event, SD, R>);
+    return this;
+  }
+
   // ---- final ----
 
+  /**
+   * Mark a state as final — reaching it stops the actor.
+   * `output` derives the value `actor.awaitOutput` resolves with; it is decoded by the
+   * machine's `output` schema when one is configured.
+   *
+   * @example
+   * ```ts
+   * Machine.make({ state, event, output: Schema.Number, initial })
+   *   .final(State.Done, ({ state }) => state.total)
+   * ```
+   */
   final<NS extends VariantsUnion<_SD> & BrandedState>(
     state: TaggedOrConstructor<NS>,
-  ): Machine<State, Event, R, _SD, _ED, SD> {
+    output?: (ctx: { readonly state: NS }) => Output,
+  ): Machine<State, Event, R, _SD, _ED, SD, Output, Input> {
     const stateTag = getTag(state);
     this._finalStates.add(stateTag);
+    if (output !== undefined) {
+      this._finalOutputs.set(
+        stateTag,
+        output as unknown as (ctx: { readonly state: State }) => Output,
+      );
+    }
     return this;
   }
 
@@ -1023,14 +1975,24 @@ export class Machine<
     S extends BrandedState,
     E extends BrandedEvent,
     SLD extends SlotsDef = Record<string, never>,
-  >(config: MakeConfig<SD, ED, S, E, SLD>): Machine<S, E, never, SD, ED, SLD> {
-    return new Machine<S, E, never, SD, ED, SLD>(
-      config.initial,
+    O = void,
+    I = never,
+    RI = never,
+  >(config: MakeConfig<SD, ED, S, E, SLD, O, I, RI>): Machine<S, E, RI, SD, ED, SLD, O, I> {
+    const fromInput = typeof config.initial === "function" ? config.initial : undefined;
+    const machine = new Machine<S, E, RI, SD, ED, SLD, O, I>(
+      fromInput === undefined ? (config.initial as S) : (undefined as unknown as S),
       config.state as unknown as Schema.Schema<S>,
       config.event as unknown as Schema.Schema<E>,
       config.slots as SlotsSchema<SLD> | undefined,
       config.slotValidation ?? true,
+      config.output as Schema.Decoder<unknown> | undefined,
     );
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (machine as any)._inputSchema = config.input;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (machine as any)._initialFromInput = fromInput;
+    return machine;
   }
 }
 
@@ -1050,7 +2012,7 @@ class TransitionScope<
 
   on<NE extends VariantsUnion<_ED> & BrandedEvent, RS extends VariantsUnion<_SD> & BrandedState>(
     event: TaggedOrConstructor<NE>,
-    handler: TransitionHandler<SelectedState, NE, RS, SD, never, ExtractReply<NE>>,
+    handler: TransitionSpec<SelectedState, NE, RS, SD, never, HandlerReply<NE>>,
   ): TransitionScope<State, Event, R, _SD, _ED, SD, SelectedState> {
     this.machine.scopeTransition(this.states, event, handler, false);
     return this;
@@ -1061,7 +2023,7 @@ class TransitionScope<
     RS extends VariantsUnion<_SD> & BrandedState,
   >(
     event: TaggedOrConstructor<NE>,
-    handler: TransitionHandler<SelectedState, NE, RS, SD, never, ExtractReply<NE>>,
+    handler: TransitionSpec<SelectedState, NE, RS, SD, never, HandlerReply<NE>>,
   ): TransitionScope<State, Event, R, _SD, _ED, SD, SelectedState> {
     this.machine.scopeTransition(this.states, event, handler, true);
     return this;
@@ -1074,6 +2036,449 @@ class TransitionScope<
 
 export const make = Machine.make;
 
+// ============================================================================
+// Parallel regions (orthogonal states)
+// ============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type RegionMachine = Machine<any, any, any, any, any, any>;
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+type RegionState<M> = M extends Machine<infer S, any, any, any, any, any> ? S : never;
+type RegionEvent<M> = M extends Machine<any, infer E, any, any, any, any> ? E : never;
+type RegionR<M> = M extends Machine<any, any, infer R, any, any, any> ? R : never;
+type RegionSlots<M> =
+  M extends Machine<any, any, any, any, any, infer SD>
+    ? string extends keyof SD
+      ? unknown
+      : SD
+    : never;
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+type UnionToIntersection<U> = (U extends unknown ? (u: U) => void : never) extends (
+  i: infer I,
+) => void
+  ? I
+  : never;
+
+type ParallelSlots<Regions extends Record<string, RegionMachine>> = [
+  UnionToIntersection<RegionSlots<Regions[keyof Regions]>>,
+] extends [infer I]
+  ? unknown extends I
+    ? Record<string, never>
+    : I extends SlotsDef
+      ? I
+      : never
+  : never;
+
+/**
+ * State of a `Machine.parallel()` machine — every region is active at once.
+ */
+export interface ParallelState<Regions extends Record<string, { readonly _tag: string }>> {
+  readonly _tag: "Parallel";
+  readonly regions: Readonly<Regions>;
+}
+
+/**
+ * Combine machines into orthogonal regions that are all active at once.
+ *
+ * - Every event is delivered to each region that is not yet final; regions without
+ *   a matching transition ignore it. The first region to reply provides the reply
+ * - Spawn effects and timeouts are scoped to their region's state
+ * - An event postponed by any region is held until that region changes state
+ * - The parallel machine is final once every region has reached a final state
+ * - Slots are merged by name — provide the union of every region's slot handlers
+ *
+ * @example
+ * ```ts
+ * const editor = Machine.parallel({
+ *   bold: boldMachine,
+ *   italic: italicMachine,
+ * })
+ *
+ * const actor = yield* Machine.spawn(editor)
+ * yield* actor.send(Event.ToggleBold)
+ * const { regions } = yield* actor.snapshot // { bold: On, italic: Off }
+ * ```
+ */
+export const parallel = <const Regions extends Record<string, RegionMachine>>(
+  regions: Regions,
+): Machine<
+  ParallelState<{ readonly [K in keyof Regions]: RegionState<Regions[K]> }>,
+  RegionEvent<Regions[keyof Regions]>,
+  RegionR<Regions[keyof Regions]>,
+  Record<string, never>,
+  Record<string, never>,
+  ParallelSlots<Regions>
+> => {
+  const initial: Record<string, { readonly _tag: string }> = {};
+  const stateFields: Record<string, Schema.Top> = {};
+  const eventSchemas: Array<Schema.Top> = [];
+  const slotDefinitions: SlotsDef = {};
+  const replySchemas = new Map<string, Schema.Decoder<unknown>>();
+  const replyErrorSchemas = new Map<string, Schema.Codec<unknown, unknown>>();
+  const replyStreamSchemas = new Map<string, Schema.Codec<unknown, unknown>>();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const postponeRules: Array<PostponeRule<any, any>> = [];
+  const priorities = new Map<string, EventPriority>();
+  const conflations = new Map<string, { readonly key: string | undefined }>();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const backgroundEffects: Array<BackgroundEffect<any, any, any, any>> = [];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const unhandledHandlers: Array<StateEffectHandler<any, any, any, any>> = [];
+  let hasSlots = false;
+  let hasSchemas = true;
+
+  for (const [name, region] of Object.entries(regions)) {
+    initial[name] = region.initial;
+    if (region.stateSchema === undefined || region.eventSchema === undefined) {
+      hasSchemas = false;
+    } else {
+      stateFields[name] = region.stateSchema;
+      if (!eventSchemas.includes(region.eventSchema)) eventSchemas.push(region.eventSchema);
+    }
+    if (region._slotsSchema !== undefined) {
+      hasSlots = true;
+      Object.assign(slotDefinitions, region._slotsSchema.definitions);
+    }
+    for (const [tag, schema] of region._replySchemas) replySchemas.set(tag, schema);
+    for (const [tag, schema] of region._replyErrorSchemas) replyErrorSchemas.set(tag, schema);
+    for (const [tag, schema] of region._replyStreamSchemas) replyStreamSchemas.set(tag, schema);
+    postponeRules.push(...region._postponeRules);
+    for (const [tag, priority] of region._priorities) priorities.set(tag, priority);
+    for (const [tag, rule] of region._conflations) conflations.set(tag, rule);
+    for (const bg of region._backgroundEffects) {
+      backgroundEffects.push({
+        handler: (ctx) =>
+          bg.handler({
+            ...ctx,
+            state: (ctx.state as ParallelState<Record<string, { readonly _tag: string }>>).regions[
+              name
+            ],
+            slots: region._slots,
+          }),
+      });
+    }
+    // An event no region accepts is unhandled in every region
+    for (const handler of region._unhandledHandlers) {
+      unhandledHandlers.push((ctx) =>
+        handler({
+          ...ctx,
+          state: (ctx.state as ParallelState<Record<string, { readonly _tag: string }>>).regions[
+            name
+          ],
+          slots: region._slots,
+        }),
+      );
+    }
+  }
+
+  const stateSchema = hasSchemas
+    ? Schema.TaggedStruct("Parallel", { regions: Schema.Struct(stateFields) })
+    : undefined;
+  const eventSchema = !hasSchemas
+    ? undefined
+    : eventSchemas.length === 1
+      ? eventSchemas[0]
+      : Schema.Union(eventSchemas);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const machine = new Machine<any, any, any, any, any, any>(
+    { _tag: "Parallel", regions: initial },
+    stateSchema,
+    eventSchema,
+    hasSlots ? Slot.define(slotDefinitions) : undefined,
+  );
+  /* eslint-disable @typescript-eslint/no-explicit-any */
+  (machine as any)._regions = new Map(Object.entries(regions));
+  (machine as any)._replySchemas = replySchemas;
+  (machine as any)._replyErrorSchemas = replyErrorSchemas;
+  (machine as any)._replyStreamSchemas = replyStreamSchemas;
+  (machine as any)._postponeRules = postponeRules;
+  (machine as any)._priorities = priorities;
+  (machine as any)._conflations = conflations;
+  (machine as any)._backgroundEffects = backgroundEffects;
+  (machine as any)._unhandledHandlers = unhandledHandlers;
+  /* eslint-enable @typescript-eslint/no-explicit-any */
+  return machine;
+};
+
+// ============================================================================
+// JSON statechart import
+// ============================================================================
+
+/**
+ * Transition in a JSON statechart — a target state tag, or an object naming
+ * the target, the actions that build the next state and a guard.
+ */
+export type TransitionNodeConfig =
+  | string
+  | {
+      readonly target?: string;
+      /** Named handlers from `options.actions`, run in order — each sees the previous one's state */
+      readonly actions?: string | ReadonlyArray<string>;
+      /** Named guard from `options.guards`, or a boolean slot */
+      readonly guard?: string;
+      readonly reenter?: boolean;
+    };
+
+/**
+ * Delayed (`after`) transition — `event` names the event the timer sends,
+ * since timeouts are delivered as events.
+ */
+export type DelayedTransitionNodeConfig = Exclude<TransitionNodeConfig, string> & {
+  readonly event: string;
+};
+
+/** State node in a JSON statechart */
+export interface StateNodeConfig {
+  /** `"final"` marks a final state */
+  readonly type?: string;
+  readonly on?: Readonly<
+    Record<string, TransitionNodeConfig | ReadonlyArray<TransitionNodeConfig>>
+  >;
+  /** Delay (milliseconds, or a duration such as `"5 seconds"`) → transition */
+  readonly after?: Readonly<Record<string, DelayedTransitionNodeConfig>>;
+}
+
+/** Stately-style JSON statechart accepted by `Machine.fromConfig()` */
+export interface StatechartConfig {
+  readonly initial: string;
+  readonly states: Readonly<Record<string, StateNodeConfig>>;
+}
+
+/**
+ * Schemas and named handlers for `Machine.fromConfig()`.
+ */
+export interface FromConfigOptions<
+  SD extends Record<string, Schema.Struct.Fields>,
+  ED extends Record<string, Schema.Struct.Fields>,
+  S extends BrandedState,
+  E extends BrandedEvent,
+  SLD extends SlotsDef = Record<string, never>,
+  R = never,
+> {
+  readonly state: MachineStateSchema<SD> & { Type: S };
+  readonly event: MachineEventSchema<ED> & { Type: E };
+  readonly slots?: SlotsSchema<SLD>;
+  /** Transition handlers referenced by `actions` */
+  readonly actions?: Readonly<Record<string, TransitionHandler<S, E, S, SLD, R>>>;
+  /** Guards referenced by `guard` — names not listed here resolve to boolean slots */
+  readonly guards?: Readonly<
+    Record<string, (ctx: HandlerContext<S, E, SLD>) => boolean | Effect.Effect<boolean, never, R>>
+  >;
+  /** Initial state value — required when the config's initial state has fields */
+  readonly initial?: S;
+}
+
+/** Keys a state node may carry — anything else has behavior `fromConfig` can't import */
+const supportedStateNodeKeys = new Set(["type", "on", "after", "description", "meta", "tags"]);
+
+/**
+ * Build a machine from a Stately-style JSON statechart.
+ *
+ * Supports flat `states` with `on` maps (guarded alternatives as arrays), `after`
+ * delays and `type: "final"`. Tags are checked against the `State`/`Event` schemas;
+ * `actions` and `guard` names resolve against `options.actions` / `options.guards`
+ * (or boolean slots). A transition without actions moves to its target, which must
+ * then have no fields; without a target it stays put.
+ *
+ * Throws `InvalidMachineConfigError` listing every unknown name and unsupported
+ * construct.
+ *
+ * @example
+ * ```ts
+ * const machine = Machine.fromConfig(
+ *   {
+ *     initial: "Idle",
+ *     states: {
+ *       Idle: { on: { Fetch: { target: "Loading", actions: "startLoading" } } },
+ *       Loading: { after: { "5000": { event: "Timeout", target: "Failed" } } },
+ *       Failed: { type: "final" },
+ *     },
+ *   },
+ *   {
+ *     state: FetchState,
+ *     event: FetchEvent,
+ *     actions: { startLoading: ({ event }) => FetchState.Loading({ url: event.url }) },
+ *   },
+ * )
+ * ```
+ */
+export const fromConfig = <
+  SD extends Record<string, Schema.Struct.Fields>,
+  ED extends Record<string, Schema.Struct.Fields>,
+  S extends BrandedState,
+  E extends BrandedEvent,
+  SLD extends SlotsDef = Record<string, never>,
+  R = never,
+>(
+  config: StatechartConfig,
+  options: FromConfigOptions<SD, ED, S, E, SLD, R>,
+): Machine<S, E, R, SD, ED, SLD> => {
+  const stateVariants: Record<string, Schema.Struct.Fields> = options.state._definition;
+  const eventVariants: Record<string, Schema.Struct.Fields> = options.event._definition;
+  const slotNames = new Set(Object.keys(options.slots?.definitions ?? {}));
+  const unknownStates = new Set<string>();
+  const unknownEvents = new Set<string>();
+  const unknownActions = new Set<string>();
+  const unknownGuards = new Set<string>();
+  const issues: Array<string> = [];
+
+  const hasFields = (variants: Record<string, Schema.Struct.Fields>, tag: string) =>
+    Object.keys(variants[tag] ?? {}).length > 0;
+  const checkState = (tag: string) => {
+    if (!(tag in stateVariants)) unknownStates.add(tag);
+  };
+  const checkEvent = (tag: string) => {
+    if (!(tag in eventVariants)) unknownEvents.add(tag);
+  };
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const stateValue = (tag: string) => (options.state as any)[tag] as S;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const eventValue = (tag: string) => (options.event as any)[tag] as E;
+
+  const handlerOf = (
+    where: string,
+    node: Exclude<TransitionNodeConfig, string>,
+  ): TransitionHandler<S, E, S, SLD, R> => {
+    const names =
+      node.actions === undefined
+        ? []
+        : typeof node.actions === "string"
+          ? [node.actions]
+          : node.actions;
+    const actions = names.flatMap((name) => {
+      const action = options.actions?.[name];
+      if (action === undefined) unknownActions.add(name);
+      return action === undefined ? [] : [action];
+    });
+    const [first, ...rest] = actions;
+    if (first !== undefined && rest.length === 0) return first;
+    if (first !== undefined) {
+      return (ctx) =>
+        Effect.gen(function* () {
+          let state = ctx.state;
+          for (const action of actions) {
+            const result = action({ ...ctx, state });
+            state = (Effect.isEffect(result) ? yield* result : result) as S;
+          }
+          return state;
+        });
+    }
+    const target = node.target;
+    if (target === undefined) return ({ state }) => state;
+    if (hasFields(stateVariants, target)) {
+      issues.push(`${where}: target "${target}" has fields — name an action that builds it`);
+    }
+    return () => stateValue(target);
+  };
+
+  const guardOf = (name: string): TransitionGuard<S, E, SLD, R> | undefined => {
+    const guard = options.guards?.[name];
+    if (guard !== undefined) {
+      return Object.defineProperty((ctx: HandlerContext<S, E, SLD>) => guard(ctx), "name", {
+        value: name,
+      });
+    }
+    if (slotNames.has(name)) return name as GuardSlotName<SLD>;
+    unknownGuards.add(name);
+    return undefined;
+  };
+
+  // Validate everything up front, then register — a bad config never half-builds.
+  // Tags are only known at runtime, so registration goes through an untyped builder
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const registrations: Array<(machine: any) => any> = [];
+  const addTransition = (from: string, event: string, node: TransitionNodeConfig) => {
+    const where = `${from}.${event}`;
+    const spec = typeof node === "string" ? { target: node } : node;
+    if (spec.target !== undefined) checkState(spec.target);
+    const handler = handlerOf(where, spec);
+    const guard = spec.guard === undefined ? undefined : guardOf(spec.guard);
+    const transition = guard === undefined ? handler : { guard, handler };
+    const targets = [stateValue(spec.target ?? from)];
+    registrations.push((machine) =>
+      spec.reenter === true
+        ? machine.reenter(stateValue(from), eventValue(event), transition)
+        : machine.on(stateValue(from), eventValue(event), targets, transition),
+    );
+  };
+
+  checkState(config.initial);
+  if (options.initial === undefined && hasFields(stateVariants, config.initial)) {
+    issues.push(`initial state "${config.initial}" has fields — pass \`initial\` in options`);
+  }
+
+  for (const [tag, node] of Object.entries(config.states)) {
+    checkState(tag);
+    for (const key of Object.keys(node)) {
+      if (!supportedStateNodeKeys.has(key)) issues.push(`${tag}: unsupported key "${key}"`);
+    }
+    for (const [event, nodes] of Object.entries(node.on ?? {})) {
+      checkEvent(event);
+      for (const transition of Array.isArray(nodes) ? nodes : [nodes]) {
+        addTransition(tag, event, transition as TransitionNodeConfig);
+      }
+    }
+    for (const [delay, transition] of Object.entries(node.after ?? {})) {
+      const duration: Duration.Input = /^\d+(\.\d+)?$/.test(delay)
+        ? Duration.millis(Number(delay))
+        : (delay as Duration.Input);
+      try {
+        Duration.fromInputUnsafe(duration);
+      } catch {
+        issues.push(`${tag}: invalid delay "${delay}"`);
+      }
+      const event = transition.event as string | undefined;
+      if (event === undefined) {
+        issues.push(`${tag}.after.${delay}: missing \`event\` for the timer to send`);
+        continue;
+      }
+      checkEvent(event);
+      if (hasFields(eventVariants, event)) {
+        issues.push(`${tag}.after.${delay}: timer event "${event}" has fields`);
+      }
+      addTransition(tag, event, transition);
+      registrations.push((machine) =>
+        machine.timeout(stateValue(tag), { duration, event: eventValue(event) }),
+      );
+    }
+    if (node.type === "final") {
+      registrations.push((machine) => machine.final(stateValue(tag)));
+    } else if (node.type !== undefined && node.type !== "atomic") {
+      issues.push(`${tag}: unsupported state type "${node.type}"`);
+    }
+  }
+
+  const lists = {
+    unknownStates: [...unknownStates],
+    unknownEvents: [...unknownEvents],
+    unknownActions: [...unknownActions],
+    unknownGuards: [...unknownGuards],
+    issues,
+  };
+  if (Object.values(lists).some((list) => list.length > 0)) {
+    const summary = Object.entries(lists)
+      .filter(([, list]) => list.length > 0)
+      .map(([name, list]) => `${name}: ${list.join(", ")}`);
+    throw new InvalidMachineConfigError({
+      ...lists,
+      message: `Invalid machine config — ${summary.join("; ")}`,
+    });
+  }
+
+  return registrations.reduce<unknown>(
+    (machine, register) => register(machine),
+    Machine.make({
+      state: options.state,
+      event: options.event,
+      ...(options.slots === undefined ? {} : { slots: options.slots }),
+      initial: options.initial ?? stateValue(config.initial),
+    }),
+  ) as Machine<S, E, R, SD, ED, SLD>;
+};
+
 // ============================================================================
 // spawn function - simple actor creation without ActorSystem
 // ============================================================================
@@ -1111,32 +2516,47 @@ import type { Supervision } from "./supervision.js";
  * ```
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-type AnyMachine<S, E, R> = Machine<S, E, R, any, any, any>;
+type AnyMachine<S, E, R, O = unknown, I = unknown> = Machine<S, E, R, any, any, any, O, I>;
 
 const spawnImpl = Effect.fn("effect-machine.spawn")(function* <
   S extends { readonly _tag: string },
   E extends { readonly _tag: string },
   R,
+  O,
+  I,
 >(
-  machine: AnyMachine<S, E, R>,
+  machine: AnyMachine<S, E, R, O, I>,
   idOrOptions?:
     | string
     | {
         id?: string;
+        input?: I;
         hydrate?: S;
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         slots?: Record<string, any>;
         supervision?: Supervision.Policy;
         lifecycle?: Lifecycle<S, E>;
+        mailbox?: MailboxOptions;
       },
 ) {
   const opts = typeof idOrOptions === "string" ? { id: idOrOptions } : idOrOptions;
   const actorId = opts?.id ?? `actor-${(yield* Random.next).toString(36).slice(2)}`;
-  const materialized = materializeMachine(machine, opts?.slots);
+  // Hydrated actors skip the input-derived initial state. Machines without an input
+  // never fail to decode, which SpawnInputError expresses
+  const withInput =
+    opts?.hydrate !== undefined
+      ? machine
+      : yield* resolveInput(machine, opts?.input) as Effect.Effect<
+          AnyMachine<S, E, R, O, I>,
+          SpawnInputError<I>,
+          R
+        >;
+  const materialized = materializeMachine(withInput, opts?.slots);
   const actor = yield* createActor(actorId, materialized as AnyMachine<S, E, never>, {
     initialState: opts?.hydrate,
     supervision: opts?.supervision,
     lifecycle: opts?.lifecycle,
+    mailbox: opts?.mailbox,
   });
 
   // If an ActorScope exists in context, attach cleanup automatically
@@ -1145,7 +2565,7 @@ const spawnImpl = Effect.fn("effect-machine.spawn")(function* <
     yield* Scope.addFinalizer(maybeScope.value, actor.stop);
   }
 
-  return actor;
+  return actor as ActorRef<S, E, O>;
 });
 
 /**
@@ -1163,6 +2583,9 @@ const spawnImpl = Effect.fn("effect-machine.spawn")(function* <
  *   slots: { canRetry: ({ max }) => attempts < max },
  * });
  *
+ * // With spawn-time input (`Machine.make({ input, initial: (input) => ... })`)
+ * const actor = yield* Machine.spawn(machine, { input: { userId: "u-1" } });
+ *
  * // With lifecycle (recovery + durability)
  * const actor = yield* Machine.spawn(machine, {
  *   lifecycle: {
@@ -1177,20 +2600,27 @@ export const spawn: <
   E extends { readonly _tag: string },
   R,
   SD extends SlotsDef = Record<string, never>,
+  O = unknown,
+  I = unknown,
+  M extends MailboxOptions | undefined = undefined,
 >(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  machine: Machine<S, E, R, any, any, SD>,
+  machine: Machine<S, E, R, any, any, SD, O, I>,
   options?:
     | string
     | {
         id?: string;
+        /** Spawn-time input — validated by the machine's `input` schema, passed to `initial` */
+        input?: I;
         hydrate?: S;
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         slots?: ProvideSlots<SD, any>;
         supervision?: Supervision.Policy;
         lifecycle?: Lifecycle<S, E>;
+        /** Bounded mailbox — `send` fails with `MailboxFullError` under the `"fail"` strategy */
+        mailbox?: M;
       },
-) => Effect.Effect<ActorRef<S, E>, never, R> = spawnImpl;
+) => Effect.Effect<ActorRef<S, E, O, MailboxSendError<M>>, SpawnInputError<I>, R> = spawnImpl;
 
 /**
  * Wrap an effect to provide an `ActorScope` from the current `Scope`.
@@ -1227,6 +2657,7 @@ export const scoped = <A, E, R>(
  * - `self.send`/`self.spawn` are no-ops (stubbed)
  * - Spawn effects, background effects, and timeouts do NOT run
  * - Postpone rules are respected (postponed events drain on state change)
+ * - `.always()` transitions are followed after every transition (and from the start state)
  * - Final states stop replay (remaining events ignored)
  * - Unhandled events are silently skipped (matches live actor behavior)
  *
@@ -1243,90 +2674,6 @@ export const scoped = <A, E, R>(
  * const actor = yield* Machine.spawn(machine, { hydrate: state });
  * ```
  */
-const replayImpl = Effect.fn("effect-machine.replay")(function* <
-  S extends { readonly _tag: string },
-  E extends { readonly _tag: string },
-  R,
->(
-  input: AnyMachine<S, E, R>,
-  events: ReadonlyArray<E>,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  options?: { from?: S; slots?: Record<string, any> },
-) {
-  const machine = materializeMachine(input, options?.slots);
-  let state: S = options?.from ?? machine.initial;
-
-  const hasPostponeRules = machine.postponeRules.length > 0;
-  const postponed: E[] = [];
-
-  const dummySend = Effect.fn("effect-machine.replay.send")((_event: E) => Effect.void);
-  const self: MachineRef<E> = {
-    send: dummySend,
-    cast: dummySend,
-    spawn: () => Effect.die("spawn not supported in replay"),
-    reply: () => Effect.succeed(false),
-  };
-
-  for (const event of events) {
-    // Final state stops replay
-    if (machine.finalStates.has(state._tag)) break;
-
-    // Check postpone rules
-    if (hasPostponeRules && shouldPostpone(machine, state._tag, event._tag)) {
-      postponed.push(event);
-      continue;
-    }
-
-    const transition = resolveTransition(machine, state, event);
-    if (transition !== undefined) {
-      const result = yield* runTransitionHandler(
-        machine,
-        transition,
-        state,
-        event,
-        self,
-        stubSystem,
-        "replay",
-      );
-      const previousTag = state._tag;
-      state = result.newState;
-
-      // Drain postponed events on state change — loop until stable
-      const stateChanged = state._tag !== previousTag || transition.reenter === true;
-      if (stateChanged && postponed.length > 0) {
-        let drainTag = previousTag;
-        while (state._tag !== drainTag && postponed.length > 0) {
-          if (machine.finalStates.has(state._tag)) break;
-          drainTag = state._tag;
-          const drained = postponed.splice(0);
-          for (const postponedEvent of drained) {
-            if (machine.finalStates.has(state._tag)) break;
-            if (shouldPostpone(machine, state._tag, postponedEvent._tag)) {
-              postponed.push(postponedEvent);
-              continue;
-            }
-            const pTransition = resolveTransition(machine, state, postponedEvent);
-            if (pTransition !== undefined) {
-              const pResult = yield* runTransitionHandler(
-                machine,
-                pTransition,
-                state,
-                postponedEvent,
-                self,
-                stubSystem,
-                "replay",
-              );
-              state = pResult.newState;
-            }
-          }
-        }
-      }
-    }
-  }
-
-  return state;
-});
-
 export const replay: {
   <
     S extends { readonly _tag: string },
@@ -1340,15 +2687,32 @@ export const replay: {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     options?: { from?: S; slots?: ProvideSlots<SD, any> },
   ): Effect.Effect<S, never, R>;
-} = replayImpl;
+} = (machine, events, options) =>
+  Effect.map(
+    replayWithHistory(materializeMachine(machine, options?.slots), events, options),
+    ({ state }) => state,
+  );
 
 // Transition lookup (introspection)
 export { findTransitions } from "./internal/transition.js";
+export { validate } from "./internal/validate.js";
+export type { ValidationReport } from "./internal/validate.js";
+export { describe } from "./internal/describe.js";
+export type { MachineDescription, SchemaDescription } from "./internal/describe.js";
+export { toDot, toMermaid, toScxml } from "./internal/diagram.js";
+export { diff } from "./internal/diff.js";
+export type { Compatibility, MachineChange, MachineDiff } from "./internal/diff.js";
 
 // Reply helpers
 export const reply = makeReply;
+export const replyError = makeReplyError;
 export const deferReply = makeDeferReply;
-export type { ReplyResult, DeferReplyResult } from "./internal/utils.js";
+export type {
+  ReplyResult,
+  ReplyFailure,
+  DeferReplyResult,
+  HistoryTarget,
+} from "./internal/utils.js";
 
 // Supervision (Machine.supervise) deferred to a dedicated PR — requires
 // deeper integration with the runtime kernel for defect detection and
@@ -36,7 +36,12 @@
  * @module
  */
 import { Schema } from "effect";
-import type { FullStateBrand, FullEventBrand, ReplyTypeBrand } from "./internal/brands.js";
+import type {
+  FullStateBrand,
+  FullEventBrand,
+  ReplyTypeBrand,
+  ReplyStreamTypeBrand,
+} from "./internal/brands.js";
 import { InvalidSchemaError, MissingMatchHandlerError } from "./errors.js";
 
 // ============================================================================
@@ -46,13 +51,34 @@ import { InvalidSchemaError, MissingMatchHandlerError } from "./errors.js";
 const ReplySchemaSymbol: unique symbol = Symbol.for("effect-machine/ReplySchema");
 export type ReplySchemaSymbol = typeof ReplySchemaSymbol;
 
+const ReplyErrorSchemaSymbol: unique symbol = Symbol.for("effect-machine/ReplyErrorSchema");
+export type ReplyErrorSchemaSymbol = typeof ReplyErrorSchemaSymbol;
+
+const ReplyStreamSchemaSymbol: unique symbol = Symbol.for("effect-machine/ReplyStreamSchema");
+export type ReplyStreamSchemaSymbol = typeof ReplyStreamSchemaSymbol;
+
 /**
- * Fields annotated with a reply schema.
+ * Fields annotated with a reply schema (and optional reply error schema).
  * Structurally identical to Schema.Struct.Fields at runtime,
- * but carries the reply schema type at compile time.
+ * but carries the reply schema types at compile time.
  */
-export type ReplyFields<F extends Schema.Struct.Fields, RS extends Schema.Schema<unknown>> = F & {
+export type ReplyFields<
+  F extends Schema.Struct.Fields,
+  RS extends Schema.Schema<unknown>,
+  ES extends Schema.Schema<unknown> = Schema.Never,
+> = F & {
   readonly [ReplySchemaSymbol]: RS;
+  readonly [ReplyErrorSchemaSymbol]: ES;
+};
+
+/**
+ * Fields annotated with a streamed reply item schema.
+ */
+export type ReplyStreamFields<
+  F extends Schema.Struct.Fields,
+  IS extends Schema.Schema<unknown>,
+> = F & {
+  readonly [ReplyStreamSchemaSymbol]: IS;
 };
 
 /**
@@ -60,7 +86,12 @@ export type ReplyFields<F extends Schema.Struct.Fields, RS extends Schema.Schema
  * Reply schema metadata is type-only and must not leak into payload shapes.
  */
 type PayloadFields<F extends Schema.Struct.Fields> = {
-  readonly [K in keyof F as K extends ReplySchemaSymbol ? never : K]: F[K];
+  readonly [K in keyof F as K extends
+    | ReplySchemaSymbol
+    | ReplyErrorSchemaSymbol
+    | ReplyStreamSchemaSymbol
+    ? never
+    : K]: F[K];
 };
 
 // ============================================================================
@@ -83,13 +114,10 @@ type VariantSchemas<D extends Record<string, Schema.Struct.Fields>> = {
 
 /**
  * Build union type from variant schemas.
- * Reply-bearing variants carry ReplyTypeBrand<R> for ask() inference.
+ * Reply-bearing variants carry ReplyTypeBrand<R, Err> for ask() inference.
  */
 export type VariantsUnion<D extends Record<string, Schema.Struct.Fields>> = {
-  [K in keyof D & string]: TaggedStructType<K, D[K]> &
-    (D[K] extends { readonly [ReplySchemaSymbol]: Schema.Schema<infer R> }
-      ? ReplyTypeBrand<R>
-      : unknown);
+  [K in keyof D & string]: TaggedStructType<K, D[K]> & VariantReplyBrand<D[K]>;
 }[keyof D & string];
 
 /**
@@ -102,13 +130,17 @@ type IsEmptyFields<Fields extends Schema.Struct.Fields> = string & keyof Fields
 
 /**
  * Resolve the reply brand for a variant's fields.
- * If fields carry ReplySchemaSymbol, adds ReplyTypeBrand<R>.
+ * If fields carry ReplySchemaSymbol, adds ReplyTypeBrand<R, Err>;
+ * if they carry ReplyStreamSchemaSymbol, adds ReplyStreamTypeBrand<Item>.
  */
 type VariantReplyBrand<Fields extends Schema.Struct.Fields> = Fields extends {
   readonly [ReplySchemaSymbol]: Schema.Schema<infer R>;
+  readonly [ReplyErrorSchemaSymbol]: Schema.Schema<infer Err>;
 }
-  ? ReplyTypeBrand<R>
-  : unknown;
+  ? ReplyTypeBrand<R, Err>
+  : Fields extends { readonly [ReplyStreamSchemaSymbol]: Schema.Schema<infer Item> }
+    ? ReplyStreamTypeBrand<Item>
+    : unknown;
 
 /**
  * Constructor functions for each variant.
@@ -211,6 +243,18 @@ interface MachineSchemaBase<D extends Record<string, Schema.Struct.Fields>, Bran
    * with variants defined via `Event.reply()`.
    */
   readonly _replySchemas: ReadonlyMap<string, Schema.Decoder<unknown>>;
+
+  /**
+   * Reply error schemas per variant tag. Only populated for variants
+   * defined via `Event.reply(fields, replySchema, errorSchema)`.
+   */
+  readonly _replyErrorSchemas: ReadonlyMap<string, Schema.Codec<unknown, unknown>>;
+
+  /**
+   * Streamed reply item schemas per variant tag. Only populated for variants
+   * defined via `Event.replyStream()`.
+   */
+  readonly _replyStreamSchemas: ReadonlyMap<string, Schema.Codec<unknown, unknown>>;
 }
 
 // ============================================================================
@@ -271,6 +315,8 @@ const buildMachineSchema = <D extends Record<string, Schema.Struct.Fields>>(
   constructors: Record<string, (args: Record<string, unknown>) => Record<string, unknown>>;
   _definition: D;
   replySchemas: Map<string, Schema.Decoder<unknown>>;
+  replyErrorSchemas: Map<string, Schema.Codec<unknown, unknown>>;
+  replyStreamSchemas: Map<string, Schema.Codec<unknown, unknown>>;
   $is: <Tag extends string>(tag: Tag) => (u: unknown) => boolean;
   $match: (valueOrCases: unknown, maybeCases?: unknown) => unknown;
 } => {
@@ -281,6 +327,8 @@ const buildMachineSchema = <D extends Record<string, Schema.Struct.Fields>>(
     (args: Record<string, unknown>) => Record<string, unknown>
   >;
   const replySchemas = new Map<string, Schema.Decoder<unknown>>();
+  const replyErrorSchemas = new Map<string, Schema.Codec<unknown, unknown>>();
+  const replyStreamSchemas = new Map<string, Schema.Codec<unknown, unknown>>();
 
   for (const tag of Object.keys(definition)) {
     const fields = definition[tag];
@@ -291,6 +339,16 @@ const buildMachineSchema = <D extends Record<string, Schema.Struct.Fields>>(
       const rs = (fields as Record<symbol, Schema.Decoder<unknown>>)[ReplySchemaSymbol];
       if (rs !== undefined) replySchemas.set(tag, rs);
     }
+    if (ReplyErrorSchemaSymbol in fields) {
+      const es = (fields as Record<symbol, Schema.Codec<unknown, unknown>>)[ReplyErrorSchemaSymbol];
+      if (es !== undefined) replyErrorSchemas.set(tag, es);
+    }
+    if (ReplyStreamSchemaSymbol in fields) {
+      const is = (fields as Record<symbol, Schema.Codec<unknown, unknown>>)[
+        ReplyStreamSchemaSymbol
+      ];
+      if (is !== undefined) replyStreamSchemas.set(tag, is);
+    }
 
     const variantSchema = Schema.TaggedStruct(tag, fields);
     variants[tag] = variantSchema;
@@ -375,6 +433,8 @@ const buildMachineSchema = <D extends Record<string, Schema.Struct.Fields>>(
     constructors,
     _definition: definition,
     replySchemas,
+    replyErrorSchemas,
+    replyStreamSchemas,
     $is,
     $match,
   };
@@ -385,8 +445,17 @@ const buildMachineSchema = <D extends Record<string, Schema.Struct.Fields>>(
  * Builds the schema object with variants, constructors, $is, and $match.
  */
 const createMachineSchema = <D extends Record<string, Schema.Struct.Fields>>(definition: D) => {
-  const { schema, variants, constructors, _definition, replySchemas, $is, $match } =
-    buildMachineSchema(definition);
+  const {
+    schema,
+    variants,
+    constructors,
+    _definition,
+    replySchemas,
+    replyErrorSchemas,
+    replyStreamSchemas,
+    $is,
+    $match,
+  } = buildMachineSchema(definition);
   // Union-level with: dispatch to per-variant with based on _tag
   const withFn = (source: { _tag: string }, partial?: Record<string, unknown>) => {
     const ctor = constructors[source._tag];
@@ -404,6 +473,8 @@ const createMachineSchema = <D extends Record<string, Schema.Struct.Fields>>(def
     variants,
     _definition,
     _replySchemas: replySchemas,
+    _replyErrorSchemas: replyErrorSchemas,
+    _replyStreamSchemas: replyStreamSchemas,
     schema,
     $is,
     $match,
@@ -452,8 +523,8 @@ export const State = <const D extends Record<string, Schema.Struct.Fields>>(
  * accidental use of constructors from different event schemas
  * (unless they have identical definitions).
  *
- * Use `Event.reply(fields, replySchema)` to define events that support
- * typed `ask()` replies.
+ * Use `Event.reply(fields, replySchema, errorSchema?)` to define events that support
+ * typed `ask()` replies (and typed `Machine.replyError()` failures).
  *
  * @example
  * ```ts
@@ -479,18 +550,54 @@ const EventImpl = <const D extends Record<string, Schema.Struct.Fields>>(
 /**
  * Annotate event fields with a reply schema.
  * Events defined with `Event.reply(fields, replySchema)` enable typed `ask()`.
+ * With `errorSchema`, handlers may reject via `Machine.replyError(state, error)` —
+ * `ask()` fails with the error, encoded with the schema across the cluster `Ask` RPC.
  */
-const replyFieldsFn = <F extends Schema.Struct.Fields, RS extends Schema.Schema<unknown>>(
+const replyFieldsFn = <
+  F extends Schema.Struct.Fields,
+  RS extends Schema.Schema<unknown>,
+  ES extends Schema.Schema<unknown> = Schema.Never,
+>(
   fields: F,
   replySchema: RS,
-): ReplyFields<F, RS> => {
-  const annotated = { ...fields } as ReplyFields<F, RS>;
+  errorSchema?: ES,
+): ReplyFields<F, RS, ES> => {
+  const annotated = { ...fields } as ReplyFields<F, RS, ES>;
   Object.defineProperty(annotated, ReplySchemaSymbol, {
     value: replySchema,
     enumerable: false,
     writable: false,
   });
+  if (errorSchema !== undefined) {
+    Object.defineProperty(annotated, ReplyErrorSchemaSymbol, {
+      value: errorSchema,
+      enumerable: false,
+      writable: false,
+    });
+  }
+  return annotated;
+};
+
+/**
+ * Annotate event fields with a streamed reply item schema.
+ * Events defined with `Event.replyStream(fields, itemSchema)` enable `askStream()`:
+ * the handler returns `Machine.deferReply(state)` and a spawn handler emits items
+ * with `self.emitReply(item)` until `self.completeReply()`.
+ */
+const replyStreamFieldsFn = <F extends Schema.Struct.Fields, IS extends Schema.Schema<unknown>>(
+  fields: F,
+  itemSchema: IS,
+): ReplyStreamFields<F, IS> => {
+  const annotated = { ...fields } as ReplyStreamFields<F, IS>;
+  Object.defineProperty(annotated, ReplyStreamSchemaSymbol, {
+    value: itemSchema,
+    enumerable: false,
+    writable: false,
+  });
   return annotated;
 };
 
-export const Event = Object.assign(EventImpl, { reply: replyFieldsFn });
+export const Event = Object.assign(EventImpl, {
+  reply: replyFieldsFn,
+  replyStream: replyStreamFieldsFn,
+});
@@ -2,7 +2,7 @@
  * Supervision types for actor lifecycle management.
  *
  * Core concepts:
- * - `ActorExit<S>` — why an actor stopped (final, explicit stop, or defect)
+ * - `ActorExit<S>` — why an actor stopped (final, explicit stop, unhandled failure, or defect)
  * - `DefectPhase` — where in the lifecycle a defect occurred
  * - `Supervision.Policy` — Schedule-based restart policy
  * - `CellPhase<S>` — internal phase machine for serializing stop/restart/drain
@@ -22,25 +22,42 @@ import { type Cause, type Duration, Schedule } from "effect";
  * - `spawn` — during state spawn effect execution
  * - `background` — in a background effect fiber
  * - `initial-spawn` — during initial state spawn effects (before event loop)
+ * - `enter` — in an `onEnter` action
+ * - `exit` — in an `onExit` action
  */
-export type DefectPhase = "transition" | "spawn" | "background" | "initial-spawn";
+export type DefectPhase =
+  | "transition"
+  | "spawn"
+  | "background"
+  | "initial-spawn"
+  | "enter"
+  | "exit";
 
 /**
  * Terminal exit reason for an actor generation.
  *
- * - `Final` — machine reached a final state normally
+ * - `Final` — machine reached a final state normally, with the output derived by `.final()`
  * - `Stopped` — explicit `actor.stop` or `actor.drain`
+ * - `Failed` — a transition handler failed with a typed error no `.onError()` handles.
+ *   `state` is the state the transition started from. Terminal — never restarted
  * - `Defect` — unhandled error in the runtime
  */
-export type ActorExit<S> =
-  | { readonly _tag: "Final"; readonly state: S }
+export type ActorExit<S, O = unknown> =
+  | { readonly _tag: "Final"; readonly state: S; readonly output: O }
   | { readonly _tag: "Stopped" }
+  | { readonly _tag: "Failed"; readonly state: S; readonly error: unknown }
   | { readonly _tag: "Defect"; readonly cause: Cause.Cause<unknown>; readonly phase: DefectPhase };
 
 /** Constructors for ActorExit */
 export const ActorExit = {
-  Final: <S>(state: S): ActorExit<S> => ({ _tag: "Final", state }),
+  /** `output` defaults to `undefined`, for machines without an output */
+  Final: <S, O = undefined>(state: S, output?: O): ActorExit<S, O> => ({
+    _tag: "Final",
+    state,
+    output: output as O,
+  }),
   Stopped: { _tag: "Stopped" } as ActorExit<never>,
+  Failed: <S>(state: S, error: unknown): ActorExit<S> => ({ _tag: "Failed", state, error }),
   Defect: <S = never>(cause: Cause.Cause<unknown>, phase: DefectPhase): ActorExit<S> => ({
     _tag: "Defect",
     cause,
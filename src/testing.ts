@@ -4,21 +4,36 @@ import type { Machine, MachineRef } from "./machine.js";
 import { materializeMachine } from "./machine.js";
 import { AssertionError } from "./errors.js";
 import type { SlotsDef, ProvideSlots } from "./slot.js";
-import { executeTransition, shouldPostpone } from "./internal/transition.js";
-import { stubSystem } from "./internal/utils.js";
+import type { HistoryRef } from "./internal/transition.js";
+import {
+  executeTransition,
+  isFinalState,
+  recordHistory,
+  settleAlways,
+  shouldPostpone,
+  stateKey,
+} from "./internal/transition.js";
+import { INTERNAL_INIT_EVENT, resolveInput, stubSystem } from "./internal/utils.js";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-type MachineInput<S, E, R, SD extends SlotsDef = Record<string, never>> =
+type MachineInput<S, E, R, SD extends SlotsDef = Record<string, never>, I = unknown> =
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  Machine<S, E, R, any, any, SD>;
+  Machine<S, E, R, any, any, SD, any, I>;
 
 const makeDummySelf = <E>(label: string): MachineRef<E> => {
   const dummySend = Effect.fn(label)((_event: E) => Effect.void);
   return {
     send: dummySend,
     cast: dummySend,
+    raise: dummySend,
+    stash: () => Effect.void,
+    unstashAll: () => Effect.void,
     spawn: () => Effect.die(`spawn not supported in ${label}`),
     reply: () => Effect.succeed(false),
+    emitReply: () => Effect.succeed(false),
+    completeReply: () => Effect.succeed(false),
+    startTimer: () => Effect.void,
+    cancelTimer: () => Effect.void,
   };
 };
 
@@ -34,7 +49,7 @@ export interface SimulationResult<S> {
  * Simulate a sequence of events through a machine without running an actor.
  * Useful for testing state transitions in isolation.
  * Does not run onEnter/spawn/background effects, but does run slots
- * within transition handlers.
+ * within transition handlers. `.always()` microsteps appear in `states`.
  *
  * @example
  * ```ts
@@ -55,31 +70,59 @@ export const simulate = Effect.fn("effect-machine.simulate")(function* <
   E extends { readonly _tag: string },
   R,
   SD extends SlotsDef = Record<string, never>,
+  I = unknown,
 >(
-  input: MachineInput<S, E, R, SD>,
+  input: MachineInput<S, E, R, SD, I>,
   events: ReadonlyArray<E>,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  options?: { slots?: ProvideSlots<SD, any> },
+  options?: { slots?: ProvideSlots<SD, any>; input?: I },
 ) {
-  const machine = materializeMachine(input, options?.slots) as Machine<
-    S,
-    E,
-    R,
-    Record<string, never>,
-    Record<string, never>,
-    SD
-  >;
+  const machine = materializeMachine(
+    yield* resolveInput(input, options?.input).pipe(Effect.orDie),
+    options?.slots,
+  ) as Machine<S, E, R, Record<string, never>, Record<string, never>, SD>;
 
   const dummySelf = makeDummySelf<E>("effect-machine.testing.simulate");
 
-  let currentState = machine.initial;
-  const states: S[] = [currentState];
+  const history: HistoryRef = new Map();
+  recordHistory(machine, machine.initial, history);
+  const initEvent = { _tag: INTERNAL_INIT_EVENT } as E;
+  const states: S[] = [
+    machine.initial,
+    ...(yield* settleAlways(
+      machine,
+      machine.initial,
+      initEvent,
+      dummySelf,
+      stubSystem,
+      "simulation",
+      history,
+    )),
+  ];
+  let currentState = states[states.length - 1] as S;
   const hasPostponeRules = machine.postponeRules.length > 0;
   const postponed: E[] = [];
 
+  // Record a transition and follow any eventless transitions out of the new state
+  const advance = Effect.fn("effect-machine.simulate.advance")(function* (next: S, event: E) {
+    recordHistory(machine, next, history);
+    states.push(next);
+    const steps = yield* settleAlways(
+      machine,
+      next,
+      event,
+      dummySelf,
+      stubSystem,
+      "simulation",
+      history,
+    );
+    states.push(...steps);
+    return steps.length > 0 ? (steps[steps.length - 1] as S) : next;
+  });
+
   for (const event of events) {
     // Check postpone rules
-    if (hasPostponeRules && shouldPostpone(machine, currentState._tag, event._tag)) {
+    if (hasPostponeRules && shouldPostpone(machine, currentState, event)) {
       postponed.push(event);
       continue;
     }
@@ -91,28 +134,28 @@ export const simulate = Effect.fn("effect-machine.simulate")(function* <
       dummySelf,
       stubSystem,
       "simulation",
+      history,
     );
 
     if (!result.transitioned) {
       continue;
     }
 
-    const prevTag = currentState._tag;
-    currentState = result.newState;
-    states.push(currentState);
+    const prevTag = stateKey(machine, currentState);
+    currentState = yield* advance(result.newState, event);
 
     // Stop if final state
-    if (machine.finalStates.has(currentState._tag)) {
+    if (isFinalState(machine, currentState)) {
       break;
     }
 
     // Drain postponed events after state tag change — loop until stable
     let drainTag = prevTag;
-    while (currentState._tag !== drainTag && postponed.length > 0) {
-      drainTag = currentState._tag;
+    while (stateKey(machine, currentState) !== drainTag && postponed.length > 0) {
+      drainTag = stateKey(machine, currentState);
       const drained = postponed.splice(0);
       for (const postponedEvent of drained) {
-        if (shouldPostpone(machine, currentState._tag, postponedEvent._tag)) {
+        if (shouldPostpone(machine, currentState, postponedEvent)) {
           postponed.push(postponedEvent);
           continue;
         }
@@ -123,11 +166,11 @@ export const simulate = Effect.fn("effect-machine.simulate")(function* <
           dummySelf,
           stubSystem,
           "simulation",
+          history,
         );
         if (drainResult.transitioned) {
-          currentState = drainResult.newState;
-          states.push(currentState);
-          if (machine.finalStates.has(currentState._tag)) {
+          currentState = yield* advance(drainResult.newState, postponedEvent);
+          if (isFinalState(machine, currentState)) {
             break;
           }
         }
@@ -149,12 +192,13 @@ export const assertReaches = Effect.fn("effect-machine.assertReaches")(function*
   E extends { readonly _tag: string },
   R,
   SD extends SlotsDef = Record<string, never>,
+  I = unknown,
 >(
-  input: MachineInput<S, E, R, SD>,
+  input: MachineInput<S, E, R, SD, I>,
   events: ReadonlyArray<E>,
   expectedTag: string,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  options?: { slots?: ProvideSlots<SD, any> },
+  options?: { slots?: ProvideSlots<SD, any>; input?: I },
 ) {
   const result = yield* simulate(input, events, options);
   if (result.finalState._tag !== expectedTag) {
@@ -184,12 +228,13 @@ export const assertPath = Effect.fn("effect-machine.assertPath")(function* <
   E extends { readonly _tag: string },
   R,
   SD extends SlotsDef = Record<string, never>,
+  I = unknown,
 >(
-  input: MachineInput<S, E, R, SD>,
+  input: MachineInput<S, E, R, SD, I>,
   events: ReadonlyArray<E>,
   expectedPath: ReadonlyArray<string>,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  options?: { slots?: ProvideSlots<SD, any> },
+  options?: { slots?: ProvideSlots<SD, any>; input?: I },
 ) {
   const result = yield* simulate(input, events, options);
   const actualPath = result.states.map((s) => s._tag);
@@ -235,12 +280,13 @@ export const assertNeverReaches = Effect.fn("effect-machine.assertNeverReaches")
   E extends { readonly _tag: string },
   R,
   SD extends SlotsDef = Record<string, never>,
+  I = unknown,
 >(
-  input: MachineInput<S, E, R, SD>,
+  input: MachineInput<S, E, R, SD, I>,
   events: ReadonlyArray<E>,
   forbiddenTag: string,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  options?: { slots?: ProvideSlots<SD, any> },
+  options?: { slots?: ProvideSlots<SD, any>; input?: I },
 ) {
   const result = yield* simulate(input, events, options);
 
@@ -268,7 +314,12 @@ export interface TestHarness<S, E, R> {
 /**
  * Options for creating a test harness
  */
-export interface TestHarnessOptions<S, E, SD extends SlotsDef = Record<string, never>> {
+export interface TestHarnessOptions<
+  S,
+  E,
+  SD extends SlotsDef = Record<string, never>,
+  I = unknown,
+> {
   /**
    * Called after each transition with the previous state, event, and new state.
    * Useful for logging or spying on transitions.
@@ -277,6 +328,8 @@ export interface TestHarnessOptions<S, E, SD extends SlotsDef = Record<string, n
   /** Slot handler implementations. */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   readonly slots?: ProvideSlots<SD, any>;
+  /** Spawn-time input for machines with an input-derived initial state. */
+  readonly input?: I;
 }
 
 /**
@@ -305,19 +358,35 @@ export const createTestHarness = Effect.fn("effect-machine.createTestHarness")(f
   E extends { readonly _tag: string },
   R,
   SD extends SlotsDef = Record<string, never>,
->(input: MachineInput<S, E, R, SD>, options?: TestHarnessOptions<S, E, SD>) {
-  const machine = materializeMachine(input, options?.slots) as Machine<
-    S,
-    E,
-    R,
-    Record<string, never>,
-    Record<string, never>,
-    SD
-  >;
+  I = unknown,
+>(input: MachineInput<S, E, R, SD, I>, options?: TestHarnessOptions<S, E, SD, I>) {
+  const machine = materializeMachine(
+    yield* resolveInput(input, options?.input).pipe(Effect.orDie),
+    options?.slots,
+  ) as Machine<S, E, R, Record<string, never>, Record<string, never>, SD>;
 
   const dummySelf = makeDummySelf<E>("effect-machine.testing.harness");
 
-  const stateRef = yield* SubscriptionRef.make(machine.initial);
+  const history: HistoryRef = new Map();
+  recordHistory(machine, machine.initial, history);
+
+  // Follow eventless transitions out of `state`, returning the state it settles in
+  const settle = Effect.fn("effect-machine.testHarness.settle")(function* (state: S, event: E) {
+    const steps = yield* settleAlways(
+      machine,
+      state,
+      event,
+      dummySelf,
+      stubSystem,
+      "test-harness",
+      history,
+    );
+    return steps.length > 0 ? (steps[steps.length - 1] as S) : state;
+  });
+
+  const stateRef = yield* SubscriptionRef.make(
+    yield* settle(machine.initial, { _tag: INTERNAL_INIT_EVENT } as E),
+  );
   const hasPostponeRules = machine.postponeRules.length > 0;
   const postponed: E[] = [];
 
@@ -325,7 +394,7 @@ export const createTestHarness = Effect.fn("effect-machine.createTestHarness")(f
     const currentState = yield* SubscriptionRef.get(stateRef);
 
     // Check postpone rules
-    if (hasPostponeRules && shouldPostpone(machine, currentState._tag, event._tag)) {
+    if (hasPostponeRules && shouldPostpone(machine, currentState, event)) {
       postponed.push(event);
       return currentState;
     }
@@ -337,14 +406,16 @@ export const createTestHarness = Effect.fn("effect-machine.createTestHarness")(f
       dummySelf,
       stubSystem,
       "test-harness",
+      history,
     );
 
     if (!result.transitioned) {
       return currentState;
     }
 
-    const prevTag = currentState._tag;
-    const newState = result.newState;
+    const prevTag = stateKey(machine, currentState);
+    recordHistory(machine, result.newState, history);
+    const newState = yield* settle(result.newState, event);
     yield* SubscriptionRef.set(stateRef, newState);
 
     // Call transition observer
@@ -354,13 +425,13 @@ export const createTestHarness = Effect.fn("effect-machine.createTestHarness")(f
 
     // Drain postponed after state tag change — loop until stable
     let drainTag = prevTag;
-    let currentTag = newState._tag;
+    let currentTag = stateKey(machine, newState);
     while (currentTag !== drainTag && postponed.length > 0) {
       drainTag = currentTag;
       const drained = postponed.splice(0);
       for (const postponedEvent of drained) {
         const state = yield* SubscriptionRef.get(stateRef);
-        if (shouldPostpone(machine, state._tag, postponedEvent._tag)) {
+        if (shouldPostpone(machine, state, postponedEvent)) {
           postponed.push(postponedEvent);
           continue;
         }
@@ -371,12 +442,15 @@ export const createTestHarness = Effect.fn("effect-machine.createTestHarness")(f
           dummySelf,
           stubSystem,
           "test-harness",
+          history,
         );
         if (drainResult.transitioned) {
-          yield* SubscriptionRef.set(stateRef, drainResult.newState);
-          currentTag = drainResult.newState._tag;
+          recordHistory(machine, drainResult.newState, history);
+          const drainedState = yield* settle(drainResult.newState, postponedEvent);
+          yield* SubscriptionRef.set(stateRef, drainedState);
+          currentTag = stateKey(machine, drainedState);
           if (options?.onTransition !== undefined) {
-            options.onTransition(state, postponedEvent, drainResult.newState);
+            options.onTransition(state, postponedEvent, drainedState);
           }
         }
       }
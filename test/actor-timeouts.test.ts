@@ -0,0 +1,204 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Deferred, Effect, Fiber, Layer, Schema } from "effect";
+import { Entity, ShardingConfig } from "effect/unstable/cluster";
+import { TestClock } from "effect/testing";
+
+import {
+  ActorSystemDefault,
+  ActorSystemService,
+  ActorTimeoutError,
+  Machine,
+  State,
+  Event,
+} from "../src/index.js";
+import { EntityMachine, makeEntityActorRef, toEntity } from "../src/cluster/index.js";
+import { describe, expect, it, yieldFibers } from "effect-bun-test";
+
+const JobState = State({
+  Idle: {},
+  Done: {},
+});
+
+const JobEvent = Event({
+  Slow: {},
+  Count: Event.reply({}, Schema.Number),
+  Finish: {},
+});
+
+const buildJobMachine = () => {
+  let counted = 0;
+  return Machine.make({
+    state: JobState,
+    event: JobEvent,
+    initial: JobState.Idle,
+  })
+    .on(JobState.Idle, JobEvent.Slow, () => Effect.as(Effect.sleep("5 seconds"), JobState.Idle))
+    .on(JobState.Idle, JobEvent.Count, () =>
+      Effect.sync(() => Machine.reply(JobState.Idle, ++counted)),
+    )
+    .on(JobState.Idle, JobEvent.Finish, () => JobState.Done)
+    .final(JobState.Done);
+};
+
+describe("ActorRef timeouts", () => {
+  it.scoped("ask fails with ActorTimeoutError and the abandoned request is skipped", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("job", buildJobMachine());
+
+      yield* actor.send(JobEvent.Slow);
+      const asking = yield* Effect.forkChild(
+        Effect.flip(actor.ask(JobEvent.Count, { timeout: "1 second" })),
+      );
+      const calling = yield* Effect.forkChild(
+        Effect.flip(actor.call(JobEvent.Finish, { timeout: "1 second" })),
+      );
+      yield* yieldFibers;
+      yield* TestClock.adjust("1 second");
+
+      const error = yield* Fiber.join(asking);
+      expect(error).toBeInstanceOf(ActorTimeoutError);
+      expect(error).toMatchObject({ actorId: "job", operation: "ask", timeoutMillis: 1000 });
+      expect(yield* Fiber.join(calling)).toMatchObject({ operation: "call" });
+
+      // The slow handler finishes; neither timed-out request reaches the machine
+      yield* TestClock.adjust("5 seconds");
+      yield* yieldFibers;
+      expect(yield* actor.ask(JobEvent.Count)).toBe(1);
+      expect(yield* actor.snapshot).toEqual(JobState.Idle);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("call fails with ActorTimeoutError and the abandoned request is skipped", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("job", buildJobMachine());
+
+      yield* actor.send(JobEvent.Slow);
+      const calling = yield* Effect.forkChild(
+        Effect.flip(actor.call(JobEvent.Finish, { timeout: "1 second" })),
+      );
+      yield* yieldFibers;
+      yield* TestClock.adjust("1 second");
+
+      const error = yield* Fiber.join(calling);
+      expect(error).toBeInstanceOf(ActorTimeoutError);
+      expect(error).toMatchObject({ actorId: "job", operation: "call", timeoutMillis: 1000 });
+
+      yield* TestClock.adjust("5 seconds");
+      yield* yieldFibers;
+      expect(yield* actor.snapshot).toEqual(JobState.Idle);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("an ask that times out while postponed is skipped when the buffer drains", () =>
+    Effect.gen(function* () {
+      let counted = 0;
+      const machine = Machine.make({ state: JobState, event: JobEvent, initial: JobState.Idle })
+        .on(JobState.Idle, JobEvent.Finish, () => JobState.Done)
+        .on(JobState.Done, JobEvent.Count, () =>
+          Effect.sync(() => Machine.reply(JobState.Done, ++counted)),
+        )
+        .postpone(JobState.Idle, JobEvent.Count);
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("job", machine);
+
+      const asking = yield* Effect.forkChild(
+        Effect.flip(actor.ask(JobEvent.Count, { timeout: "1 second" })),
+      );
+      yield* yieldFibers;
+      yield* TestClock.adjust("2 seconds");
+      expect(yield* Fiber.join(asking)).toBeInstanceOf(ActorTimeoutError);
+
+      yield* actor.send(JobEvent.Finish);
+      yield* yieldFibers;
+      expect(counted).toBe(0);
+      expect(yield* actor.ask(JobEvent.Count)).toBe(1);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("waitFor, awaitFinalWith and sendAndWait time out", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("job", buildJobMachine());
+
+      const waiting = yield* Effect.forkChild(
+        Effect.all(
+          [
+            Effect.flip(actor.waitFor(JobState.Done, { timeout: "1 second" })),
+            Effect.flip(actor.awaitFinalWith({ timeout: "1 second" })),
+            Effect.flip(actor.sendAndWait(JobEvent.Slow, JobState.Done, { timeout: "1 second" })),
+          ],
+          { concurrency: "unbounded" },
+        ),
+      );
+      yield* yieldFibers;
+      yield* TestClock.adjust("1 second");
+
+      const errors = yield* Fiber.join(waiting);
+      expect(errors.map((error) => error.operation)).toEqual([
+        "waitFor",
+        "awaitFinal",
+        "sendAndWait",
+      ]);
+
+      // Within the deadline the result is unchanged
+      yield* TestClock.adjust("5 seconds");
+      const final = yield* actor.sendAndWait(JobEvent.Finish, { timeout: "1 second" });
+      expect(final).toEqual(JobState.Done);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+});
+
+const GateState = State({ Open: { count: Schema.Number } });
+
+const GateEvent = Event({
+  Hold: {},
+  Count: Event.reply({}, Schema.Number),
+});
+
+describe("EntityActorRef timeouts", () => {
+  it.scopedLive("ask fails with ActorTimeoutError while the entity is busy", () =>
+    Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const machine = Machine.make({
+        state: GateState,
+        event: GateEvent,
+        initial: GateState.Open({ count: 0 }),
+      })
+        .on(GateState.Open, GateEvent.Hold, ({ state }) =>
+          Deferred.await(gate).pipe(Effect.as(state)),
+        )
+        .on(GateState.Open, GateEvent.Count, ({ state }) =>
+          Machine.reply(GateState.Open({ count: state.count + 1 }), state.count + 1),
+        );
+      const entity = toEntity(machine, { type: "GateTimeout" });
+      const makeClient = yield* Entity.makeTestClient(
+        entity,
+        EntityMachine.layer(entity, machine).pipe(Layer.provide(ActorSystemDefault)),
+      );
+      const ref = makeEntityActorRef(yield* makeClient("gate-1"), "gate-1");
+
+      const holding = yield* Effect.forkChild(ref.send(GateEvent.Hold));
+      yield* Effect.sleep("10 millis");
+      const error = yield* Effect.flip(ref.ask(GateEvent.Count, { timeout: "20 millis" }));
+      expect(error).toBeInstanceOf(ActorTimeoutError);
+      expect(error).toMatchObject({ actorId: "gate-1", operation: "ask" });
+
+      // The entity keeps serving — the timed-out ask was already in its cluster mailbox
+      yield* Deferred.succeed(gate, undefined);
+      yield* Fiber.join(holding);
+      expect(yield* ref.ask(GateEvent.Count)).toBe(2);
+    }).pipe(
+      Effect.provide(
+        ShardingConfig.layer({
+          shardsPerGroup: 300,
+          entityMailboxCapacity: 10,
+          entityTerminationTimeout: 0,
+          entityMessagePollInterval: 5000,
+          sendRetryInterval: 100,
+        }),
+      ),
+    ),
+  );
+});
@@ -0,0 +1,144 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Cause, Effect, Exit, Schema } from "effect";
+
+import {
+  AlwaysLoopError,
+  Machine,
+  State,
+  Event,
+  createTestHarness,
+  simulate,
+} from "../src/index.js";
+import { describe, expect, it } from "effect-bun-test";
+
+const FormState = State({
+  Editing: { input: Schema.String },
+  Validating: { input: Schema.String },
+  Valid: { input: Schema.String },
+  Invalid: { input: Schema.String, reason: Schema.String },
+  Submitted: {},
+});
+type FormState = typeof FormState.Type;
+
+const FormEvent = Event({
+  Submit: { input: Schema.String },
+  Edit: {},
+  Confirm: {},
+});
+
+const Checked = Machine.group("Checked", [FormState.Valid, FormState.Invalid]);
+
+const formMachine = Machine.make({
+  state: FormState,
+  event: FormEvent,
+  initial: FormState.Editing({ input: "" }),
+})
+  .on(FormState.Editing, FormEvent.Submit, ({ event }) =>
+    FormState.Validating({ input: event.input }),
+  )
+  .on(Checked, FormEvent.Edit, ({ state }) => FormState.Editing({ input: state.input }))
+  .on(FormState.Valid, FormEvent.Confirm, () => FormState.Submitted)
+  .always(FormState.Validating, ({ state }) =>
+    state.input.length > 0
+      ? FormState.Valid({ input: state.input })
+      : FormState.Invalid({ input: state.input, reason: "empty" }),
+  )
+  .final(FormState.Submitted);
+
+describe("Machine.always", () => {
+  it.effect("routes through transient states in simulate", () =>
+    Effect.gen(function* () {
+      const result = yield* simulate(formMachine, [
+        FormEvent.Submit({ input: "" }),
+        FormEvent.Edit,
+        FormEvent.Submit({ input: "hello" }),
+      ]);
+      expect(result.states.map((s) => s._tag)).toEqual([
+        "Editing",
+        "Validating",
+        "Invalid",
+        "Editing",
+        "Validating",
+        "Valid",
+      ]);
+      expect(result.finalState).toEqual(FormState.Valid({ input: "hello" }));
+    }),
+  );
+
+  it.effect("settles the initial state, groups and chains in the test harness", () =>
+    Effect.gen(function* () {
+      const machine = Machine.make({
+        state: FormState,
+        event: FormEvent,
+        initial: FormState.Validating({ input: "draft" }),
+      })
+        .on(Checked, FormEvent.Edit, ({ state }) => FormState.Validating({ input: state.input }))
+        .always(FormState.Validating, ({ state }) => FormState.Valid({ input: state.input }))
+        // Group-level always — applies to every checked state
+        .always(Checked, ({ state }) =>
+          Effect.succeed(
+            state.input === "done" ? FormState.Submitted : (undefined as FormState | undefined),
+          ),
+        );
+
+      const harness = yield* createTestHarness(machine);
+      expect(yield* harness.getState).toEqual(FormState.Valid({ input: "draft" }));
+
+      // Replay settles a `from` snapshot the same way
+      const restored = yield* Machine.replay(machine, [], {
+        from: FormState.Valid({ input: "done" }),
+      });
+      expect(restored).toEqual(FormState.Submitted);
+    }),
+  );
+
+  it.scopedLive("runs each microstep's lifecycle before the call settles", () =>
+    Effect.gen(function* () {
+      const log: string[] = [];
+      const actor = yield* Machine.spawn(
+        formMachine
+          .onEnter(FormState.Validating, () => Effect.sync(() => log.push("enter:Validating")))
+          .onExit(FormState.Validating, () => Effect.sync(() => log.push("exit:Validating")))
+          .onEnter(Checked, () => Effect.sync(() => log.push("enter:Checked"))),
+      );
+      yield* actor.start;
+
+      const result = yield* actor.call(FormEvent.Submit({ input: "hi" }));
+      expect(result.newState).toEqual(FormState.Valid({ input: "hi" }));
+      expect(log).toEqual(["enter:Validating", "exit:Validating", "enter:Checked"]);
+
+      const replayed = yield* Machine.replay(formMachine, [FormEvent.Submit({ input: "hi" })]);
+      expect(replayed).toEqual(result.newState);
+    }),
+  );
+
+  it.scopedLive("defects with AlwaysLoopError when states never settle", () =>
+    Effect.gen(function* () {
+      const looping = Machine.make({
+        state: FormState,
+        event: FormEvent,
+        initial: FormState.Editing({ input: "" }),
+      })
+        .on(FormState.Editing, FormEvent.Submit, ({ event }) =>
+          FormState.Validating({ input: event.input }),
+        )
+        .always(FormState.Validating, ({ state }) => FormState.Valid(state))
+        .always(FormState.Valid, ({ state }) => FormState.Validating(state));
+
+      const simulated = yield* Effect.exit(simulate(looping, [FormEvent.Submit({ input: "x" })]));
+      expect(Exit.isFailure(simulated)).toBe(true);
+      if (Exit.isFailure(simulated)) {
+        expect(Cause.squash(simulated.cause)).toBeInstanceOf(AlwaysLoopError);
+      }
+
+      const actor = yield* Machine.spawn(looping);
+      yield* actor.start;
+      yield* actor.send(FormEvent.Submit({ input: "x" }));
+      const exit = yield* actor.awaitExit;
+      expect(exit._tag === "Defect" && exit.phase).toBe("transition");
+      if (exit._tag === "Defect") {
+        expect(Cause.squash(exit.cause)).toBeInstanceOf(AlwaysLoopError);
+      }
+    }),
+  );
+});
@@ -0,0 +1,56 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Effect, Schema, SubscriptionRef } from "effect";
+
+import { ActorSystemDefault, ActorSystemService, Machine, State, Event } from "../src/index.js";
+import { describe, expect, it } from "effect-bun-test";
+
+class InsufficientFunds extends Schema.TaggedErrorClass<InsufficientFunds>()("InsufficientFunds", {
+  balance: Schema.Number,
+}) {}
+
+const AccountState = State({
+  Open: { balance: Schema.Number },
+});
+
+const AccountEvent = Event({
+  Withdraw: Event.reply({ amount: Schema.Number }, Schema.Number, InsufficientFunds),
+  Balance: Event.reply({}, Schema.Number),
+});
+
+const accountMachine = Machine.make({
+  state: AccountState,
+  event: AccountEvent,
+  initial: AccountState.Open({ balance: 100 }),
+})
+  .on(AccountState.Open, AccountEvent.Withdraw, ({ state, event }) =>
+    event.amount > state.balance
+      ? Machine.replyError(state, new InsufficientFunds({ balance: state.balance }))
+      : Machine.reply(AccountState.Open({ balance: state.balance - event.amount }), event.amount),
+  )
+  .on(AccountState.Open, AccountEvent.Balance, ({ state }) => Machine.reply(state, state.balance));
+
+describe("Typed ask errors", () => {
+  it.scoped("Machine.replyError fails the ask with the typed error", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("account", accountMachine);
+
+      expect(yield* actor.ask(AccountEvent.Withdraw({ amount: 30 }))).toBe(30);
+
+      const error = yield* Effect.flip(actor.ask(AccountEvent.Withdraw({ amount: 500 })));
+      expect(error).toBeInstanceOf(InsufficientFunds);
+      expect(error).toMatchObject({ _tag: "InsufficientFunds", balance: 70 });
+
+      // The rejecting transition still commits its state; the actor keeps serving
+      expect(yield* SubscriptionRef.get(actor.state)).toEqual(AccountState.Open({ balance: 70 }));
+      expect(yield* actor.ask(AccountEvent.Balance)).toBe(70);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.effect("reply error schemas are recorded on the machine", () =>
+    Effect.sync(() => {
+      expect(accountMachine.replyErrorSchemas.get("Withdraw")).toBe(InsufficientFunds);
+      expect(accountMachine.replyErrorSchemas.has("Balance")).toBe(false);
+    }),
+  );
+});
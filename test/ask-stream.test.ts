@@ -0,0 +1,74 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Effect, Fiber, Schema, Stream, SubscriptionRef } from "effect";
+
+import {
+  ActorStoppedError,
+  ActorSystemDefault,
+  ActorSystemService,
+  Machine,
+  State,
+  Event,
+} from "../src/index.js";
+import { describe, expect, it, yieldFibers } from "effect-bun-test";
+
+const ImportState = State({
+  Idle: {},
+  Importing: { rows: Schema.Number },
+});
+
+const ImportEvent = Event({
+  Import: Event.replyStream({ rows: Schema.Number }, Schema.Struct({ imported: Schema.Number })),
+  Finished: {},
+});
+
+const buildImportMachine = (options: { readonly complete: boolean }) =>
+  Machine.make({
+    state: ImportState,
+    event: ImportEvent,
+    initial: ImportState.Idle,
+  })
+    .on(ImportState.Idle, ImportEvent.Import, ({ event }) =>
+      Machine.deferReply(ImportState.Importing({ rows: event.rows })),
+    )
+    .on(ImportState.Importing, ImportEvent.Finished, () => ImportState.Idle)
+    .spawn(ImportState.Importing, ({ state, self }) =>
+      Effect.gen(function* () {
+        for (let imported = 1; imported <= state.rows; imported++) {
+          yield* self.emitReply({ imported });
+        }
+        if (!options.complete) return yield* Effect.never;
+        yield* self.completeReply();
+        yield* self.send(ImportEvent.Finished);
+      }),
+    );
+
+describe("Streaming replies", () => {
+  it.scoped("askStream emits progress items until completeReply", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("import", buildImportMachine({ complete: true }));
+
+      const items = yield* Stream.runCollect(actor.askStream(ImportEvent.Import({ rows: 3 })));
+      expect(items).toEqual([{ imported: 1 }, { imported: 2 }, { imported: 3 }]);
+
+      yield* yieldFibers;
+      expect((yield* SubscriptionRef.get(actor.state))._tag).toBe("Idle");
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("pending streams fail with ActorStoppedError on stop", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("import", buildImportMachine({ complete: false }));
+
+      const collecting = yield* Effect.forkChild(
+        Stream.runCollect(actor.askStream(ImportEvent.Import({ rows: 2 }))),
+      );
+      yield* yieldFibers;
+      yield* actor.stop;
+
+      const error = yield* Effect.flip(Fiber.join(collecting));
+      expect(error).toBeInstanceOf(ActorStoppedError);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+});
@@ -0,0 +1,130 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Deferred, Effect, Schema } from "effect";
+
+import {
+  ActorSystemDefault,
+  ActorSystemService,
+  collectingInspector,
+  type AnyInspectionEvent,
+  InspectorService,
+  Machine,
+  State,
+  Event,
+} from "../src/index.js";
+import { describe, expect, it, yieldFibers } from "effect-bun-test";
+
+const CanvasState = State({ Ready: {} });
+
+const CanvasEvent = Event({
+  Render: {},
+  PointerMove: { pointerId: Schema.String, x: Schema.Number },
+  Click: {},
+});
+
+/** Render waits on the gate, so it holds the loop while the rest queue up */
+const buildCanvasMachine = (gate: Deferred.Deferred<void>, log: string[]) =>
+  Machine.make({ state: CanvasState, event: CanvasEvent, initial: CanvasState.Ready })
+    .on(CanvasState.Ready, CanvasEvent.Render, ({ state }) =>
+      Deferred.await(gate).pipe(
+        Effect.andThen(Effect.sync(() => log.push("render"))),
+        Effect.as(state),
+      ),
+    )
+    .on(CanvasState.Ready, CanvasEvent.PointerMove, ({ state, event }) =>
+      Effect.sync(() => log.push(`move:${event.pointerId}:${event.x}`)).pipe(Effect.as(state)),
+    )
+    .on(CanvasState.Ready, CanvasEvent.Click, ({ state }) =>
+      Effect.sync(() => log.push("click")).pipe(Effect.as(state)),
+    );
+
+const conflations = (events: AnyInspectionEvent[]) =>
+  events.flatMap((event) =>
+    event.type === "@machine.conflate" ? [[event.event._tag, event.count] as const] : [],
+  );
+
+describe("Event conflation", () => {
+  it.scoped("replaces a still-queued event in place and counts it", () => {
+    const events: AnyInspectionEvent[] = [];
+    return Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const log: string[] = [];
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn(
+        "canvas",
+        buildCanvasMachine(gate, log).conflate(CanvasEvent.PointerMove),
+      );
+
+      yield* actor.send(CanvasEvent.Render);
+      yield* yieldFibers;
+      yield* actor.send(CanvasEvent.PointerMove({ pointerId: "a", x: 1 }));
+      yield* actor.send(CanvasEvent.Click);
+      yield* actor.send(CanvasEvent.PointerMove({ pointerId: "a", x: 2 }));
+      yield* actor.send(CanvasEvent.PointerMove({ pointerId: "b", x: 3 }));
+
+      yield* Deferred.succeed(gate, undefined);
+      yield* yieldFibers;
+      expect(log).toEqual(["render", "move:b:3", "click"]);
+      expect(conflations(events)).toEqual([
+        ["PointerMove", 1],
+        ["PointerMove", 2],
+      ]);
+
+      // Once taken from the mailbox, the entry no longer absorbs new events
+      yield* actor.send(CanvasEvent.PointerMove({ pointerId: "a", x: 4 }));
+      yield* yieldFibers;
+      yield* actor.send(CanvasEvent.PointerMove({ pointerId: "a", x: 5 }));
+      yield* yieldFibers;
+      expect(log.slice(3)).toEqual(["move:a:4", "move:a:5"]);
+    }).pipe(
+      Effect.provide(ActorSystemDefault),
+      Effect.provideService(InspectorService, collectingInspector(events)),
+    );
+  });
+
+  it.scoped("conflates only events with the same key", () =>
+    Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const log: string[] = [];
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn(
+        "canvas",
+        buildCanvasMachine(gate, log).conflate(CanvasEvent.PointerMove, { key: "pointerId" }),
+      );
+
+      yield* actor.send(CanvasEvent.Render);
+      yield* yieldFibers;
+      yield* actor.send(CanvasEvent.PointerMove({ pointerId: "a", x: 1 }));
+      yield* actor.send(CanvasEvent.PointerMove({ pointerId: "b", x: 1 }));
+      yield* actor.send(CanvasEvent.PointerMove({ pointerId: "a", x: 2 }));
+      yield* actor.send(CanvasEvent.PointerMove({ pointerId: "b", x: 2 }));
+
+      yield* Deferred.succeed(gate, undefined);
+      yield* yieldFibers;
+      expect(log).toEqual(["render", "move:a:2", "move:b:2"]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("does not conflate into a dropped event", () =>
+    Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const log: string[] = [];
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn(
+        "canvas",
+        buildCanvasMachine(gate, log).conflate(CanvasEvent.PointerMove),
+        { mailbox: { capacity: 1, strategy: "dropping" } },
+      );
+
+      yield* actor.send(CanvasEvent.Render);
+      yield* yieldFibers;
+      yield* actor.send(CanvasEvent.Click);
+      yield* actor.send(CanvasEvent.PointerMove({ pointerId: "a", x: 1 }));
+
+      yield* Deferred.succeed(gate, undefined);
+      yield* yieldFibers;
+      yield* actor.send(CanvasEvent.PointerMove({ pointerId: "a", x: 2 }));
+      yield* yieldFibers;
+      expect(log).toEqual(["render", "click", "move:a:2"]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+});
@@ -0,0 +1,166 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Deferred, Effect, Fiber, Schema, Stream } from "effect";
+import { TestClock } from "effect/testing";
+
+import {
+  type ActorSystem,
+  ActorSystemDefault,
+  ActorSystemService,
+  ActorTimeoutError,
+  collectingInspector,
+  type AnyInspectionEvent,
+  InspectorService,
+  Machine,
+  State,
+  Event,
+} from "../src/index.js";
+import { describe, expect, it, yieldFibers } from "effect-bun-test";
+
+const DoorState = State({ Closed: {}, Open: {} });
+
+const DoorEvent = Event({
+  Open: {},
+  Close: {},
+  Hold: {},
+  Peek: Event.reply({}, Schema.String),
+});
+
+/** Hold waits on the gate, so it holds the loop while the rest queue up */
+const buildDoorMachine = (gate: Deferred.Deferred<void>) =>
+  Machine.make({ state: DoorState, event: DoorEvent, initial: DoorState.Closed })
+    .on(DoorState.Closed, DoorEvent.Open, () => DoorState.Open)
+    .on(DoorState.Open, DoorEvent.Close, () => DoorState.Closed)
+    .on([DoorState.Closed, DoorState.Open], DoorEvent.Hold, ({ state }) =>
+      Deferred.await(gate).pipe(Effect.as(state)),
+    )
+    .on([DoorState.Closed, DoorState.Open], DoorEvent.Peek, ({ state }) =>
+      Machine.reply(state, state._tag),
+    );
+
+/** Subscribe to the next `count` dead letters as `[reason, event, state]` */
+const collectDeadLetters = (system: ActorSystem, count: number) =>
+  Effect.gen(function* () {
+    const fiber = yield* Stream.runCollect(
+      system.deadLetters.pipe(
+        Stream.take(count),
+        Stream.map((letter) => [letter.reason, letter.event._tag, letter.state._tag] as const),
+      ),
+    ).pipe(
+      Effect.map((letters) => Array.from(letters)),
+      Effect.forkChild,
+    );
+    yield* yieldFibers;
+    return fiber;
+  });
+
+describe("Dead letters", () => {
+  it.scoped("unhandled events run onUnhandled and are reported", () => {
+    const events: AnyInspectionEvent[] = [];
+    return Effect.gen(function* () {
+      const log: string[] = [];
+      const system = yield* ActorSystemService;
+      const letters = yield* collectDeadLetters(system, 1);
+      const actor = yield* system.spawn(
+        "door",
+        buildDoorMachine(Deferred.makeUnsafe()).onUnhandled(({ state, event }) =>
+          Effect.sync(() => log.push(`${event._tag} in ${state._tag}`)),
+        ),
+      );
+
+      yield* actor.send(DoorEvent.Close);
+      yield* actor.send(DoorEvent.Open);
+      yield* yieldFibers;
+
+      expect(log).toEqual(["Close in Closed"]);
+      expect(yield* Fiber.join(letters)).toEqual([["unhandled", "Close", "Closed"]]);
+      expect(
+        events.flatMap((event) =>
+          event.type === "@machine.unhandled" ? [[event.event._tag, event.state._tag]] : [],
+        ),
+      ).toEqual([["Close", "Closed"]]);
+      expect(yield* actor.snapshot).toEqual(DoorState.Open);
+    }).pipe(
+      Effect.provide(ActorSystemDefault),
+      Effect.provideService(InspectorService, collectingInspector(events)),
+    );
+  });
+
+  it.scoped("onUnhandled can stash the event instead", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn(
+        "door",
+        Machine.make({ state: DoorState, event: DoorEvent, initial: DoorState.Closed })
+          .on(DoorState.Closed, DoorEvent.Open, ({ self }) =>
+            self.unstashAll().pipe(Effect.as(DoorState.Open)),
+          )
+          .on(DoorState.Open, DoorEvent.Close, () => DoorState.Closed)
+          .onUnhandled(({ self }) => self.stash()),
+      );
+
+      yield* actor.send(DoorEvent.Close);
+      yield* actor.send(DoorEvent.Open);
+      yield* yieldFibers;
+      expect(yield* actor.snapshot).toEqual(DoorState.Closed);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("sends to a stopped actor are reported", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const letters = yield* collectDeadLetters(system, 2);
+      const actor = yield* system.spawn("door", buildDoorMachine(Deferred.makeUnsafe()));
+
+      yield* actor.stop;
+      yield* actor.send(DoorEvent.Open);
+      actor.sync.send(DoorEvent.Close);
+
+      expect(yield* Fiber.join(letters)).toEqual([
+        ["stopped", "Open", "Closed"],
+        ["stopped", "Close", "Closed"],
+      ]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("events discarded by a bounded mailbox are reported", () =>
+    Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const system = yield* ActorSystemService;
+      const letters = yield* collectDeadLetters(system, 1);
+      const actor = yield* system.spawn("door", buildDoorMachine(gate), {
+        mailbox: { capacity: 1, strategy: "dropping" },
+      });
+
+      yield* actor.send(DoorEvent.Hold);
+      yield* yieldFibers;
+      yield* actor.send(DoorEvent.Open);
+      yield* actor.send(DoorEvent.Close);
+
+      expect(yield* Fiber.join(letters)).toEqual([["dropped", "Close", "Closed"]]);
+      yield* Deferred.succeed(gate, undefined);
+      yield* yieldFibers;
+      expect(yield* actor.snapshot).toEqual(DoorState.Open);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("requests whose caller timed out are reported when skipped", () =>
+    Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const system = yield* ActorSystemService;
+      const letters = yield* collectDeadLetters(system, 1);
+      const actor = yield* system.spawn("door", buildDoorMachine(gate));
+
+      yield* actor.send(DoorEvent.Hold);
+      yield* yieldFibers;
+      const peek = yield* Effect.forkChild(
+        Effect.flip(actor.ask(DoorEvent.Peek, { timeout: "1 second" })),
+      );
+      yield* yieldFibers;
+      yield* TestClock.adjust("1 second");
+      expect(yield* Fiber.join(peek)).toBeInstanceOf(ActorTimeoutError);
+
+      yield* Deferred.succeed(gate, undefined);
+      expect(yield* Fiber.join(letters)).toEqual([["expired", "Peek", "Closed"]]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+});
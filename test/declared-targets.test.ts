@@ -0,0 +1,84 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Cause, Effect, Exit, Schema } from "effect";
+
+import {
+  ActorSystemDefault,
+  ActorSystemService,
+  Machine,
+  simulate,
+  State,
+  Event,
+  UndeclaredTargetError,
+} from "../src/index.js";
+import { describe, expect, it } from "effect-bun-test";
+
+const JobState = State({
+  Idle: {},
+  Running: { attempt: Schema.Number },
+  Failed: { reason: Schema.String },
+  Done: {},
+  Orphaned: {},
+});
+type JobState = typeof JobState.Type;
+
+const JobEvent = Event({
+  Start: { ok: Schema.Boolean },
+  Finish: {},
+  Retry: {},
+});
+
+const jobMachine = Machine.make({
+  state: JobState,
+  event: JobEvent,
+  initial: JobState.Idle,
+})
+  .on(JobState.Idle, JobEvent.Start, [JobState.Running, JobState.Failed], ({ event }) =>
+    event.ok ? JobState.Running({ attempt: 1 }) : JobState.Failed({ reason: "rejected" }),
+  )
+  .on(JobState.Running, JobEvent.Finish, [JobState.Done], () => JobState.Done)
+  .on(JobState.Failed, JobEvent.Retry, [JobState.Idle], () => JobState.Idle)
+  .final(JobState.Done);
+
+describe("Declared transition targets", () => {
+  it.effect("are recorded on the transition and followed by validation", () =>
+    Effect.gen(function* () {
+      const start = jobMachine.transitions.find((t) => t.eventTag === "Start");
+      expect(start?.targets).toEqual(["Running", "Failed"]);
+
+      const result = yield* simulate(jobMachine, [JobEvent.Start({ ok: true }), JobEvent.Finish]);
+      expect(result.finalState).toEqual(JobState.Done);
+
+      // Orphaned is provably unreachable because every live transition declares its targets
+      expect(Machine.validate(jobMachine).unreachableStates).toEqual(["Orphaned"]);
+      // Without declared targets, a handler may reach any state
+      const opaque = jobMachine.on(JobState.Failed, JobEvent.Finish, () => JobState.Orphaned);
+      expect(Machine.validate(opaque).unreachableStates).toEqual([]);
+    }),
+  );
+
+  it.scoped("returning an undeclared variant is a defect", () =>
+    Effect.gen(function* () {
+      const machine = Machine.make({
+        state: JobState,
+        event: JobEvent,
+        initial: JobState.Idle,
+      }).on(
+        JobState.Idle,
+        JobEvent.Start,
+        [JobState.Running],
+        () => JobState.Orphaned as unknown as JobState & { readonly _tag: "Running" },
+      );
+
+      const simulated = yield* Effect.exit(simulate(machine, [JobEvent.Start({ ok: true })]));
+      const defect = Exit.isFailure(simulated) ? Cause.squash(simulated.cause) : undefined;
+      expect(defect).toBeInstanceOf(UndeclaredTargetError);
+      expect(defect).toMatchObject({ state: "Idle", target: "Orphaned", targets: ["Running"] });
+
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("job", machine);
+      yield* actor.send(JobEvent.Start({ ok: true }));
+      const exit = yield* actor.awaitExit;
+      expect(exit._tag === "Defect" && exit.phase).toBe("transition");
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+});
@@ -0,0 +1,144 @@
+import { Schema } from "effect";
+
+import { Machine, State, Event } from "../src/index.js";
+import { describe, expect, test } from "bun:test";
+
+const DoorState = State({
+  Closed: {},
+  Open: {},
+  Locked: { code: Schema.String },
+  Broken: {},
+});
+
+const DoorEvent = Event({
+  Open: {},
+  Close: {},
+  Lock: { code: Schema.String },
+  Unlock: { code: Schema.String },
+  AutoClose: {},
+  Knock: {},
+  Smash: {},
+});
+
+const Shut = Machine.group("Shut", [DoorState.Closed, DoorState.Locked]);
+
+const doorMachine = Machine.make({
+  state: DoorState,
+  event: DoorEvent,
+  initial: DoorState.Closed,
+})
+  .on(DoorState.Closed, DoorEvent.Open, [DoorState.Open], () => DoorState.Open)
+  .on(DoorState.Open, DoorEvent.AutoClose, [DoorState.Closed], () => DoorState.Closed)
+  .on(DoorState.Closed, DoorEvent.Lock, [DoorState.Locked], ({ event }) =>
+    DoorState.Locked({ code: event.code }),
+  )
+  .on(DoorState.Locked, DoorEvent.Unlock, [DoorState.Closed], () => DoorState.Closed)
+  .reenter(Shut, DoorEvent.Knock, ({ state }) => state)
+  .onAny(DoorEvent.Smash, () => DoorState.Broken)
+  .timeout(DoorState.Open, { duration: "30 seconds", event: DoorEvent.AutoClose })
+  .postpone(DoorState.Open, DoorEvent.Lock)
+  .final(DoorState.Broken);
+
+const SwitchEvent = Event({ Toggle: {} });
+const LightState = State({ On: {}, Off: {} });
+const FanState = State({ Spinning: {}, Still: {} });
+
+const lights = Machine.make({ state: LightState, event: SwitchEvent, initial: LightState.Off })
+  .on(LightState.Off, SwitchEvent.Toggle, [LightState.On], () => LightState.On)
+  .on(LightState.On, SwitchEvent.Toggle, [LightState.Off], () => LightState.Off);
+
+const fan = Machine.make({ state: FanState, event: SwitchEvent, initial: FanState.Still }).on(
+  FanState.Still,
+  SwitchEvent.Toggle,
+  [FanState.Spinning],
+  () => FanState.Spinning,
+);
+
+describe("diagram export", () => {
+  test("Mermaid draws targets, timeouts, postpones, wildcards, reenter loops and finals", () => {
+    expect(Machine.toMermaid(doorMachine)).toBe(`stateDiagram-v2
+  [*] --> Closed
+  state Shut {
+    Closed
+    Locked
+  }
+  Open
+  Broken
+  state "any state" as __any
+  state "?" as __unknown
+  Closed --> Open : Open
+  Open --> Closed : AutoClose after 30s
+  Closed --> Locked : Lock
+  Locked --> Closed : Unlock
+  Shut --> Shut : Knock (reenter)
+  __any --> __unknown : Smash
+  Broken --> [*]
+  note right of Open : postpones Lock
+`);
+  });
+
+  test("DOT clusters groups and clips group edges", () => {
+    expect(Machine.toDot(doorMachine)).toBe(`digraph Machine {
+  rankdir=LR;
+  compound=true;
+  node [shape=box, style=rounded];
+  "__start" [shape=point];
+  "__start" -> "Closed";
+  subgraph "cluster_Shut" {
+    label="Shut";
+    "Closed" [label="Closed"];
+    "Locked" [label="Locked"];
+  }
+  "Open" [label="Open\\npostpones: Lock"];
+  "Broken" [label="Broken", shape=doublecircle];
+  "__any" [label="any state", shape=plaintext];
+  "__unknown" [label="?", shape=plaintext];
+  "Closed" -> "Open" [label="Open"];
+  "Open" -> "Closed" [label="AutoClose after 30s"];
+  "Closed" -> "Locked" [label="Lock"];
+  "Locked" -> "Closed" [label="Unlock"];
+  "Closed" -> "Closed" [label="Knock (reenter)", ltail="cluster_Shut"];
+  "__any" -> "__unknown" [label="Smash", style=dashed];
+}
+`);
+  });
+
+  test("SCXML turns timeouts into delayed sends and wildcards into an enclosing state", () => {
+    expect(Machine.toScxml(doorMachine)).toBe(`<?xml version="1.0" encoding="UTF-8"?>
+<scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0" initial="Closed">
+  <state id="__any" initial="Closed">
+    <!-- Smash: target not declared -->
+    <transition event="Smash"/>
+    <state id="Shut">
+      <transition event="Knock" target="Shut"/>
+      <state id="Closed">
+        <transition event="Open" target="Open"/>
+        <transition event="Lock" target="Locked"/>
+      </state>
+      <state id="Locked">
+        <transition event="Unlock" target="Closed"/>
+      </state>
+    </state>
+    <state id="Open">
+      <!-- postpones Lock -->
+      <onentry>
+        <send id="Open.state-timeout.AutoClose" event="AutoClose" delay="30000ms"/>
+      </onentry>
+      <onexit>
+        <cancel sendid="Open.state-timeout.AutoClose"/>
+      </onexit>
+      <transition event="AutoClose" target="Closed"/>
+    </state>
+    <final id="Broken"/>
+  </state>
+</scxml>
+`);
+  });
+
+  test("parallel regions render side by side", () => {
+    const player = Machine.parallel({ lights, fan });
+    expect(Machine.toMermaid(player)).toContain("    --\n    state fan {");
+    expect(Machine.toDot(player)).toContain(`subgraph "cluster_fan"`);
+    expect(Machine.toScxml(player)).toContain(`<state id="fan" initial="fan.Still">`);
+  });
+});
@@ -0,0 +1,149 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Effect, Schema } from "effect";
+
+import {
+  ActorSystemDefault,
+  ActorSystemService,
+  collectingInspector,
+  type InspectionEvent,
+  InspectorService,
+  Machine,
+  State,
+  Event,
+} from "../src/index.js";
+import { describe, expect, it } from "effect-bun-test";
+
+const DoorState = State({
+  Closed: {},
+  Open: { by: Schema.String },
+  Locked: {},
+  Broken: {},
+});
+type DoorState = typeof DoorState.Type;
+
+const DoorEvent = Event({
+  Open: { by: Schema.String },
+  Close: {},
+  Lock: {},
+  Break: {},
+});
+type DoorEvent = typeof DoorEvent.Type;
+
+describe("onEnter / onExit", () => {
+  it.scopedLive("actions run inline: handler, exit old, enter new", () =>
+    Effect.gen(function* () {
+      const log: string[] = [];
+      const machine = Machine.make({
+        state: DoorState,
+        event: DoorEvent,
+        initial: DoorState.Closed,
+      })
+        .on(DoorState.Closed, DoorEvent.Open, ({ event }) => {
+          log.push("handler");
+          return DoorState.Open({ by: event.by });
+        })
+        .on(DoorState.Open, DoorEvent.Close, () => DoorState.Closed)
+        .onEnter(DoorState.Closed, ({ event }) =>
+          Effect.sync(() => log.push(`enter:${event._tag}`)),
+        )
+        .onExit(DoorState.Closed, ({ event }) => Effect.sync(() => log.push(`exit:${event._tag}`)))
+        .onEnter(DoorState.Open, ({ state }) => Effect.sync(() => log.push(`enter:${state.by}`)))
+        .onEnter([DoorState.Open, DoorState.Locked], () => Effect.sync(() => log.push("audit")));
+
+      const actor = yield* Machine.spawn(machine);
+      yield* actor.start;
+      expect(log).toEqual(["enter:$init"]);
+
+      // No yieldFibers — actions complete before the call settles
+      yield* actor.send(DoorEvent.Open({ by: "ann" }));
+      yield* actor.call(DoorEvent.Close);
+      expect(log).toEqual([
+        "enter:$init",
+        "handler",
+        "exit:Open",
+        "enter:ann",
+        "audit",
+        "enter:Close",
+      ]);
+    }),
+  );
+
+  it.scopedLive("group actions run when the group is entered and left", () =>
+    Effect.gen(function* () {
+      const log: string[] = [];
+      const Secured = Machine.group("Secured", [DoorState.Closed, DoorState.Locked]);
+      const machine = Machine.make({
+        state: DoorState,
+        event: DoorEvent,
+        initial: DoorState.Open({ by: "ann" }),
+      })
+        .on(DoorState.Open, DoorEvent.Close, () => DoorState.Closed)
+        .on(DoorState.Closed, DoorEvent.Lock, () => DoorState.Locked)
+        .on(Secured, DoorEvent.Open, ({ event }) => DoorState.Open({ by: event.by }))
+        .onEnter(Secured, () => Effect.sync(() => log.push("enter:Secured")))
+        .onExit(Secured, () => Effect.sync(() => log.push("exit:Secured")))
+        .onEnter(DoorState.Locked, () => Effect.sync(() => log.push("enter:Locked")))
+        .onExit(DoorState.Locked, () => Effect.sync(() => log.push("exit:Locked")));
+
+      const actor = yield* Machine.spawn(machine);
+      yield* actor.start;
+
+      yield* actor.call(DoorEvent.Close);
+      yield* actor.call(DoorEvent.Lock);
+      yield* actor.call(DoorEvent.Open({ by: "bob" }));
+      expect(log).toEqual(["enter:Secured", "enter:Locked", "exit:Locked", "exit:Secured"]);
+    }),
+  );
+
+  it.scopedLive("defects end the actor with phase enter / exit", () => {
+    const events: InspectionEvent<DoorState, DoorEvent>[] = [];
+
+    return Effect.gen(function* () {
+      const machine = Machine.make({
+        state: DoorState,
+        event: DoorEvent,
+        initial: DoorState.Closed,
+      })
+        .on(DoorState.Closed, DoorEvent.Break, () => DoorState.Broken)
+        .on(DoorState.Closed, DoorEvent.Lock, () => DoorState.Locked)
+        .onEnter(DoorState.Broken, () => Effect.die("enter boom"))
+        .onExit(DoorState.Locked, () => Effect.die("unreachable"));
+
+      const system = yield* ActorSystemService;
+      const entering = yield* system.spawn("entering", machine);
+      yield* entering.send(DoorEvent.Break);
+      const enterExit = yield* entering.awaitExit;
+      expect(enterExit._tag === "Defect" && enterExit.phase).toBe("enter");
+
+      const exiting = yield* system.spawn(
+        "exiting",
+        machine.onExit(DoorState.Closed, () => Effect.die("exit boom")),
+      );
+      yield* exiting.send(DoorEvent.Lock);
+      const exitExit = yield* exiting.awaitExit;
+      expect(exitExit._tag === "Defect" && exitExit.phase).toBe("exit");
+
+      const phases = events.flatMap((e) => (e.type === "@machine.error" ? [e.phase] : []));
+      expect(phases).toEqual(["enter", "exit"]);
+    }).pipe(
+      Effect.provide(ActorSystemDefault),
+      Effect.provideService(InspectorService, collectingInspector(events)),
+    );
+  });
+
+  it.scopedLive("a failing initial onEnter fails the spawn", () =>
+    Effect.gen(function* () {
+      const machine = Machine.make({
+        state: DoorState,
+        event: DoorEvent,
+        initial: DoorState.Broken,
+      }).onEnter(DoorState.Broken, () => Effect.die("no start"));
+
+      const actor = yield* Machine.spawn(machine);
+      const started = yield* Effect.exit(actor.start);
+      expect(started._tag).toBe("Failure");
+      const exit = yield* actor.awaitExit;
+      expect(exit._tag === "Defect" && exit.phase).toBe("enter");
+    }),
+  );
+});
@@ -0,0 +1,226 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Context, Effect, Schema } from "effect";
+
+import {
+  ActorSystemDefault,
+  ActorSystemService,
+  collectingInspector,
+  type InspectionEvent,
+  InspectorService,
+  Machine,
+  Slot,
+  State,
+  Event,
+  simulate,
+} from "../src/index.js";
+import { describe, expect, it, yieldFibers } from "effect-bun-test";
+
+const AccountState = State({
+  Open: { balance: Schema.Number },
+  Overdrawn: { balance: Schema.Number },
+  Frozen: {},
+});
+type AccountState = typeof AccountState.Type;
+
+const AccountEvent = Event({
+  Withdraw: { amount: Schema.Number },
+  Freeze: {},
+});
+type AccountEvent = typeof AccountEvent.Type;
+
+const AccountSlots = Slot.define({
+  hasBalance: Slot.fn({}, Schema.Boolean),
+});
+
+const accountMachine = Machine.make({
+  state: AccountState,
+  event: AccountEvent,
+  slots: AccountSlots,
+  initial: AccountState.Open({ balance: 100 }),
+})
+  .on(AccountState.Open, AccountEvent.Withdraw, {
+    guard: "hasBalance",
+    handler: ({ state, event }) => AccountState.Open({ balance: state.balance - event.amount }),
+  })
+  .on(AccountState.Open, AccountEvent.Withdraw, {
+    guard: ({ event }) => event.amount <= 50,
+    handler: ({ state, event }) =>
+      AccountState.Overdrawn({ balance: state.balance - event.amount }),
+  });
+
+// Named guard reads the pending event through the machine context
+const slots = {
+  hasBalance: () =>
+    Effect.gen(function* () {
+      const ctx = yield* accountMachine.Context;
+      const state = ctx.state as AccountState;
+      const event = ctx.event as AccountEvent;
+      return state._tag === "Open" && event._tag === "Withdraw" && state.balance >= event.amount;
+    }),
+};
+
+class Overdraft extends Context.Service<Overdraft, { readonly limit: number }>()(
+  "effect-machine/test/guards.test/Overdraft",
+) {}
+
+describe("Transition guards", () => {
+  it.effect("guarded candidates are tried in registration order", () =>
+    Effect.gen(function* () {
+      const result = yield* simulate(
+        accountMachine,
+        [
+          AccountEvent.Withdraw({ amount: 80 }),
+          AccountEvent.Withdraw({ amount: 30 }),
+          // Overdrawn has no Withdraw transition
+          AccountEvent.Withdraw({ amount: 10 }),
+        ],
+        { slots },
+      );
+      expect(result.states).toEqual([
+        AccountState.Open({ balance: 100 }),
+        AccountState.Open({ balance: 20 }),
+        AccountState.Overdrawn({ balance: -10 }),
+      ]);
+
+      // Both guards fail — the event is unhandled
+      const rejected = yield* simulate(accountMachine, [AccountEvent.Withdraw({ amount: 500 })], {
+        slots,
+      });
+      expect(rejected.finalState).toEqual(AccountState.Open({ balance: 100 }));
+    }),
+  );
+
+  it.effect("effectful guards run with the machine context", () =>
+    Effect.gen(function* () {
+      const machine = Machine.make({
+        state: AccountState,
+        event: AccountEvent,
+        initial: AccountState.Open({ balance: 10 }),
+      }).on(AccountState.Open, AccountEvent.Freeze, {
+        guard: function isEmpty({ state }) {
+          return Effect.succeed(state.balance === 0);
+        },
+        handler: () => AccountState.Frozen,
+      });
+
+      const result = yield* simulate(machine, [AccountEvent.Freeze]);
+      expect(result.finalState._tag).toBe("Open");
+
+      const empty = yield* Machine.replay(machine, [AccountEvent.Freeze], {
+        from: AccountState.Open({ balance: 0 }),
+      });
+      expect(empty._tag).toBe("Frozen");
+    }),
+  );
+
+  it.effect("failing guards fall through to enclosing groups and onAny", () =>
+    Effect.gen(function* () {
+      const Active = Machine.group("Active", [AccountState.Open, AccountState.Overdrawn]);
+      const machine = Machine.make({
+        state: AccountState,
+        event: AccountEvent,
+        initial: AccountState.Overdrawn({ balance: -5 }),
+      })
+        .on(AccountState.Overdrawn, AccountEvent.Freeze, {
+          guard: ({ state }) => state.balance < -100,
+          handler: () => AccountState.Frozen,
+        })
+        .on(Active, AccountEvent.Freeze, {
+          guard: ({ state }) => state._tag === "Open",
+          handler: () => AccountState.Frozen,
+        })
+        .onAny(AccountEvent.Freeze, ({ state }) => state);
+
+      const findings = Machine.findTransitions(machine, "Overdrawn", "Freeze");
+      expect(findings.map((t) => t.guard?.name)).toEqual(["guard"]);
+
+      const result = yield* simulate(machine, [AccountEvent.Freeze]);
+      expect(result.finalState).toEqual(AccountState.Overdrawn({ balance: -5 }));
+      expect(result.states).toHaveLength(2);
+    }),
+  );
+
+  it.scoped("can evaluates guards", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("account", accountMachine, { slots });
+
+      expect(yield* actor.can(AccountEvent.Withdraw({ amount: 80 }))).toBe(true);
+      expect(yield* actor.can(AccountEvent.Withdraw({ amount: 500 }))).toBe(false);
+      expect(actor.sync.can(AccountEvent.Withdraw({ amount: 40 }))).toBe(true);
+      expect(actor.sync.can(AccountEvent.Withdraw({ amount: 500 }))).toBe(false);
+      expect(yield* actor.snapshot).toEqual(AccountState.Open({ balance: 100 }));
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("can runs guards with the services the actor was spawned with", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system
+        .spawn("account", accountMachine, {
+          slots: {
+            hasBalance: () =>
+              Effect.gen(function* () {
+                const { limit } = yield* Overdraft;
+                const ctx = yield* accountMachine.Context;
+                const state = ctx.state as AccountState;
+                const event = ctx.event as AccountEvent;
+                return (
+                  state._tag === "Open" &&
+                  event._tag === "Withdraw" &&
+                  state.balance + limit >= event.amount
+                );
+              }),
+          },
+        })
+        .pipe(Effect.provideService(Overdraft, { limit: 50 }));
+
+      expect(yield* actor.can(AccountEvent.Withdraw({ amount: 150 }))).toBe(true);
+      expect(yield* actor.can(AccountEvent.Withdraw({ amount: 151 }))).toBe(false);
+      expect(actor.sync.can(AccountEvent.Withdraw({ amount: 150 }))).toBe(true);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("sends from a guard evaluated by can are dropped", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("account", accountMachine, {
+        slots: {
+          hasBalance: () =>
+            Effect.gen(function* () {
+              const ctx = yield* accountMachine.Context;
+              const event = ctx.event as AccountEvent;
+              if (event._tag === "Withdraw" && event.amount === 1) {
+                yield* ctx.self.send(AccountEvent.Withdraw({ amount: 10 }));
+              }
+              return true;
+            }),
+        },
+      });
+
+      expect(yield* actor.can(AccountEvent.Withdraw({ amount: 1 }))).toBe(true);
+      yield* yieldFibers;
+      expect(yield* actor.snapshot).toEqual(AccountState.Open({ balance: 100 }));
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scopedLive("guard evaluations are inspected", () => {
+    const events: InspectionEvent<AccountState, AccountEvent>[] = [];
+
+    return Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("account", accountMachine, { slots });
+
+      yield* actor.call(AccountEvent.Withdraw({ amount: 120 }));
+      yield* actor.call(AccountEvent.Withdraw({ amount: 40 }));
+
+      const guards = events.flatMap((e) =>
+        e.type === "@machine.guard" ? [`${e.guard}:${e.passed}`] : [],
+      );
+      expect(guards).toEqual(["hasBalance:false", "guard:false", "hasBalance:true"]);
+    }).pipe(
+      Effect.provide(ActorSystemDefault),
+      Effect.provideService(InspectorService, collectingInspector(events)),
+    );
+  });
+});
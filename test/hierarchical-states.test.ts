@@ -0,0 +1,261 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Duration, Effect, Schema, SubscriptionRef } from "effect";
+import { TestClock } from "effect/testing";
+
+import {
+  ActorSystemDefault,
+  ActorSystemService,
+  InvalidStateGroupError,
+  Machine,
+  State,
+  Event,
+  simulate,
+} from "../src/index.js";
+import { describe, expect, it, yieldFibers } from "effect-bun-test";
+
+const CheckoutState = State({
+  Cart: {},
+  Charging: { orderId: Schema.String },
+  Authorizing: { orderId: Schema.String },
+  Capturing: { orderId: Schema.String },
+  Cancelled: { orderId: Schema.String },
+  Expired: {},
+  Paid: {},
+});
+
+const CheckoutEvent = Event({
+  Checkout: { orderId: Schema.String },
+  Charged: {},
+  Authorized: {},
+  Captured: {},
+  Cancel: {},
+  Expire: {},
+});
+
+const Processing = Machine.group("Processing", [
+  CheckoutState.Charging,
+  CheckoutState.Authorizing,
+  CheckoutState.Capturing,
+]);
+
+const checkoutMachine = () =>
+  Machine.make({
+    state: CheckoutState,
+    event: CheckoutEvent,
+    initial: CheckoutState.Cart,
+  })
+    .on(CheckoutState.Cart, CheckoutEvent.Checkout, ({ event }) =>
+      CheckoutState.Charging({ orderId: event.orderId }),
+    )
+    .on(CheckoutState.Charging, CheckoutEvent.Charged, ({ state }) =>
+      CheckoutState.Authorizing({ orderId: state.orderId }),
+    )
+    .on(CheckoutState.Authorizing, CheckoutEvent.Authorized, ({ state }) =>
+      CheckoutState.Capturing({ orderId: state.orderId }),
+    )
+    .on(CheckoutState.Capturing, CheckoutEvent.Captured, () => CheckoutState.Paid)
+    .on(Processing, CheckoutEvent.Cancel, ({ state }) =>
+      CheckoutState.Cancelled({ orderId: state.orderId }),
+    )
+    .final(CheckoutState.Cancelled)
+    .final(CheckoutState.Expired)
+    .final(CheckoutState.Paid);
+
+describe("Machine.group", () => {
+  it.effect("parent transitions apply to every child", () =>
+    Effect.gen(function* () {
+      const machine = checkoutMachine();
+
+      const fromCharging = yield* simulate(machine, [
+        CheckoutEvent.Checkout({ orderId: "o-1" }),
+        CheckoutEvent.Cancel,
+      ]);
+      expect(fromCharging.finalState).toEqual(CheckoutState.Cancelled({ orderId: "o-1" }));
+
+      const fromCapturing = yield* simulate(machine, [
+        CheckoutEvent.Checkout({ orderId: "o-2" }),
+        CheckoutEvent.Charged,
+        CheckoutEvent.Authorized,
+        CheckoutEvent.Cancel,
+      ]);
+      expect(fromCapturing.finalState).toEqual(CheckoutState.Cancelled({ orderId: "o-2" }));
+
+      // Outside the group the parent transition does not apply
+      const fromCart = yield* simulate(machine, [CheckoutEvent.Cancel]);
+      expect(fromCart.finalState._tag).toBe("Cart");
+    }),
+  );
+
+  it.effect("child transition wins over parent, parent wins over onAny", () =>
+    Effect.gen(function* () {
+      const machine = checkoutMachine()
+        .on(CheckoutState.Capturing, CheckoutEvent.Cancel, ({ state }) => state)
+        .onAny(CheckoutEvent.Cancel, () => CheckoutState.Expired);
+
+      const capturing = yield* simulate(machine, [
+        CheckoutEvent.Checkout({ orderId: "o-1" }),
+        CheckoutEvent.Charged,
+        CheckoutEvent.Authorized,
+        CheckoutEvent.Cancel,
+      ]);
+      expect(capturing.finalState._tag).toBe("Capturing");
+
+      const charging = yield* simulate(machine, [
+        CheckoutEvent.Checkout({ orderId: "o-1" }),
+        CheckoutEvent.Cancel,
+      ]);
+      expect(charging.finalState._tag).toBe("Cancelled");
+
+      const cart = yield* simulate(machine, [CheckoutEvent.Cancel]);
+      expect(cart.finalState._tag).toBe("Expired");
+    }),
+  );
+
+  it.effect("nested groups bubble innermost first", () =>
+    Effect.gen(function* () {
+      const Active = Machine.group("Active", [CheckoutState.Cart, Processing]);
+      const machine = checkoutMachine()
+        .on(Active, CheckoutEvent.Expire, () => CheckoutState.Expired)
+        .on(Active, CheckoutEvent.Cancel, () => CheckoutState.Expired);
+
+      expect(machine.groups.get("Active")).toEqual(["Cart", "Processing"]);
+      expect(Machine.findTransitions(machine, "Authorizing", "Expire")).toHaveLength(1);
+
+      const fromCart = yield* simulate(machine, [CheckoutEvent.Cancel]);
+      expect(fromCart.finalState._tag).toBe("Expired");
+
+      // Processing (inner) handles Cancel before Active (outer)
+      const fromCharging = yield* simulate(machine, [
+        CheckoutEvent.Checkout({ orderId: "o-1" }),
+        CheckoutEvent.Cancel,
+      ]);
+      expect(fromCharging.finalState._tag).toBe("Cancelled");
+
+      const expired = yield* simulate(machine, [
+        CheckoutEvent.Checkout({ orderId: "o-1" }),
+        CheckoutEvent.Charged,
+        CheckoutEvent.Expire,
+      ]);
+      expect(expired.finalState._tag).toBe("Expired");
+    }),
+  );
+
+  it.scoped("parent timeout survives child-to-child moves", () =>
+    Effect.gen(function* () {
+      const machine = checkoutMachine()
+        .on(Processing, CheckoutEvent.Expire, () => CheckoutState.Expired)
+        .timeout(Processing, { duration: Duration.seconds(30), event: CheckoutEvent.Expire });
+
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("checkout", machine);
+
+      yield* actor.call(CheckoutEvent.Checkout({ orderId: "o-1" }));
+      yield* TestClock.adjust("20 seconds");
+      yield* actor.call(CheckoutEvent.Charged);
+      yield* actor.call(CheckoutEvent.Authorized);
+      expect((yield* SubscriptionRef.get(actor.state))._tag).toBe("Capturing");
+
+      // 30s since entering Processing, not since entering Capturing
+      yield* TestClock.adjust("10 seconds");
+      yield* yieldFibers;
+      expect((yield* SubscriptionRef.get(actor.state))._tag).toBe("Expired");
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("parent spawn effects are cancelled only when the group is left", () =>
+    Effect.gen(function* () {
+      const log: string[] = [];
+      const machine = checkoutMachine().spawn(Processing, ({ state }) =>
+        Effect.gen(function* () {
+          log.push(`start:${state._tag}`);
+          yield* Effect.addFinalizer(() => Effect.sync(() => log.push("stop")));
+          return yield* Effect.never;
+        }),
+      );
+
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("checkout", machine);
+
+      yield* actor.call(CheckoutEvent.Checkout({ orderId: "o-1" }));
+      yield* yieldFibers;
+      yield* actor.call(CheckoutEvent.Charged);
+      yield* actor.call(CheckoutEvent.Authorized);
+      yield* yieldFibers;
+      expect(log).toEqual(["start:Charging"]);
+
+      yield* actor.call(CheckoutEvent.Cancel);
+      yield* yieldFibers;
+      expect(log).toEqual(["start:Charging", "stop"]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("reenter on a group restarts group effects", () =>
+    Effect.gen(function* () {
+      const starts: string[] = [];
+      const machine = checkoutMachine()
+        .reenter(Processing, CheckoutEvent.Expire, ({ state }) => state)
+        .spawn(Processing, ({ state }) => Effect.sync(() => starts.push(state._tag)));
+
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("checkout", machine);
+
+      yield* actor.call(CheckoutEvent.Checkout({ orderId: "o-1" }));
+      yield* yieldFibers;
+      yield* actor.call(CheckoutEvent.Charged);
+      yield* yieldFibers;
+      expect(starts).toEqual(["Charging"]);
+
+      yield* actor.call(CheckoutEvent.Expire);
+      yield* yieldFibers;
+      expect(starts).toEqual(["Charging", "Authorizing"]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.effect("postpone rules on a group apply to its children", () =>
+    Effect.gen(function* () {
+      const machine = Machine.make({
+        state: CheckoutState,
+        event: CheckoutEvent,
+        initial: CheckoutState.Cart,
+      })
+        .on(CheckoutState.Cart, CheckoutEvent.Checkout, ({ event }) =>
+          CheckoutState.Charging({ orderId: event.orderId }),
+        )
+        .on(CheckoutState.Charging, CheckoutEvent.Charged, ({ state }) =>
+          CheckoutState.Authorizing({ orderId: state.orderId }),
+        )
+        .on(CheckoutState.Authorizing, CheckoutEvent.Authorized, () => CheckoutState.Cart)
+        .on(CheckoutState.Cart, CheckoutEvent.Cancel, () => CheckoutState.Expired)
+        .on(Processing, CheckoutEvent.Expire, () => CheckoutState.Cart)
+        .postpone(Processing, CheckoutEvent.Cancel);
+
+      const result = yield* simulate(machine, [
+        CheckoutEvent.Checkout({ orderId: "o-1" }),
+        CheckoutEvent.Cancel,
+        CheckoutEvent.Charged,
+        CheckoutEvent.Authorized,
+      ]);
+      expect(result.states.map((s) => s._tag)).toEqual([
+        "Cart",
+        "Charging",
+        "Authorizing",
+        "Cart",
+        "Expired",
+      ]);
+    }),
+  );
+
+  it.effect("rejects invalid group declarations", () =>
+    Effect.sync(() => {
+      const clash = Machine.group("Cart", [CheckoutState.Charging]);
+      expect(() => checkoutMachine().spawn(clash, () => Effect.void)).toThrow(
+        InvalidStateGroupError,
+      );
+
+      const other = Machine.group("Other", [CheckoutState.Charging]);
+      expect(() => checkoutMachine().spawn(other, () => Effect.void)).toThrow(
+        InvalidStateGroupError,
+      );
+    }),
+  );
+});
@@ -0,0 +1,163 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Effect, Option, Ref, Schema } from "effect";
+
+import { Machine, State, Event, simulate } from "../src/index.js";
+import type { StateHistory } from "../src/index.js";
+import { describe, expect, it } from "effect-bun-test";
+
+const EditorState = State({
+  Draft: { text: Schema.String },
+  Preview: { text: Schema.String },
+  Bold: { text: Schema.String },
+  Italic: { text: Schema.String },
+  Help: {},
+});
+type EditorState = typeof EditorState.Type;
+
+const EditorEvent = Event({
+  Write: { text: Schema.String },
+  Preview: {},
+  Format: {},
+  Emphasize: {},
+  OpenHelp: {},
+  CloseHelp: {},
+  CloseHelpDeep: {},
+});
+
+const Formatting = Machine.group("Formatting", [EditorState.Bold, EditorState.Italic]);
+const Editing = Machine.group("Editing", [EditorState.Draft, EditorState.Preview, Formatting]);
+
+const editorMachine = Machine.make({
+  state: EditorState,
+  event: EditorEvent,
+  initial: EditorState.Draft({ text: "" }),
+})
+  .on(EditorState.Draft, EditorEvent.Write, ({ event }) => EditorState.Draft({ text: event.text }))
+  .on(EditorState.Draft, EditorEvent.Preview, ({ state }) =>
+    EditorState.Preview({ text: state.text }),
+  )
+  .on(EditorState.Draft, EditorEvent.Format, ({ state }) => EditorState.Bold({ text: state.text }))
+  .on(EditorState.Bold, EditorEvent.Emphasize, ({ state }) =>
+    EditorState.Italic({ text: state.text }),
+  )
+  .on(Editing, EditorEvent.OpenHelp, () => EditorState.Help)
+  .on(EditorState.Help, EditorEvent.CloseHelp, () =>
+    Machine.history(Editing, EditorState.Draft({ text: "" })),
+  )
+  .on(EditorState.Help, EditorEvent.CloseHelpDeep, () =>
+    Machine.history(Editing, EditorState.Draft({ text: "" }), { deep: true }),
+  );
+
+describe("Machine.history", () => {
+  it.effect("shallow history resumes the last active child with its data", () =>
+    Effect.gen(function* () {
+      const result = yield* simulate(editorMachine, [
+        EditorEvent.Write({ text: "hello" }),
+        EditorEvent.Preview,
+        EditorEvent.OpenHelp,
+        EditorEvent.CloseHelp,
+      ]);
+      expect(result.finalState).toEqual(EditorState.Preview({ text: "hello" }));
+    }),
+  );
+
+  it.effect("falls back when the group has no usable history", () =>
+    Effect.gen(function* () {
+      const fromHelp = Machine.make({
+        state: EditorState,
+        event: EditorEvent,
+        initial: EditorState.Help,
+      }).on(EditorState.Help, EditorEvent.CloseHelp, () =>
+        Machine.history(Editing, EditorState.Draft({ text: "fresh" })),
+      );
+      const neverVisited = yield* simulate(fromHelp, [EditorEvent.CloseHelp]);
+      expect(neverVisited.finalState).toEqual(EditorState.Draft({ text: "fresh" }));
+
+      // Shallow history does not descend into the nested Formatting group
+      const nested = yield* simulate(editorMachine, [
+        EditorEvent.Write({ text: "hi" }),
+        EditorEvent.Format,
+        EditorEvent.OpenHelp,
+        EditorEvent.CloseHelp,
+      ]);
+      expect(nested.finalState).toEqual(EditorState.Draft({ text: "" }));
+    }),
+  );
+
+  it.effect("deep history resumes the last active leaf at any depth", () =>
+    Effect.gen(function* () {
+      const result = yield* simulate(editorMachine, [
+        EditorEvent.Write({ text: "hi" }),
+        EditorEvent.Format,
+        EditorEvent.Emphasize,
+        EditorEvent.OpenHelp,
+        EditorEvent.CloseHelpDeep,
+      ]);
+      expect(result.finalState).toEqual(EditorState.Italic({ text: "hi" }));
+    }),
+  );
+
+  it.scopedLive("history is recorded by the actor runtime", () =>
+    Effect.gen(function* () {
+      const actor = yield* Machine.spawn(editorMachine);
+      yield* actor.start;
+
+      yield* actor.call(EditorEvent.Write({ text: "live" }));
+      yield* actor.call(EditorEvent.Format);
+      yield* actor.call(EditorEvent.OpenHelp);
+      const result = yield* actor.call(EditorEvent.CloseHelpDeep);
+      expect(result.newState).toEqual(EditorState.Bold({ text: "live" }));
+    }),
+  );
+
+  it.scopedLive("durability saves history and recovery restores it", () =>
+    Effect.gen(function* () {
+      const storage = yield* Ref.make<
+        Option.Option<{ state: EditorState; history: StateHistory<EditorState> }>
+      >(Option.none());
+      const lifecycle = {
+        recovery: {
+          resolve: () =>
+            Effect.map(
+              Ref.get(storage),
+              Option.map(({ state }) => state),
+            ),
+          resolveHistory: () =>
+            Effect.map(
+              Ref.get(storage),
+              Option.map(({ history }) => history),
+            ),
+        },
+        durability: {
+          save: (commit: { nextState: EditorState; history: StateHistory<EditorState> }) =>
+            Ref.set(storage, Option.some({ state: commit.nextState, history: commit.history })),
+        },
+      };
+
+      const first = yield* Machine.spawn(editorMachine, { lifecycle });
+      yield* first.start;
+      yield* first.call(EditorEvent.Write({ text: "saved" }));
+      yield* first.call(EditorEvent.Preview);
+      yield* first.call(EditorEvent.OpenHelp);
+      yield* first.stop;
+
+      const second = yield* Machine.spawn(editorMachine, { lifecycle });
+      yield* second.start;
+      expect(yield* second.snapshot).toEqual(EditorState.Help);
+      const result = yield* second.call(EditorEvent.CloseHelp);
+      expect(result.newState).toEqual(EditorState.Preview({ text: "saved" }));
+    }),
+  );
+
+  it.effect("replay resolves history targets", () =>
+    Effect.gen(function* () {
+      const state = yield* Machine.replay(editorMachine, [
+        EditorEvent.Write({ text: "log" }),
+        EditorEvent.Preview,
+        EditorEvent.OpenHelp,
+        EditorEvent.CloseHelp,
+      ]);
+      expect(state).toEqual(EditorState.Preview({ text: "log" }));
+    }),
+  );
+});
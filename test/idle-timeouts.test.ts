@@ -0,0 +1,196 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Effect, Schema } from "effect";
+import { TestClock } from "effect/testing";
+
+import {
+  ActorSystemDefault,
+  ActorSystemService,
+  collectingInspector,
+  type InspectionEvent,
+  InspectorService,
+  Machine,
+  State,
+  Event,
+} from "../src/index.js";
+import { describe, expect, it, yieldFibers } from "effect-bun-test";
+
+const InputState = State({
+  Idle: {},
+  Typing: { value: Schema.String },
+  Committed: { value: Schema.String },
+});
+type InputState = typeof InputState.Type;
+
+const InputEvent = Event({
+  Focus: {},
+  Key: { key: Schema.String },
+  Paste: {},
+  Commit: {},
+  Blur: {},
+});
+type InputEvent = typeof InputEvent.Type;
+
+const inputMachine = Machine.make({
+  state: InputState,
+  event: InputEvent,
+  initial: InputState.Idle,
+})
+  .on(InputState.Idle, InputEvent.Focus, () => InputState.Typing({ value: "" }))
+  .on(InputState.Typing, InputEvent.Key, ({ state, event }) =>
+    InputState.Typing({ value: state.value + event.key }),
+  )
+  .on(InputState.Typing, InputEvent.Commit, ({ state }) =>
+    InputState.Committed({ value: state.value }),
+  )
+  .on(InputState.Typing, InputEvent.Blur, () => InputState.Idle)
+  .idleTimeout(InputState.Typing, { duration: "2 seconds", event: InputEvent.Commit });
+
+describe(".idleTimeout", () => {
+  it.scoped("every processed event restarts the window", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("input", inputMachine);
+
+      yield* actor.call(InputEvent.Focus);
+      yield* TestClock.adjust("1500 millis");
+      yield* actor.call(InputEvent.Key({ key: "a" }));
+      yield* TestClock.adjust("1500 millis");
+      yield* yieldFibers;
+      expect(yield* actor.snapshot).toEqual(InputState.Typing({ value: "a" }));
+
+      yield* TestClock.adjust("500 millis");
+      yield* yieldFibers;
+      expect(yield* actor.snapshot).toEqual(InputState.Committed({ value: "a" }));
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("leaving the state cancels it", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("input", inputMachine);
+
+      yield* actor.call(InputEvent.Focus);
+      yield* actor.call(InputEvent.Blur);
+      yield* TestClock.adjust("10 seconds");
+      yield* yieldFibers;
+      expect(yield* actor.snapshot).toEqual(InputState.Idle);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("postponed events do not restart the window", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn(
+        "input",
+        inputMachine.postpone(InputState.Typing, InputEvent.Paste),
+      );
+
+      yield* actor.call(InputEvent.Focus);
+      yield* TestClock.adjust("1500 millis");
+      yield* actor.send(InputEvent.Paste);
+      yield* TestClock.adjust("500 millis");
+      yield* yieldFibers;
+      expect(yield* actor.snapshot).toEqual(InputState.Committed({ value: "" }));
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("fires once when its event keeps the state", () =>
+    Effect.gen(function* () {
+      const machine = Machine.make({
+        state: InputState,
+        event: InputEvent,
+        initial: InputState.Typing({ value: "" }),
+      })
+        .on(InputState.Typing, InputEvent.Key, ({ state, event }) =>
+          InputState.Typing({ value: state.value + event.key }),
+        )
+        .on(InputState.Typing, InputEvent.Paste, ({ state }) =>
+          InputState.Typing({ value: `${state.value}!` }),
+        )
+        .idleTimeout(InputState.Typing, { duration: "1 second", event: InputEvent.Paste });
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("input", machine);
+
+      yield* yieldFibers;
+      for (let i = 0; i < 5; i++) {
+        yield* TestClock.adjust("1 second");
+        yield* yieldFibers;
+      }
+      expect(yield* actor.snapshot).toEqual(InputState.Typing({ value: "!" }));
+
+      // Any other event opens a new window
+      yield* actor.call(InputEvent.Key({ key: "a" }));
+      for (let i = 0; i < 3; i++) {
+        yield* TestClock.adjust("1 second");
+        yield* yieldFibers;
+      }
+      expect(yield* actor.snapshot).toEqual(InputState.Typing({ value: "!a!" }));
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("sending the idle event value by hand still restarts the window", () =>
+    Effect.gen(function* () {
+      // The first Paste — the idle timeout's — is stashed and never processed
+      let stashed = false;
+      const machine = Machine.make({
+        state: InputState,
+        event: InputEvent,
+        initial: InputState.Typing({ value: "" }),
+      })
+        .on(InputState.Typing, InputEvent.Paste, ({ state, self }) => {
+          if (stashed) return InputState.Typing({ value: `${state.value}!` });
+          stashed = true;
+          return self.stash().pipe(Effect.as(state));
+        })
+        .idleTimeout(InputState.Typing, { duration: "1 second", event: InputEvent.Paste });
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("input", machine);
+
+      yield* yieldFibers;
+      yield* TestClock.adjust("1 second");
+      yield* yieldFibers;
+      yield* actor.call(InputEvent.Paste);
+      for (let i = 0; i < 5; i++) {
+        yield* TestClock.adjust("1 second");
+        yield* yieldFibers;
+      }
+      expect(yield* actor.snapshot).toEqual(InputState.Typing({ value: "!!" }));
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("is inspected as $idle: tasks with a reset phase", () => {
+    const events: InspectionEvent<InputState, InputEvent>[] = [];
+
+    return Effect.gen(function* () {
+      const Editing = Machine.group("Editing", [InputState.Typing]);
+      const machine = inputMachine
+        .idleTimeout(Editing, { duration: "1 minute", event: InputEvent.Blur })
+        .timeout(InputState.Typing, { duration: "1 hour", event: InputEvent.Blur });
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("input", machine);
+
+      yield* actor.call(InputEvent.Focus);
+      yield* actor.call(InputEvent.Key({ key: "b" }));
+      yield* TestClock.adjust("2 seconds");
+      yield* yieldFibers;
+
+      const tasks = events.flatMap((e) =>
+        e.type === "@machine.task" ? [`${e.taskName}:${e.phase}`] : [],
+      );
+      expect(tasks.filter((t) => t.startsWith("$idle:"))).toEqual([
+        "$idle:Typing:start",
+        "$idle:Editing:start",
+        "$idle:Typing:reset",
+        "$idle:Editing:reset",
+        "$idle:Typing:success",
+        "$idle:Editing:interrupt",
+      ]);
+      // The state timeout keeps its own task name and is not reset by events
+      expect(tasks).toContain("$timeout:Typing:start");
+      expect(tasks).not.toContain("$timeout:Typing:reset");
+    }).pipe(
+      Effect.provide(ActorSystemDefault),
+      Effect.provideService(InspectorService, collectingInspector(events)),
+    );
+  });
+});
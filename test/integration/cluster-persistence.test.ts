@@ -560,4 +560,39 @@ describe("Entity Persistence", () => {
       }) as Effect.Effect<void>,
     );
   });
+
+  // ---------------------------------------------------------------------------
+  // 11. Snapshot carries state history for Machine.history targets
+  // ---------------------------------------------------------------------------
+  test("snapshot: state history is saved alongside state", async () => {
+    await Effect.runPromise(
+      Effect.gen(function* () {
+        const { storeRef, layer: adapterLayer } = yield* makeInMemoryPersistenceAdapter;
+
+        const entity = toEntity(counterMachine, { type: "SnapHistory" });
+        const entityLayer = EntityMachine.layer(entity, counterMachine, {
+          initializeState: () => CounterState.Active({ count: 0 }),
+          persistence: { strategy: "snapshot" },
+        });
+
+        yield* Effect.scoped(
+          Effect.gen(function* () {
+            const makeClient = yield* Entity.makeTestClient(
+              entity,
+              entityLayer.pipe(Layer.provide(ActorSystemDefault), Layer.provide(adapterLayer)),
+            );
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const client = (yield* makeClient("hist-1")) as any;
+            yield* client.Send({ event: CounterEvent.Increment });
+            yield* client.Send({ event: CounterEvent.Increment });
+          }),
+        ).pipe(Effect.provide(TestShardingConfig));
+
+        // Latest data per tag — same-tag transitions overwrite the entry
+        const store = yield* Ref.get(storeRef);
+        const entry = store.get("SnapHistory/hist-1");
+        expect(entry?.snapshot?.history).toEqual([CounterState.Active({ count: 2 })]);
+      }) as Effect.Effect<void>,
+    );
+  });
 });
@@ -302,6 +302,7 @@ describe("Entity.makeTestClient with machine handler", () => {
                 state: currentState,
                 event,
                 slots: {} as any,
+                self: {} as any,
               });
               const newState = Effect.isEffect(handlerResult)
                 ? yield* handlerResult as Effect.Effect<OrderState>
@@ -955,4 +956,213 @@ describe("EntityMachine.layer", () => {
       }).pipe(Effect.scoped, Effect.provide(TestShardingConfig)) as Effect.Effect<void>,
     );
   });
+
+  // ---------------------------------------------------------------------------
+  // Test 12: always transitions settle before the Send RPC returns
+  // ---------------------------------------------------------------------------
+  test("always transitions settle in the entity runtime", async () => {
+    const routingMachine = Machine.make({
+      state: OrderState,
+      event: OrderEvent,
+      initial: OrderState.Pending({ orderId: "" }),
+    })
+      .on(OrderState.Pending, OrderEvent.Process, ({ state }) =>
+        OrderState.Processing({ orderId: state.orderId, startedAt: 0 }),
+      )
+      .always(OrderState.Processing, ({ state }) =>
+        state.orderId.startsWith("digital-")
+          ? OrderState.Shipped({ orderId: state.orderId, trackingId: "download" })
+          : undefined,
+      )
+      .final(OrderState.Shipped);
+
+    const entity = toEntity(routingMachine, { type: "OrderAlways" });
+    const entityLayer = EntityMachine.layer(entity, routingMachine, {
+      initializeState: (entityId) => OrderState.Pending({ orderId: entityId }),
+    });
+
+    await Effect.runPromise(
+      Effect.gen(function* () {
+        const makeClient = yield* Entity.makeTestClient(
+          entity,
+          entityLayer.pipe(Layer.provide(ActorSystemDefault)),
+        );
+
+        const digital = yield* makeClient("digital-1");
+        const shipped = yield* digital.Send({ event: OrderEvent.Process });
+        expect(shipped._tag).toBe("Shipped");
+
+        const physical = yield* makeClient("physical-1");
+        const processing = yield* physical.Send({ event: OrderEvent.Process });
+        expect(processing._tag).toBe("Processing");
+      }).pipe(Effect.scoped, Effect.provide(TestShardingConfig)) as Effect.Effect<void>,
+    );
+  });
+
+  // ---------------------------------------------------------------------------
+  // Test 13: AwaitOutput resolves once the entity reaches a final state
+  // ---------------------------------------------------------------------------
+  test("AwaitOutput RPC returns the typed output", async () => {
+    const outputMachine = Machine.make({
+      state: OrderState,
+      event: OrderEvent,
+      output: Schema.String,
+      initial: OrderState.Pending({ orderId: "" }),
+    })
+      .on(OrderState.Pending, OrderEvent.Process, ({ state }) =>
+        OrderState.Shipped({ orderId: state.orderId, trackingId: "track-1" }),
+      )
+      .final(OrderState.Shipped, ({ state }) => state.trackingId);
+
+    const entity = toEntity(outputMachine, { type: "OrderOutput" });
+    const entityLayer = EntityMachine.layer(entity, outputMachine, {
+      initializeState: (entityId) => OrderState.Pending({ orderId: entityId }),
+    });
+
+    await Effect.runPromise(
+      Effect.gen(function* () {
+        const makeClient = yield* Entity.makeTestClient(
+          entity,
+          entityLayer.pipe(Layer.provide(ActorSystemDefault)),
+        );
+        const client = yield* makeClient("order-out");
+
+        // Requested before the final state — the mailbox keeps serving Send
+        const pending = yield* Effect.forkChild(client.AwaitOutput());
+        yield* client.Send({ event: OrderEvent.Process });
+        expect(yield* Fiber.join(pending)).toBe("track-1");
+      }).pipe(Effect.scoped, Effect.provide(TestShardingConfig)) as Effect.Effect<void>,
+    );
+  });
+
+  // ---------------------------------------------------------------------------
+  // Test 14: Spawn-time input derived from the entity ID
+  // ---------------------------------------------------------------------------
+  test("input is derived from the entity ID", async () => {
+    const inputMachine = Machine.make({
+      state: OrderState,
+      event: OrderEvent,
+      input: Schema.String,
+      initial: (orderId) => OrderState.Pending({ orderId }),
+    });
+
+    const entity = toEntity(inputMachine, { type: "OrderInput" });
+    const entityLayer = EntityMachine.layer(entity, inputMachine, {
+      input: (entityId) => entityId.toUpperCase(),
+    });
+
+    await Effect.runPromise(
+      Effect.gen(function* () {
+        const makeClient = yield* Entity.makeTestClient(
+          entity,
+          entityLayer.pipe(Layer.provide(ActorSystemDefault)),
+        );
+        const client = yield* makeClient("order-in");
+        const state = yield* client.GetState();
+        expect(state).toEqual(OrderState.Pending({ orderId: "ORDER-IN" }));
+      }).pipe(Effect.scoped, Effect.provide(TestShardingConfig)) as Effect.Effect<void>,
+    );
+  });
+
+  // ---------------------------------------------------------------------------
+  // Test 15: Reply errors cross the Ask RPC encoded with their schema
+  // ---------------------------------------------------------------------------
+  test("ask fails with the typed reply error via EntityMachine.layer", async () => {
+    class OutOfStock extends Schema.TaggedErrorClass<OutOfStock>()("OutOfStock", {
+      requested: Schema.Number,
+    }) {}
+
+    const StockState = State({
+      Available: { quantity: Schema.Number },
+    });
+
+    const StockEvent = Event({
+      Reserve: Event.reply({ quantity: Schema.Number }, Schema.Number, OutOfStock),
+    });
+
+    const stockMachine = Machine.make({
+      state: StockState,
+      event: StockEvent,
+      initial: StockState.Available({ quantity: 5 }),
+    }).on(StockState.Available, StockEvent.Reserve, ({ state, event }) =>
+      event.quantity > state.quantity
+        ? Machine.replyError(state, new OutOfStock({ requested: event.quantity }))
+        : Machine.reply(
+            StockState.Available({ quantity: state.quantity - event.quantity }),
+            state.quantity - event.quantity,
+          ),
+    );
+
+    const entity = toEntity(stockMachine, { type: "StockReply" });
+    const entityLayer = EntityMachine.layer(entity, stockMachine);
+
+    await Effect.runPromise(
+      Effect.gen(function* () {
+        const makeClient = yield* Entity.makeTestClient(
+          entity,
+          entityLayer.pipe(Layer.provide(ActorSystemDefault)),
+        );
+        const client = yield* makeClient("stock-1");
+
+        expect(yield* client.Ask({ event: StockEvent.Reserve({ quantity: 2 }) })).toBe(3);
+        const error = yield* Effect.flip(
+          client.Ask({ event: StockEvent.Reserve({ quantity: 9 }) }),
+        );
+        expect(error).toBeInstanceOf(OutOfStock);
+        expect(error).toMatchObject({ requested: 9 });
+      }).pipe(Effect.scoped, Effect.provide(TestShardingConfig)) as Effect.Effect<void>,
+    );
+  });
+
+  // ---------------------------------------------------------------------------
+  // Test 16: Streamed replies flow over the AskStream RPC
+  // ---------------------------------------------------------------------------
+  test("askStream streams reply items via EntityMachine.layer", async () => {
+    const ImportState = State({
+      Idle: {},
+      Importing: { rows: Schema.Number },
+    });
+
+    const ImportEvent = Event({
+      Import: Event.replyStream({ rows: Schema.Number }, Schema.Number),
+      Finished: {},
+    });
+
+    const importMachine = Machine.make({
+      state: ImportState,
+      event: ImportEvent,
+      initial: ImportState.Idle,
+    })
+      .on(ImportState.Idle, ImportEvent.Import, ({ event }) =>
+        Machine.deferReply(ImportState.Importing({ rows: event.rows })),
+      )
+      .on(ImportState.Importing, ImportEvent.Finished, () => ImportState.Idle)
+      .spawn(ImportState.Importing, ({ state, self }) =>
+        Effect.gen(function* () {
+          for (let row = 1; row <= state.rows; row++) {
+            yield* self.emitReply(row);
+          }
+          yield* self.completeReply();
+          yield* self.send(ImportEvent.Finished);
+        }),
+      );
+
+    const entity = toEntity(importMachine, { type: "ImportStream" });
+    const entityLayer = EntityMachine.layer(entity, importMachine);
+
+    await Effect.runPromise(
+      Effect.gen(function* () {
+        const makeClient = yield* Entity.makeTestClient(
+          entity,
+          entityLayer.pipe(Layer.provide(ActorSystemDefault)),
+        );
+        const client = yield* makeClient("import-1");
+
+        const rows = yield* Stream.runCollect(
+          client.AskStream({ event: ImportEvent.Import({ rows: 3 }) }),
+        );
+        expect(rows).toEqual([1, 2, 3]);
+      }).pipe(Effect.scoped, Effect.provide(TestShardingConfig)) as Effect.Effect<void>,
+    );
+  });
 });
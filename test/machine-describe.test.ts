@@ -0,0 +1,99 @@
+import { Effect, Schema } from "effect";
+
+import { Machine, Slot, State, Event } from "../src/index.js";
+import { describe, expect, test } from "bun:test";
+
+const FetchState = State({
+  Idle: {},
+  Loading: { url: Schema.String },
+  Done: { body: Schema.String },
+  Failed: {},
+});
+
+const FetchEvent = Event({
+  Fetch: { url: Schema.String },
+  Loaded: { body: Schema.String },
+  Timeout: {},
+  Status: Event.reply({}, Schema.String),
+  Cancel: {},
+});
+
+const FetchSlots = Slot.define({
+  allowed: Slot.fn({ url: Schema.String }, Schema.Boolean),
+});
+
+const fetchMachine = Machine.make({
+  state: FetchState,
+  event: FetchEvent,
+  slots: FetchSlots,
+  initial: FetchState.Idle,
+})
+  .on(FetchState.Idle, FetchEvent.Fetch, [FetchState.Loading], ({ event }) =>
+    FetchState.Loading({ url: event.url }),
+  )
+  .reenter(FetchState.Loading, FetchEvent.Fetch, ({ event }) =>
+    FetchState.Loading({ url: event.url }),
+  )
+  .on(FetchState.Loading, FetchEvent.Timeout, () => FetchState.Failed)
+  .onAny(FetchEvent.Cancel, () => FetchState.Idle)
+  .on(FetchState.Idle, FetchEvent.Status, ({ state }) => Machine.reply(state, "idle"))
+  .task(FetchState.Loading, ({ state }) => Effect.succeed(state.url), {
+    onSuccess: (body) => FetchEvent.Loaded({ body }),
+    name: "fetch",
+  })
+  .timeout(FetchState.Loading, { duration: "5 seconds", event: FetchEvent.Timeout })
+  .idleTimeout(FetchState.Idle, {
+    duration: (s) => (s._tag === "Idle" ? 10 : 20),
+    event: FetchEvent.Cancel,
+  })
+  .postpone(FetchState.Loading, FetchEvent.Status)
+  .final(FetchState.Done);
+
+describe("Machine.describe", () => {
+  test("describes the builder's registrations as plain data", () => {
+    const description = Machine.describe(fetchMachine);
+
+    expect(description.initial).toBe("Idle");
+    expect(description.states.map((s) => s.tag)).toEqual(["Idle", "Loading", "Done", "Failed"]);
+    expect(description.events.map((e) => e.tag)).toEqual([
+      "Fetch",
+      "Loaded",
+      "Timeout",
+      "Status",
+      "Cancel",
+    ]);
+    expect(description.transitions).toEqual([
+      { from: "Idle", event: "Fetch", reenter: false, targets: ["Loading"] },
+      { from: "Loading", event: "Fetch", reenter: true },
+      { from: "Loading", event: "Timeout", reenter: false },
+      { from: "Idle", event: "Status", reenter: false },
+    ]);
+    expect(description.wildcards).toEqual([{ event: "Cancel" }]);
+    expect(description.spawnEffects).toEqual([
+      { state: "Loading", task: "fetch" },
+      { state: "Loading", task: "$timeout:Loading" },
+    ]);
+    expect(description.timeouts).toEqual([
+      { state: "Loading", kind: "state", durationMillis: 5000, event: "Timeout" },
+      { state: "Idle", kind: "idle", event: "Cancel" },
+    ]);
+    expect(description.postponeRules).toEqual([{ state: "Loading", event: "Status" }]);
+    expect(description.finalStates).toEqual(["Done"]);
+  });
+
+  test("renders schemas as JSON Schema and round-trips through JSON", () => {
+    const description = Machine.describe(fetchMachine);
+
+    const loading = description.states.find((s) => s.tag === "Loading");
+    expect(loading?.schema?.schema).toMatchObject({
+      type: "object",
+      properties: { url: { type: "string" } },
+    });
+    const status = description.events.find((e) => e.tag === "Status");
+    expect(status?.reply?.schema).toEqual({ type: "string" });
+    expect(description.slots.map((s) => [s.name, s.output?.schema])).toEqual([
+      ["allowed", { type: "boolean" }],
+    ]);
+    expect(JSON.parse(JSON.stringify(description))).toEqual(description);
+  });
+});
@@ -0,0 +1,155 @@
+import { Schema } from "effect";
+
+import { Machine, Slot, State, Event } from "../src/index.js";
+import { describe, expect, test } from "bun:test";
+
+const OrderStateV1 = State({
+  Cart: { items: Schema.Number },
+  Paid: { receipt: Schema.String },
+  Shipped: {},
+  Legacy: {},
+});
+
+const OrderEventV1 = Event({
+  Pay: { receipt: Schema.String },
+  Ship: {},
+  Cancel: {},
+});
+
+const OrderSlots = Slot.define({
+  notify: Slot.fn({}),
+  audit: Slot.fn({}),
+});
+
+const buildOrderV1 = () =>
+  Machine.make({
+    state: OrderStateV1,
+    event: OrderEventV1,
+    slots: OrderSlots,
+    initial: OrderStateV1.Cart({ items: 0 }),
+  })
+    .on(OrderStateV1.Cart, OrderEventV1.Pay, ({ event }) =>
+      OrderStateV1.Paid({ receipt: event.receipt }),
+    )
+    .on(OrderStateV1.Paid, OrderEventV1.Ship, () => OrderStateV1.Shipped)
+    .on(OrderStateV1.Cart, OrderEventV1.Cancel, () => OrderStateV1.Legacy)
+    .final(OrderStateV1.Shipped);
+
+const orderV1 = buildOrderV1();
+
+const OrderStateV2 = State({
+  Cart: { items: Schema.Number, coupon: Schema.optionalKey(Schema.String) },
+  Paid: { receipt: Schema.Number, paidAt: Schema.String },
+  Shipped: {},
+  Delivered: {},
+});
+
+const OrderEventV2 = Event({
+  Pay: { receipt: Schema.String },
+  Ship: { carrier: Schema.optionalKey(Schema.String) },
+  Deliver: {},
+});
+
+const orderV2 = Machine.make({
+  state: OrderStateV2,
+  event: OrderEventV2,
+  slots: Slot.define({ notify: Slot.fn({}) }),
+  initial: OrderStateV2.Cart({ items: 0 }),
+})
+  .on(OrderStateV2.Cart, OrderEventV2.Pay, ({ event }) =>
+    OrderStateV2.Paid({ receipt: Number(event.receipt), paidAt: "now" }),
+  )
+  .on(OrderStateV2.Paid, OrderEventV2.Ship, () => OrderStateV2.Shipped)
+  .on(OrderStateV2.Shipped, OrderEventV2.Deliver, () => OrderStateV2.Delivered)
+  .final(OrderStateV2.Delivered);
+
+describe("Machine.diff", () => {
+  test("reports and classifies structural changes", () => {
+    const result = Machine.diff(orderV1, orderV2);
+
+    expect(result.changes).toEqual([
+      {
+        kind: "variantRemoved",
+        schema: "state",
+        tag: "Legacy",
+        snapshot: "breaking",
+        journal: "safe",
+      },
+      {
+        kind: "fieldAdded",
+        schema: "state",
+        tag: "Cart",
+        field: "coupon",
+        snapshot: "safe",
+        journal: "safe",
+      },
+      {
+        kind: "fieldChanged",
+        schema: "state",
+        tag: "Paid",
+        field: "receipt",
+        snapshot: "breaking",
+        journal: "safe",
+      },
+      {
+        kind: "fieldAdded",
+        schema: "state",
+        tag: "Paid",
+        field: "paidAt",
+        snapshot: "breaking",
+        journal: "safe",
+      },
+      {
+        kind: "variantAdded",
+        schema: "state",
+        tag: "Delivered",
+        snapshot: "safe",
+        journal: "safe",
+      },
+      {
+        kind: "variantRemoved",
+        schema: "event",
+        tag: "Cancel",
+        snapshot: "safe",
+        journal: "breaking",
+      },
+      {
+        kind: "fieldAdded",
+        schema: "event",
+        tag: "Ship",
+        field: "carrier",
+        snapshot: "safe",
+        journal: "safe",
+      },
+      { kind: "variantAdded", schema: "event", tag: "Deliver", snapshot: "safe", journal: "safe" },
+      {
+        kind: "transitionRemoved",
+        from: "Cart",
+        event: "Cancel",
+        snapshot: "safe",
+        journal: "breaking",
+      },
+      { kind: "finalRemoved", state: "Shipped", snapshot: "safe", journal: "breaking" },
+      { kind: "finalAdded", state: "Delivered", snapshot: "safe", journal: "breaking" },
+      { kind: "slotRemoved", slot: "audit", snapshot: "safe", journal: "safe" },
+    ]);
+    expect(result.snapshotSafe).toBe(false);
+    expect(result.journalSafe).toBe(false);
+  });
+
+  test("an identical or additive version is safe", () => {
+    expect(Machine.diff(orderV1, orderV1)).toEqual({
+      changes: [],
+      snapshotSafe: true,
+      journalSafe: true,
+    });
+
+    const additive = buildOrderV1().on(
+      OrderStateV1.Paid,
+      OrderEventV1.Cancel,
+      () => OrderStateV1.Legacy,
+    );
+    const result = Machine.diff(orderV1, additive);
+    expect(result.snapshotSafe && result.journalSafe).toBe(true);
+  });
+});
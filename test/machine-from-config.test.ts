@@ -0,0 +1,135 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Effect, Schema, SubscriptionRef } from "effect";
+import { TestClock } from "effect/testing";
+
+import {
+  ActorSystemDefault,
+  ActorSystemService,
+  InvalidMachineConfigError,
+  Machine,
+  State,
+  Event,
+} from "../src/index.js";
+import type { StatechartConfig } from "../src/index.js";
+import { describe, expect, it, yieldFibers } from "effect-bun-test";
+
+const FetchState = State({
+  Idle: {},
+  Loading: { url: Schema.String, attempts: Schema.Number },
+  Done: {},
+  Failed: {},
+});
+
+const FetchEvent = Event({
+  Fetch: { url: Schema.String },
+  Retry: {},
+  Loaded: {},
+  Timeout: {},
+});
+
+// As exported from a designer tool — plain JSON, no literal types
+const fetchConfig: StatechartConfig = JSON.parse(
+  JSON.stringify({
+    initial: "Idle",
+    states: {
+      Idle: { on: { Fetch: { target: "Loading", actions: "startLoading" } } },
+      Loading: {
+        on: {
+          Loaded: "Done",
+          Retry: [
+            { target: "Loading", guard: "canRetry", actions: ["retry"], reenter: true },
+            { target: "Failed" },
+          ],
+        },
+        after: { "5000": { event: "Timeout", target: "Failed" } },
+      },
+      Done: { type: "final" },
+      Failed: { type: "final" },
+    },
+  }),
+);
+
+const fetchMachine = Machine.fromConfig(fetchConfig, {
+  state: FetchState,
+  event: FetchEvent,
+  actions: {
+    startLoading: ({ event }) =>
+      event._tag === "Fetch"
+        ? FetchState.Loading({ url: event.url, attempts: 1 })
+        : FetchState.Idle,
+    retry: ({ state }) =>
+      state._tag === "Loading"
+        ? FetchState.Loading({ ...state, attempts: state.attempts + 1 })
+        : state,
+  },
+  guards: {
+    canRetry: ({ state }) => state._tag === "Loading" && state.attempts < 2,
+  },
+});
+
+describe("Machine.fromConfig", () => {
+  it.scoped("builds transitions, guards, actions, delays and final states", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("fetch", fetchMachine);
+
+      yield* actor.call(FetchEvent.Fetch({ url: "/a" }));
+      yield* actor.call(FetchEvent.Retry);
+      expect(yield* SubscriptionRef.get(actor.state)).toEqual(
+        FetchState.Loading({ url: "/a", attempts: 2 }),
+      );
+
+      // Guard fails on the second retry — falls through to the unguarded alternative
+      yield* actor.call(FetchEvent.Retry);
+      expect((yield* SubscriptionRef.get(actor.state))._tag).toBe("Failed");
+
+      const timed = yield* system.spawn("timed", fetchMachine);
+      yield* timed.call(FetchEvent.Fetch({ url: "/b" }));
+      yield* TestClock.adjust("5 seconds");
+      yield* yieldFibers;
+      expect((yield* SubscriptionRef.get(timed.state))._tag).toBe("Failed");
+
+      expect(Machine.describe(fetchMachine).finalStates).toEqual(["Done", "Failed"]);
+      expect(Machine.describe(fetchMachine).timeouts).toEqual([
+        { state: "Loading", kind: "state", durationMillis: 5000, event: "Timeout" },
+      ]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.effect("lists unknown names and unbuildable transitions", () =>
+    Effect.gen(function* () {
+      const error = yield* Effect.flip(
+        Effect.try({
+          try: () =>
+            Machine.fromConfig(
+              {
+                initial: "Idle",
+                states: {
+                  Idle: {
+                    on: {
+                      Fetch: { target: "Loading" },
+                      Ping: { target: "Gone", actions: "ping", guard: "isOnline" },
+                    },
+                  },
+                  Loading: { after: { soon: { event: "Timeout", target: "Done" } } },
+                  Paused: {},
+                },
+              },
+              { state: FetchState, event: FetchEvent },
+            ),
+          catch: (e) => e as InvalidMachineConfigError,
+        }),
+      );
+
+      expect(error).toBeInstanceOf(InvalidMachineConfigError);
+      expect(error.unknownStates).toEqual(["Gone", "Paused"]);
+      expect(error.unknownEvents).toEqual(["Ping"]);
+      expect(error.unknownActions).toEqual(["ping"]);
+      expect(error.unknownGuards).toEqual(["isOnline"]);
+      expect(error.issues).toEqual([
+        'Idle.Fetch: target "Loading" has fields — name an action that builds it',
+        'Loading: invalid delay "soon"',
+      ]);
+    }),
+  );
+});
@@ -0,0 +1,101 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Context, Effect, Schema } from "effect";
+
+import {
+  ActorSystemDefault,
+  ActorSystemService,
+  createTestHarness,
+  InvalidInputError,
+  Machine,
+  simulate,
+  State,
+  Event,
+} from "../src/index.js";
+import { describe, expect, it } from "effect-bun-test";
+
+const SessionState = State({
+  Active: { userId: Schema.String, limit: Schema.Number },
+  Closed: {},
+});
+
+const SessionEvent = Event({
+  Close: {},
+});
+
+const SessionInput = Schema.Struct({ userId: Schema.String, limit: Schema.Number });
+
+const sessionMachine = Machine.make({
+  state: SessionState,
+  event: SessionEvent,
+  input: SessionInput,
+  initial: (input) => SessionState.Active(input),
+}).on(SessionState.Active, SessionEvent.Close, () => SessionState.Closed);
+
+class Limits extends Context.Service<Limits, { readonly forUser: (id: string) => number }>()(
+  "effect-machine/test/machine-input.test/Limits",
+) {}
+
+describe("Spawn-time input", () => {
+  it.scoped("each spawn derives its initial state from the input", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const ann = yield* system.spawn("ann", sessionMachine, {
+        input: { userId: "ann", limit: 3 },
+      });
+      const bob = yield* Machine.spawn(sessionMachine, { input: { userId: "bob", limit: 5 } });
+
+      expect(yield* ann.snapshot).toEqual(SessionState.Active({ userId: "ann", limit: 3 }));
+      expect(yield* bob.snapshot).toEqual(SessionState.Active({ userId: "bob", limit: 5 }));
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("input that does not match the schema fails with InvalidInputError", () =>
+    Effect.gen(function* () {
+      const invalid = { userId: 1, limit: "many" } as unknown as typeof SessionInput.Type;
+      const error = yield* Effect.flip(Machine.spawn(sessionMachine, { input: invalid }));
+      expect(error).toBeInstanceOf(InvalidInputError);
+
+      const system = yield* ActorSystemService;
+      const recovered = yield* system
+        .spawn("dave", sessionMachine, { input: invalid })
+        .pipe(Effect.catchTag("InvalidInputError", () => Effect.succeed("rejected")));
+      expect(recovered).toBe("rejected");
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("initial can be effectful and use services", () =>
+    Effect.gen(function* () {
+      const machine = Machine.make({
+        state: SessionState,
+        event: SessionEvent,
+        input: Schema.String,
+        initial: (userId) =>
+          Effect.gen(function* () {
+            const limits = yield* Limits;
+            return SessionState.Active({ userId, limit: limits.forUser(userId) });
+          }),
+      });
+
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("carol", machine, { input: "carol" });
+      expect(yield* actor.snapshot).toEqual(SessionState.Active({ userId: "carol", limit: 5 }));
+    }).pipe(
+      Effect.provide(ActorSystemDefault),
+      Effect.provideService(Limits, { forUser: (id) => id.length }),
+    ),
+  );
+
+  it.effect("simulate and createTestHarness accept input", () =>
+    Effect.gen(function* () {
+      const result = yield* simulate(sessionMachine, [SessionEvent.Close], {
+        input: { userId: "dan", limit: 1 },
+      });
+      expect(result.states.map((s) => s._tag)).toEqual(["Active", "Closed"]);
+
+      const harness = yield* createTestHarness(sessionMachine, {
+        input: { userId: "eve", limit: 2 },
+      });
+      expect(yield* harness.getState).toEqual(SessionState.Active({ userId: "eve", limit: 2 }));
+    }),
+  );
+});
@@ -0,0 +1,132 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Effect, Schema } from "effect";
+
+import {
+  ActorExit,
+  ActorFailedError,
+  ActorSystemDefault,
+  ActorSystemService,
+  Machine,
+  State,
+  Event,
+} from "../src/index.js";
+import { describe, expect, it } from "effect-bun-test";
+
+const CheckoutState = State({
+  Cart: { total: Schema.Number },
+  Paid: { total: Schema.Number, receipt: Schema.String },
+  Abandoned: {},
+});
+
+const CheckoutEvent = Event({
+  Pay: { receipt: Schema.String },
+  Abandon: {},
+});
+
+const Receipt = Schema.Struct({ receipt: Schema.String, total: Schema.Number });
+
+const checkoutMachine = Machine.make({
+  state: CheckoutState,
+  event: CheckoutEvent,
+  output: Schema.NullOr(Receipt),
+  initial: CheckoutState.Cart({ total: 42 }),
+})
+  .on(CheckoutState.Cart, CheckoutEvent.Pay, ({ state, event }) =>
+    CheckoutState.Paid({ total: state.total, receipt: event.receipt }),
+  )
+  .on(CheckoutState.Cart, CheckoutEvent.Abandon, () => CheckoutState.Abandoned)
+  .final(CheckoutState.Paid, ({ state }) => ({ receipt: state.receipt, total: state.total }))
+  .final(CheckoutState.Abandoned, () => null);
+
+describe("Machine output", () => {
+  it.scoped("final states resolve awaitOutput and ActorExit.Final", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const paid = yield* system.spawn("paid", checkoutMachine);
+      yield* paid.send(CheckoutEvent.Pay({ receipt: "r-1" }));
+      const output = yield* paid.awaitOutput;
+      expect(output).toEqual({ receipt: "r-1", total: 42 });
+
+      const exit = yield* paid.awaitExit;
+      expect(exit._tag === "Final" && exit.output).toEqual({ receipt: "r-1", total: 42 });
+
+      const abandoned = yield* system.spawn("abandoned", checkoutMachine);
+      yield* abandoned.send(CheckoutEvent.Abandon);
+      expect(yield* abandoned.awaitOutput).toBeNull();
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.effect("ActorExit.Final defaults output to undefined", () =>
+    Effect.sync(() => {
+      expect(ActorExit.Final(CheckoutState.Abandoned)).toEqual({
+        _tag: "Final",
+        state: CheckoutState.Abandoned,
+        output: undefined,
+      });
+    }),
+  );
+
+  it.scoped("awaitOutput fails with ActorFailedError when the actor never finishes", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const stopped = yield* system.spawn("stopped", checkoutMachine);
+      yield* stopped.stop;
+      const error = yield* Effect.flip(stopped.awaitOutput);
+      expect(error).toBeInstanceOf(ActorFailedError);
+      expect(error.reason).toBe("stopped");
+
+      // Output that does not match the schema is a defect
+      const invalid = yield* system.spawn(
+        "invalid",
+        Machine.make({
+          state: CheckoutState,
+          event: CheckoutEvent,
+          output: Schema.Number,
+          initial: CheckoutState.Cart({ total: 1 }),
+        })
+          .on(CheckoutState.Cart, CheckoutEvent.Abandon, () => CheckoutState.Abandoned)
+          .final(CheckoutState.Abandoned),
+      );
+      yield* invalid.send(CheckoutEvent.Abandon);
+      const failed = yield* Effect.flip(invalid.awaitOutput);
+      expect(failed.reason).toBe("defect");
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("self.spawn delivers child output to the parent", () =>
+    Effect.gen(function* () {
+      const OrderState = State({
+        Checkout: {},
+        Confirmed: { receipt: Schema.String },
+        Cancelled: {},
+      });
+      const OrderEvent = Event({
+        CheckoutDone: { receipt: Schema.NullOr(Schema.String) },
+      });
+
+      const orderMachine = Machine.make({
+        state: OrderState,
+        event: OrderEvent,
+        initial: OrderState.Checkout,
+      })
+        .on(OrderState.Checkout, OrderEvent.CheckoutDone, ({ event }) =>
+          event.receipt === null
+            ? OrderState.Cancelled
+            : OrderState.Confirmed({ receipt: event.receipt }),
+        )
+        .spawn(OrderState.Checkout, ({ self }) =>
+          Effect.gen(function* () {
+            const checkout = yield* self.spawn("checkout", checkoutMachine, {
+              onOutput: (output) => OrderEvent.CheckoutDone({ receipt: output?.receipt ?? null }),
+            });
+            yield* checkout.send(CheckoutEvent.Pay({ receipt: "r-2" }));
+          }).pipe(Effect.orDie),
+        );
+
+      const system = yield* ActorSystemService;
+      const order = yield* system.spawn("order", orderMachine);
+      const confirmed = yield* order.waitFor(OrderState.Confirmed);
+      expect(confirmed).toEqual(OrderState.Confirmed({ receipt: "r-2" }));
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+});
@@ -0,0 +1,82 @@
+import { Schema } from "effect";
+
+import { Machine, Slot, State, Event } from "../src/index.js";
+import { describe, expect, test } from "bun:test";
+
+const OrderState = State({
+  Draft: {},
+  Submitted: {},
+  Approved: {},
+  Archived: {},
+  Rejected: {},
+});
+
+const OrderEvent = Event({
+  Submit: {},
+  Approve: {},
+  Reject: {},
+  Reopen: {},
+  Ping: {},
+});
+
+const OrderSlots = Slot.define({
+  canApprove: Slot.fn({}, Schema.Boolean),
+  notify: Slot.fn({ message: Schema.String }),
+});
+
+const orderMachine = Machine.make({
+  state: OrderState,
+  event: OrderEvent,
+  slots: OrderSlots,
+  initial: OrderState.Draft,
+})
+  .on(OrderState.Draft, OrderEvent.Submit, () => OrderState.Submitted)
+  .on(OrderState.Submitted, OrderEvent.Approve, {
+    guard: "canApprove",
+    handler: () => OrderState.Approved,
+  })
+  .on(OrderState.Submitted, OrderEvent.Reject, () => OrderState.Rejected)
+  .on(OrderState.Rejected, OrderEvent.Reopen, () => OrderState.Draft)
+  .task(OrderState.Submitted, ({ slots }) => slots.notify({ message: "submitted" }), {
+    onSuccess: () => OrderEvent.Approve,
+  })
+  .final(OrderState.Rejected);
+
+describe("Machine.validate", () => {
+  test("reports structural problems", () => {
+    const report = Machine.validate(orderMachine.postpone(OrderState.Approved, OrderEvent.Submit));
+
+    expect(report).toEqual({
+      valid: false,
+      unreachableStates: [],
+      deadEndStates: ["Approved", "Archived"],
+      unhandledEvents: ["Ping"],
+      finalStateTransitions: [{ state: "Rejected", event: "Reopen" }],
+      undrainablePostpones: [{ state: "Approved", event: "Submit" }],
+    });
+  });
+
+  test("a machine that cannot leave its initial state reaches nothing else", () => {
+    const report = Machine.validate(
+      Machine.make({ state: OrderState, event: OrderEvent, initial: OrderState.Draft })
+        .postpone(OrderState.Draft, OrderEvent.Submit)
+        .on(OrderState.Draft, OrderEvent.Submit, () => OrderState.Submitted),
+    );
+    expect(report.unreachableStates).toEqual(["Submitted", "Approved", "Archived", "Rejected"]);
+    expect(report.deadEndStates).toContain("Draft");
+  });
+
+  test("a well-formed machine is valid", () => {
+    const report = Machine.validate(
+      Machine.make({ state: OrderState, event: OrderEvent, initial: OrderState.Draft })
+        .on(OrderState.Draft, OrderEvent.Submit, () => OrderState.Submitted)
+        .on(OrderState.Submitted, OrderEvent.Approve, () => OrderState.Approved)
+        .on(OrderState.Approved, OrderEvent.Ping, () => OrderState.Archived)
+        .on(OrderState.Submitted, OrderEvent.Reject, () => OrderState.Rejected)
+        .onAny(OrderEvent.Reopen, () => OrderState.Draft)
+        .always(OrderState.Rejected, () => undefined)
+        .final(OrderState.Archived),
+    );
+    expect(report).toMatchObject({ valid: true, deadEndStates: [] });
+  });
+});
@@ -0,0 +1,260 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Deferred, Duration, Effect, Fiber, Schema } from "effect";
+
+import {
+  ActorSystemDefault,
+  ActorSystemService,
+  collectingInspector,
+  type AnyInspectionEvent,
+  InspectorService,
+  MailboxFullError,
+  Machine,
+  State,
+  Event,
+  Supervision,
+} from "../src/index.js";
+import { describe, expect, it, yieldFibers } from "effect-bun-test";
+
+const WorkState = State({ Idle: {} });
+
+const WorkEvent = Event({
+  Work: { n: Schema.Number },
+  Crash: {},
+});
+
+/** Every Work waits on the gate, so the first one holds the loop and the rest queue up */
+const buildWorkMachine = (gate: Deferred.Deferred<void>, processed: number[]) =>
+  Machine.make({ state: WorkState, event: WorkEvent, initial: WorkState.Idle })
+    .on(WorkState.Idle, WorkEvent.Work, ({ event }) =>
+      Deferred.await(gate).pipe(
+        Effect.andThen(Effect.sync(() => processed.push(event.n))),
+        Effect.as(WorkState.Idle),
+      ),
+    )
+    .on(WorkState.Idle, WorkEvent.Crash, () => Effect.die("boom"));
+
+const drops = (events: AnyInspectionEvent[]) =>
+  events.flatMap((event) =>
+    event.type === "@machine.drop" ? [[event.event._tag, event.strategy] as const] : [],
+  );
+
+describe("Bounded mailboxes", () => {
+  it.scoped("suspend back-pressures send until there is room", () =>
+    Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const processed: number[] = [];
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("worker", buildWorkMachine(gate, processed), {
+        mailbox: { capacity: 1 },
+      });
+
+      yield* actor.send(WorkEvent.Work({ n: 1 }));
+      yield* yieldFibers;
+      yield* actor.send(WorkEvent.Work({ n: 2 }));
+      const sending = yield* Effect.forkChild(actor.send(WorkEvent.Work({ n: 3 })));
+      yield* yieldFibers;
+      expect(sending.pollUnsafe()).toBeUndefined();
+
+      yield* Deferred.succeed(gate, undefined);
+      yield* Fiber.join(sending);
+      yield* yieldFibers;
+      expect(processed).toEqual([1, 2, 3]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("dropping discards new events and reports them", () => {
+    const events: AnyInspectionEvent[] = [];
+    return Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const processed: number[] = [];
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("worker", buildWorkMachine(gate, processed), {
+        mailbox: { capacity: 1, strategy: "dropping" },
+      });
+
+      yield* actor.send(WorkEvent.Work({ n: 1 }));
+      yield* yieldFibers;
+      yield* actor.send(WorkEvent.Work({ n: 2 }));
+      yield* actor.send(WorkEvent.Work({ n: 3 }));
+
+      yield* Deferred.succeed(gate, undefined);
+      yield* yieldFibers;
+      expect(processed).toEqual([1, 2]);
+      expect(drops(events)).toEqual([["Work", "dropping"]]);
+    }).pipe(
+      Effect.provide(ActorSystemDefault),
+      Effect.provideService(InspectorService, collectingInspector(events)),
+    );
+  });
+
+  it.scoped("sliding evicts the oldest queued send", () => {
+    const events: AnyInspectionEvent[] = [];
+    return Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const processed: number[] = [];
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("worker", buildWorkMachine(gate, processed), {
+        mailbox: { capacity: 1, strategy: "sliding" },
+      });
+
+      yield* actor.send(WorkEvent.Work({ n: 1 }));
+      yield* yieldFibers;
+      yield* actor.send(WorkEvent.Work({ n: 2 }));
+      yield* actor.send(WorkEvent.Work({ n: 3 }));
+
+      yield* Deferred.succeed(gate, undefined);
+      yield* yieldFibers;
+      expect(processed).toEqual([1, 3]);
+      expect(drops(events)).toEqual([["Work", "sliding"]]);
+    }).pipe(
+      Effect.provide(ActorSystemDefault),
+      Effect.provideService(InspectorService, collectingInspector(events)),
+    );
+  });
+
+  it.scoped("fail rejects sends to a full mailbox with MailboxFullError", () =>
+    Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("worker", buildWorkMachine(gate, []), {
+        mailbox: { capacity: 1, strategy: "fail" },
+      });
+
+      yield* actor.send(WorkEvent.Work({ n: 1 }));
+      yield* yieldFibers;
+      yield* actor.send(WorkEvent.Work({ n: 2 }));
+      const error = yield* Effect.flip(actor.send(WorkEvent.Work({ n: 3 })));
+      expect(error).toBeInstanceOf(MailboxFullError);
+      expect(error).toMatchObject({ actorId: "worker", capacity: 1 });
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scopedLive("the mailbox stays bounded across supervision restarts", () =>
+    Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const actor = yield* Machine.spawn(buildWorkMachine(gate, []), {
+        supervision: Supervision.restart({ maxRestarts: 1 }),
+        mailbox: { capacity: 1, strategy: "fail" },
+      });
+      yield* actor.start;
+
+      yield* actor.send(WorkEvent.Crash);
+      yield* yieldFibers;
+      yield* Effect.sleep(Duration.millis(50));
+
+      yield* actor.send(WorkEvent.Work({ n: 1 }));
+      yield* yieldFibers;
+      yield* actor.send(WorkEvent.Work({ n: 2 }));
+      const error = yield* Effect.flip(actor.send(WorkEvent.Work({ n: 3 })));
+      expect(error).toBeInstanceOf(MailboxFullError);
+      yield* actor.stop;
+    }),
+  );
+});
+
+describe("sync.send with a bounded mailbox", () => {
+  it.scoped("suspend queues the send in the background instead of blocking", () =>
+    Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const processed: number[] = [];
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("worker", buildWorkMachine(gate, processed), {
+        mailbox: { capacity: 1 },
+      });
+
+      yield* actor.send(WorkEvent.Work({ n: 1 }));
+      yield* yieldFibers;
+      yield* Effect.sync(() => {
+        actor.sync.send(WorkEvent.Work({ n: 2 }));
+        actor.sync.send(WorkEvent.Work({ n: 3 }));
+      });
+
+      yield* Deferred.succeed(gate, undefined);
+      yield* yieldFibers;
+      expect(processed).toEqual([1, 2, 3]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("dropping discards new events and reports them", () => {
+    const events: AnyInspectionEvent[] = [];
+    return Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const processed: number[] = [];
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("worker", buildWorkMachine(gate, processed), {
+        mailbox: { capacity: 1, strategy: "dropping" },
+      });
+
+      yield* actor.send(WorkEvent.Work({ n: 1 }));
+      yield* yieldFibers;
+      yield* Effect.sync(() => {
+        actor.sync.send(WorkEvent.Work({ n: 2 }));
+        actor.sync.send(WorkEvent.Work({ n: 3 }));
+      });
+
+      yield* Deferred.succeed(gate, undefined);
+      yield* yieldFibers;
+      expect(processed).toEqual([1, 2]);
+      expect(drops(events)).toEqual([["Work", "dropping"]]);
+    }).pipe(
+      Effect.provide(ActorSystemDefault),
+      Effect.provideService(InspectorService, collectingInspector(events)),
+    );
+  });
+
+  it.scoped("sliding evicts the oldest queued send", () => {
+    const events: AnyInspectionEvent[] = [];
+    return Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const processed: number[] = [];
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("worker", buildWorkMachine(gate, processed), {
+        mailbox: { capacity: 1, strategy: "sliding" },
+      });
+
+      yield* actor.send(WorkEvent.Work({ n: 1 }));
+      yield* yieldFibers;
+      yield* Effect.sync(() => {
+        actor.sync.send(WorkEvent.Work({ n: 2 }));
+        actor.sync.send(WorkEvent.Work({ n: 3 }));
+      });
+
+      yield* Deferred.succeed(gate, undefined);
+      yield* yieldFibers;
+      expect(processed).toEqual([1, 3]);
+      expect(drops(events)).toEqual([["Work", "sliding"]]);
+    }).pipe(
+      Effect.provide(ActorSystemDefault),
+      Effect.provideService(InspectorService, collectingInspector(events)),
+    );
+  });
+
+  it.scoped("fail throws MailboxFullError and does not enqueue the event", () =>
+    Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const processed: number[] = [];
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("worker", buildWorkMachine(gate, processed), {
+        mailbox: { capacity: 1, strategy: "fail" },
+      });
+
+      yield* actor.send(WorkEvent.Work({ n: 1 }));
+      yield* yieldFibers;
+      const thrown = yield* Effect.sync(() => {
+        actor.sync.send(WorkEvent.Work({ n: 2 }));
+        try {
+          actor.sync.send(WorkEvent.Work({ n: 3 }));
+        } catch (error) {
+          return error;
+        }
+        return undefined;
+      });
+      expect(thrown).toBeInstanceOf(MailboxFullError);
+      expect(thrown).toMatchObject({ actorId: "worker", capacity: 1 });
+
+      yield* Deferred.succeed(gate, undefined);
+      yield* yieldFibers;
+      expect(processed).toEqual([1, 2]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+});
@@ -0,0 +1,99 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Duration, Effect, Schema } from "effect";
+import { TestClock } from "effect/testing";
+
+import { ActorSystemDefault, ActorSystemService, Machine, State, Event } from "../src/index.js";
+import { describe, expect, it, yieldFibers } from "effect-bun-test";
+
+const JobState = State({
+  Idle: {},
+  Running: { attempts: Schema.Number },
+  Paused: { attempts: Schema.Number },
+});
+
+const JobEvent = Event({
+  Start: {},
+  Pause: {},
+  Retry: {},
+  Cancel: {},
+});
+
+const jobMachine = Machine.make({
+  state: JobState,
+  event: JobEvent,
+  initial: JobState.Idle,
+})
+  .on(JobState.Idle, JobEvent.Start, () => JobState.Running({ attempts: 0 }))
+  .on(JobState.Running, JobEvent.Pause, ({ state }) => JobState.Paused(state))
+  .on([JobState.Running, JobState.Paused], JobEvent.Retry, ({ state }) =>
+    JobState.Running({ attempts: state.attempts + 1 }),
+  )
+  .on([JobState.Running, JobState.Paused], JobEvent.Cancel, () => JobState.Idle)
+  .onEnter(JobState.Running, ({ self }) => self.startTimer("retry", "10 seconds", JobEvent.Retry))
+  .onEnter(JobState.Idle, ({ self }) => self.cancelTimer("retry"));
+
+describe("Named timers", () => {
+  it.scoped("timers survive state changes and are driven by the Clock", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("job", jobMachine);
+
+      yield* actor.call(JobEvent.Start);
+      yield* TestClock.adjust("4 seconds");
+      yield* actor.call(JobEvent.Pause);
+
+      const pending = yield* actor.timers;
+      expect(pending.map((t) => [t.name, t.event._tag, Duration.toSeconds(t.remaining)])).toEqual([
+        ["retry", "Retry", 6],
+      ]);
+
+      yield* TestClock.adjust("6 seconds");
+      yield* yieldFibers;
+      expect(yield* actor.snapshot).toEqual(JobState.Running({ attempts: 1 }));
+      // Entering Running again arms a fresh timer
+      const [next] = yield* actor.timers;
+      expect(next === undefined ? -1 : Duration.toSeconds(next.remaining)).toBe(10);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("re-arming restarts a timer and cancelling stops it", () =>
+    Effect.gen(function* () {
+      const machine = jobMachine.onEnter(JobState.Paused, ({ self }) =>
+        self.startTimer("retry", "10 seconds", JobEvent.Retry),
+      );
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("job", machine);
+
+      yield* actor.call(JobEvent.Start);
+      yield* TestClock.adjust("6 seconds");
+      yield* actor.call(JobEvent.Pause);
+      const [rearmed] = yield* actor.timers;
+      expect(rearmed === undefined ? -1 : Duration.toSeconds(rearmed.remaining)).toBe(10);
+
+      // Past the original deadline — the re-armed timer has not fired
+      yield* TestClock.adjust("6 seconds");
+      yield* yieldFibers;
+      expect((yield* actor.snapshot)._tag).toBe("Paused");
+
+      yield* actor.call(JobEvent.Cancel);
+      expect(yield* actor.timers).toEqual([]);
+      yield* TestClock.adjust("1 minute");
+      yield* yieldFibers;
+      expect(yield* actor.snapshot).toEqual(JobState.Idle);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("timers end with the actor", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("job", jobMachine);
+
+      yield* actor.call(JobEvent.Start);
+      expect(yield* actor.timers).toHaveLength(1);
+      yield* actor.stop;
+      yield* TestClock.adjust("10 seconds");
+      yield* yieldFibers;
+      expect(yield* actor.snapshot).toEqual(JobState.Running({ attempts: 0 }));
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+});
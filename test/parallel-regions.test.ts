@@ -0,0 +1,209 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Effect, Schema, SubscriptionRef } from "effect";
+
+import {
+  ActorSystemDefault,
+  ActorSystemService,
+  Machine,
+  Slot,
+  State,
+  Event,
+  simulate,
+} from "../src/index.js";
+import { describe, expect, it, yieldFibers } from "effect-bun-test";
+
+const PlayerEvent = Event({
+  Play: { track: Schema.String },
+  Stop: {},
+  ToggleMute: {},
+  PowerOff: {},
+  NowPlaying: Event.reply({}, Schema.String),
+});
+
+const PlaybackState = State({
+  Stopped: {},
+  Playing: { track: Schema.String },
+  Off: {},
+});
+
+const VolumeState = State({
+  Audible: {},
+  Muted: {},
+  Off: {},
+});
+
+const playback = Machine.make({
+  state: PlaybackState,
+  event: PlayerEvent,
+  initial: PlaybackState.Stopped,
+})
+  .on(PlaybackState.Stopped, PlayerEvent.Play, ({ event }) =>
+    PlaybackState.Playing({ track: event.track }),
+  )
+  .on(PlaybackState.Playing, PlayerEvent.Stop, () => PlaybackState.Stopped)
+  .on(PlaybackState.Playing, PlayerEvent.NowPlaying, ({ state }) =>
+    Machine.reply(state, state.track),
+  )
+  .on([PlaybackState.Stopped, PlaybackState.Playing], PlayerEvent.PowerOff, () => PlaybackState.Off)
+  .final(PlaybackState.Off);
+
+const volume = Machine.make({
+  state: VolumeState,
+  event: PlayerEvent,
+  initial: VolumeState.Audible,
+})
+  .on(VolumeState.Audible, PlayerEvent.ToggleMute, () => VolumeState.Muted)
+  .on(VolumeState.Muted, PlayerEvent.ToggleMute, () => VolumeState.Audible)
+  .on(VolumeState.Muted, PlayerEvent.PowerOff, () => VolumeState.Off)
+  .final(VolumeState.Off);
+
+describe("Machine.parallel", () => {
+  it.effect("delivers each event to every region", () =>
+    Effect.gen(function* () {
+      const player = Machine.parallel({ playback, volume });
+      expect(player.initial).toEqual({
+        _tag: "Parallel",
+        regions: { playback: PlaybackState.Stopped, volume: VolumeState.Audible },
+      });
+
+      const result = yield* simulate(player, [
+        PlayerEvent.Play({ track: "intro" }),
+        PlayerEvent.ToggleMute,
+      ]);
+      expect(result.finalState.regions.playback).toEqual(PlaybackState.Playing({ track: "intro" }));
+      expect(result.finalState.regions.volume).toEqual(VolumeState.Muted);
+      expect(result.states).toHaveLength(3);
+    }),
+  );
+
+  it.scoped("is final once every region is final", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("player", Machine.parallel({ playback, volume }));
+
+      // Volume ignores PowerOff while audible — only playback finishes
+      const partial = yield* actor.call(PlayerEvent.PowerOff);
+      expect(partial.newState.regions.playback._tag).toBe("Off");
+      expect(partial.newState.regions.volume._tag).toBe("Audible");
+      expect(partial.isFinal).toBe(false);
+
+      // Finished regions ignore further events
+      yield* actor.call(PlayerEvent.Play({ track: "intro" }));
+      expect((yield* SubscriptionRef.get(actor.state)).regions.playback._tag).toBe("Off");
+
+      yield* actor.call(PlayerEvent.ToggleMute);
+      expect((yield* actor.call(PlayerEvent.PowerOff)).isFinal).toBe(true);
+      const final = yield* actor.awaitFinal;
+      expect(final.regions).toEqual({ playback: PlaybackState.Off, volume: VolumeState.Off });
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("spawn effects are scoped to their region's state", () =>
+    Effect.gen(function* () {
+      const log: string[] = [];
+      const player = Machine.parallel({
+        playback: playback.spawn(PlaybackState.Playing, ({ state }) =>
+          Effect.gen(function* () {
+            log.push(`start:${state.track}`);
+            yield* Effect.addFinalizer(() => Effect.sync(() => log.push("stop")));
+            return yield* Effect.never;
+          }),
+        ),
+        volume,
+      });
+
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("player", player);
+
+      yield* actor.call(PlayerEvent.Play({ track: "intro" }));
+      yield* yieldFibers;
+      yield* actor.call(PlayerEvent.ToggleMute);
+      yield* actor.call(PlayerEvent.ToggleMute);
+      yield* yieldFibers;
+      expect(log).toEqual(["start:intro"]);
+
+      yield* actor.call(PlayerEvent.Stop);
+      yield* yieldFibers;
+      expect(log).toEqual(["start:intro", "stop"]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("a region's reply answers ask", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("player", Machine.parallel({ playback, volume }));
+
+      yield* actor.call(PlayerEvent.Play({ track: "intro" }));
+      expect(yield* actor.ask(PlayerEvent.NowPlaying)).toBe("intro");
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.effect("an event postponed by one region waits for that region to move", () =>
+    Effect.gen(function* () {
+      const player = Machine.parallel({
+        playback,
+        volume: volume.postpone(VolumeState.Muted, PlayerEvent.Play),
+      });
+
+      const result = yield* simulate(player, [
+        PlayerEvent.ToggleMute,
+        PlayerEvent.Play({ track: "intro" }),
+        PlayerEvent.ToggleMute,
+      ]);
+      expect(
+        result.states.map((s) => `${s.regions.playback._tag}/${s.regions.volume._tag}`),
+      ).toEqual(["Stopped/Audible", "Stopped/Muted", "Stopped/Audible", "Playing/Audible"]);
+    }),
+  );
+
+  it.scoped("slots are merged across regions", () =>
+    Effect.gen(function* () {
+      const PlaybackSlots = Slot.define({ announce: Slot.fn({ track: Schema.String }) });
+      const VolumeSlots = Slot.define({ chime: Slot.fn({}) });
+      const log: string[] = [];
+
+      const player = Machine.parallel({
+        playback: Machine.make({
+          state: PlaybackState,
+          event: PlayerEvent,
+          slots: PlaybackSlots,
+          initial: PlaybackState.Stopped,
+        }).on(PlaybackState.Stopped, PlayerEvent.Play, ({ event, slots }) =>
+          Effect.gen(function* () {
+            yield* slots.announce({ track: event.track });
+            return PlaybackState.Playing({ track: event.track });
+          }),
+        ),
+        volume: Machine.make({
+          state: VolumeState,
+          event: PlayerEvent,
+          slots: VolumeSlots,
+          initial: VolumeState.Audible,
+        }).on(VolumeState.Audible, PlayerEvent.ToggleMute, ({ slots }) =>
+          Effect.gen(function* () {
+            yield* slots.chime();
+            return VolumeState.Muted;
+          }),
+        ),
+      });
+
+      const actor = yield* Machine.spawn(player, {
+        slots: {
+          announce: ({ track }) =>
+            Effect.sync(() => {
+              log.push(`announce:${track}`);
+            }),
+          chime: () =>
+            Effect.sync(() => {
+              log.push("chime");
+            }),
+        },
+      });
+      yield* actor.start;
+
+      yield* actor.call(PlayerEvent.Play({ track: "intro" }));
+      yield* actor.call(PlayerEvent.ToggleMute);
+      expect(log).toEqual(["announce:intro", "chime"]);
+    }),
+  );
+});
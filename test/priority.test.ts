@@ -0,0 +1,192 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Deferred, Effect, Fiber, Schema } from "effect";
+
+import { ActorSystemDefault, ActorSystemService, Machine, State, Event } from "../src/index.js";
+import { describe, expect, it, yieldFibers } from "effect-bun-test";
+
+const JobState = State({ Running: {}, Cancelled: {} });
+
+const JobEvent = Event({
+  Work: { n: Schema.Number },
+  Cancel: {},
+  Progress: Event.reply({}, Schema.Number),
+});
+
+/** Every Work waits on the gate, so the first one holds the loop and the rest queue up */
+const buildJobMachine = (gate: Deferred.Deferred<void>, log: string[]) =>
+  Machine.make({ state: JobState, event: JobEvent, initial: JobState.Running })
+    .on(JobState.Running, JobEvent.Work, ({ event }) =>
+      Deferred.await(gate).pipe(
+        Effect.andThen(Effect.sync(() => log.push(`work:${event.n}`))),
+        Effect.as(JobState.Running),
+      ),
+    )
+    .on(JobState.Running, JobEvent.Cancel, () =>
+      Effect.sync(() => log.push("cancel")).pipe(Effect.as(JobState.Cancelled)),
+    )
+    .on(JobState.Running, JobEvent.Progress, ({ state }) =>
+      Effect.sync(() => log.push("progress")).pipe(
+        Effect.as(Machine.reply(state, log.filter((entry) => entry.startsWith("work")).length)),
+      ),
+    )
+    .on(JobState.Cancelled, JobEvent.Work, ({ event }) =>
+      Effect.sync(() => log.push(`skipped:${event.n}`)).pipe(Effect.as(JobState.Cancelled)),
+    )
+    .priority([JobEvent.Cancel, JobEvent.Progress], "high");
+
+describe("Event priorities", () => {
+  it.effect("records priorities on the machine", () =>
+    Effect.sync(() => {
+      const machine = buildJobMachine(Deferred.makeUnsafe(), []);
+      expect(machine.priorities.get("Cancel")).toBe("high");
+      expect(machine.priorities.get("Work")).toBeUndefined();
+    }),
+  );
+
+  it.scoped("high-priority events jump ahead of queued events", () =>
+    Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const log: string[] = [];
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("job", buildJobMachine(gate, log));
+
+      yield* actor.send(JobEvent.Work({ n: 1 }));
+      yield* yieldFibers;
+      yield* actor.send(JobEvent.Work({ n: 2 }));
+      yield* actor.send(JobEvent.Work({ n: 3 }));
+      yield* actor.send(JobEvent.Cancel);
+
+      yield* Deferred.succeed(gate, undefined);
+      yield* actor.waitFor(JobState.Cancelled);
+      yield* yieldFibers;
+      expect(log).toEqual(["work:1", "cancel", "skipped:2", "skipped:3"]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("call and ask requests honour priorities", () =>
+    Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const log: string[] = [];
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("job", buildJobMachine(gate, log));
+
+      yield* actor.send(JobEvent.Work({ n: 1 }));
+      yield* yieldFibers;
+      yield* actor.send(JobEvent.Work({ n: 2 }));
+      const progress = yield* Effect.forkChild(actor.ask(JobEvent.Progress));
+      yield* yieldFibers;
+      const cancel = yield* Effect.forkChild(actor.call(JobEvent.Cancel));
+      yield* yieldFibers;
+
+      yield* Deferred.succeed(gate, undefined);
+      expect(yield* Fiber.join(progress)).toBe(1);
+      const result = yield* Fiber.join(cancel);
+      expect(result.newState._tag).toBe("Cancelled");
+      yield* yieldFibers;
+      expect(log).toEqual(["work:1", "progress", "cancel", "skipped:2"]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+});
+
+const LoadState = State({ Idle: {}, Loading: {}, Ready: {} });
+
+const LoadEvent = Event({
+  Load: {},
+  Loaded: {},
+  Ping: {},
+});
+
+describe("self.raise", () => {
+  it.scoped("processes raised events before anything already queued", () =>
+    Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const log: string[] = [];
+      const machine = Machine.make({
+        state: LoadState,
+        event: LoadEvent,
+        initial: LoadState.Idle,
+      })
+        .on(LoadState.Idle, LoadEvent.Load, () =>
+          Deferred.await(gate).pipe(Effect.as(LoadState.Loading)),
+        )
+        .on(LoadState.Loading, LoadEvent.Loaded, () => LoadState.Ready)
+        .on([LoadState.Loading, LoadState.Ready], LoadEvent.Ping, ({ state }) =>
+          Effect.sync(() => log.push(`ping:${state._tag}`)).pipe(Effect.as(state)),
+        )
+        .onEnter(LoadState.Loading, ({ self }) => self.raise(LoadEvent.Loaded));
+
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("loader", machine);
+
+      yield* actor.send(LoadEvent.Load);
+      yield* yieldFibers;
+      yield* actor.send(LoadEvent.Ping);
+
+      yield* Deferred.succeed(gate, undefined);
+      yield* actor.waitFor(LoadState.Ready);
+      yield* yieldFibers;
+      expect(log).toEqual(["ping:Ready"]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("raised events run before the postpone buffer is retried", () =>
+    Effect.gen(function* () {
+      const log: string[] = [];
+      const machine = Machine.make({
+        state: LoadState,
+        event: LoadEvent,
+        initial: LoadState.Idle,
+      })
+        .on(LoadState.Idle, LoadEvent.Load, () => LoadState.Loading)
+        .on(LoadState.Loading, LoadEvent.Loaded, () => LoadState.Ready)
+        .on([LoadState.Loading, LoadState.Ready], LoadEvent.Ping, ({ state }) =>
+          Effect.sync(() => log.push(`ping:${state._tag}`)).pipe(Effect.as(state)),
+        )
+        .postpone(LoadState.Idle, LoadEvent.Ping)
+        .onEnter(LoadState.Loading, ({ self }) => self.raise(LoadEvent.Loaded));
+
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("loader", machine);
+
+      yield* actor.send(LoadEvent.Ping);
+      yield* actor.send(LoadEvent.Load);
+      yield* actor.waitFor(LoadState.Ready);
+      yield* yieldFibers;
+      expect(log).toEqual(["ping:Ready"]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("raised events do not take up bounded mailbox capacity", () =>
+    Effect.gen(function* () {
+      const gate = yield* Deferred.make<void>();
+      const log: string[] = [];
+      const machine = Machine.make({
+        state: LoadState,
+        event: LoadEvent,
+        initial: LoadState.Idle,
+      })
+        .on(LoadState.Idle, LoadEvent.Load, () => LoadState.Loading)
+        .on(LoadState.Loading, LoadEvent.Loaded, () => LoadState.Ready)
+        .on([LoadState.Loading, LoadState.Ready], LoadEvent.Ping, ({ state }) =>
+          Effect.sync(() => log.push(`ping:${state._tag}`)).pipe(Effect.as(state)),
+        )
+        .onEnter(LoadState.Loading, ({ self }) =>
+          self.raise(LoadEvent.Loaded).pipe(Effect.andThen(Deferred.await(gate))),
+        );
+
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("loader", machine, {
+        mailbox: { capacity: 1, strategy: "fail" },
+      });
+
+      yield* actor.send(LoadEvent.Load);
+      yield* yieldFibers;
+      yield* actor.send(LoadEvent.Ping);
+
+      yield* Deferred.succeed(gate, undefined);
+      yield* actor.waitFor(LoadState.Ready);
+      yield* yieldFibers;
+      expect(log).toEqual(["ping:Ready"]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+});
@@ -0,0 +1,176 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Effect, Fiber, Schema } from "effect";
+
+import {
+  ActorStoppedError,
+  ActorSystemDefault,
+  ActorSystemService,
+  Machine,
+  State,
+  Event,
+} from "../src/index.js";
+import { describe, expect, it, yieldFibers } from "effect-bun-test";
+
+const StoreState = State({
+  Ready: { locked: Schema.Array(Schema.String), written: Schema.Array(Schema.String) },
+});
+
+const StoreEvent = Event({
+  Lock: { key: Schema.String },
+  Unlock: { key: Schema.String },
+  Write: { key: Schema.String },
+  Count: Event.reply({ key: Schema.String }, Schema.Number),
+});
+
+const initial = StoreState.Ready({ locked: [], written: [] });
+
+/** Writes (and counts) for a locked key wait until it is unlocked */
+const buildStoreMachine = (mode: "predicate" | "stash") => {
+  const machine = Machine.make({ state: StoreState, event: StoreEvent, initial })
+    .on(StoreState.Ready, StoreEvent.Lock, ({ state, event }) =>
+      StoreState.Ready({ ...state, locked: [...state.locked, event.key] }),
+    )
+    .on(StoreState.Ready, StoreEvent.Unlock, ({ state, event, self }) =>
+      self
+        .unstashAll()
+        .pipe(
+          Effect.as(
+            StoreState.Ready({ ...state, locked: state.locked.filter((key) => key !== event.key) }),
+          ),
+        ),
+    )
+    .on(StoreState.Ready, StoreEvent.Write, ({ state, event, self }) =>
+      state.locked.includes(event.key)
+        ? self.stash().pipe(Effect.as(state))
+        : StoreState.Ready({ ...state, written: [...state.written, event.key] }),
+    )
+    .on(StoreState.Ready, StoreEvent.Count, ({ state, event, self }) =>
+      state.locked.includes(event.key)
+        ? self.stash().pipe(Effect.as(Machine.reply(state, 0)))
+        : Machine.reply(state, state.written.filter((key) => key === event.key).length),
+    );
+  return mode === "predicate"
+    ? machine.postpone(StoreState.Ready, [StoreEvent.Write, StoreEvent.Count], (state, event) =>
+        state.locked.includes(event.key),
+      )
+    : machine;
+};
+
+describe("Dynamic postpone", () => {
+  it.scoped("postpone with a predicate buffers only matching events", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("store", buildStoreMachine("predicate"));
+
+      yield* actor.send(StoreEvent.Lock({ key: "a" }));
+      yield* actor.send(StoreEvent.Write({ key: "a" }));
+      const postponed = yield* actor.call(StoreEvent.Write({ key: "a" }));
+      expect(postponed.postponed).toBe(true);
+      yield* actor.send(StoreEvent.Write({ key: "b" }));
+      yield* yieldFibers;
+      expect((yield* actor.snapshot).written).toEqual(["b"]);
+
+      yield* actor.send(StoreEvent.Unlock({ key: "a" }));
+      yield* yieldFibers;
+      expect((yield* actor.snapshot).written).toEqual(["b", "a", "a"]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("self.stash buffers the event until self.unstashAll", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("store", buildStoreMachine("stash"));
+
+      yield* actor.send(StoreEvent.Lock({ key: "a" }));
+      yield* actor.send(StoreEvent.Write({ key: "a" }));
+      const stashed = yield* actor.call(StoreEvent.Write({ key: "a" }));
+      expect(stashed.postponed).toBe(true);
+      yield* actor.send(StoreEvent.Write({ key: "b" }));
+      const count = yield* Effect.forkChild(actor.ask(StoreEvent.Count({ key: "a" })));
+      yield* yieldFibers;
+      expect((yield* actor.snapshot).written).toEqual(["b"]);
+      expect(count.pollUnsafe()).toBeUndefined();
+
+      yield* actor.send(StoreEvent.Unlock({ key: "a" }));
+      expect(yield* Fiber.join(count)).toBe(2);
+      expect((yield* actor.snapshot).written).toEqual(["b", "a", "a"]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("a stashed event does not commit a transition", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("store", buildStoreMachine("stash"));
+      yield* actor.send(StoreEvent.Lock({ key: "a" }));
+      yield* yieldFibers;
+
+      const notified: string[] = [];
+      actor.subscribe((state) => notified.push(state._tag));
+      yield* actor.send(StoreEvent.Write({ key: "a" }));
+      yield* yieldFibers;
+      expect(notified).toEqual([]);
+
+      yield* actor.send(StoreEvent.Unlock({ key: "a" }));
+      yield* yieldFibers;
+      expect(notified).toEqual(["Ready", "Ready"]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.scoped("stashed asks fail with ActorStoppedError on stop", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("store", buildStoreMachine("stash"));
+
+      yield* actor.send(StoreEvent.Lock({ key: "a" }));
+      const count = yield* Effect.forkChild(actor.ask(StoreEvent.Count({ key: "a" })));
+      yield* yieldFibers;
+
+      yield* actor.stop;
+      const error = yield* Fiber.join(count).pipe(Effect.flip);
+      expect(error).toBeInstanceOf(ActorStoppedError);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+});
+
+const WorkerState = State({ Idle: {}, Busy: {} });
+const GateState = State({ Closed: {}, Open: {} });
+const JobEvent = Event({ Start: {}, Open: {} });
+
+describe("self.stash in parallel regions", () => {
+  it.scoped("a stash in one region keeps every region from transitioning", () =>
+    Effect.gen(function* () {
+      const log: string[] = [];
+      const worker = Machine.make({
+        state: WorkerState,
+        event: JobEvent,
+        initial: WorkerState.Idle,
+      })
+        .on(WorkerState.Idle, JobEvent.Start, () => WorkerState.Busy)
+        .onExit(WorkerState.Idle, () => Effect.sync(() => log.push("exit Idle")))
+        .onEnter(WorkerState.Busy, () => Effect.sync(() => log.push("enter Busy")));
+      const gate = Machine.make({ state: GateState, event: JobEvent, initial: GateState.Closed })
+        .on(GateState.Closed, JobEvent.Start, ({ state, self }) =>
+          self.stash().pipe(Effect.as(state)),
+        )
+        .on(GateState.Closed, JobEvent.Open, ({ self }) =>
+          self.unstashAll().pipe(Effect.as(GateState.Open)),
+        );
+
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("job", Machine.parallel({ worker, gate }));
+
+      yield* actor.send(JobEvent.Start);
+      yield* yieldFibers;
+      expect(log).toEqual([]);
+      expect((yield* actor.snapshot).regions.worker).toEqual(WorkerState.Idle);
+
+      yield* actor.send(JobEvent.Open);
+      yield* yieldFibers;
+      expect(log).toEqual(["exit Idle", "enter Busy"]);
+      expect((yield* actor.snapshot).regions).toEqual({
+        worker: WorkerState.Busy,
+        gate: GateState.Open,
+      });
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+});
@@ -0,0 +1,114 @@
+// @effect-diagnostics strictEffectProvide:off - tests are entry points
+import { Cause, Effect, Exit, Schema, SubscriptionRef } from "effect";
+
+import {
+  ActorFailedError,
+  ActorSystemDefault,
+  ActorSystemService,
+  Machine,
+  simulate,
+  State,
+  Event,
+  TransitionFailedError,
+} from "../src/index.js";
+import { describe, expect, it } from "effect-bun-test";
+
+class CardDeclined extends Schema.TaggedErrorClass<CardDeclined>()("CardDeclined", {
+  reason: Schema.String,
+}) {}
+
+class GatewayDown extends Schema.TaggedErrorClass<GatewayDown>()("GatewayDown", {}) {}
+
+const PaymentState = State({
+  Idle: {},
+  Charging: { amount: Schema.Number },
+  Paid: { amount: Schema.Number },
+  Declined: { reason: Schema.String },
+  Offline: {},
+});
+
+const PaymentEvent = Event({
+  Pay: { amount: Schema.Number },
+  Confirm: { outcome: Schema.Literals(["ok", "declined", "down"]) },
+});
+
+const Busy = Machine.group("Busy", [PaymentState.Charging]);
+
+const charge = Effect.fn(function* (outcome: "ok" | "declined" | "down") {
+  if (outcome === "declined") return yield* new CardDeclined({ reason: "insufficient funds" });
+  if (outcome === "down") return yield* new GatewayDown();
+});
+
+const buildPaymentMachine = (log: Array<string>) =>
+  Machine.make({
+    state: PaymentState,
+    event: PaymentEvent,
+    initial: PaymentState.Idle,
+  })
+    .on(PaymentState.Idle, PaymentEvent.Pay, ({ event }) =>
+      PaymentState.Charging({ amount: event.amount }),
+    )
+    .on(PaymentState.Charging, PaymentEvent.Confirm, ({ state, event }) =>
+      charge(event.outcome).pipe(Effect.as(PaymentState.Paid({ amount: state.amount }))),
+    )
+    .onError(PaymentState.Charging, CardDeclined, ({ error }) =>
+      PaymentState.Declined({ reason: error.reason }),
+    )
+    .onExit(PaymentState.Charging, () => Effect.sync(() => log.push("exit Charging")))
+    .onEnter(PaymentState.Paid, () => Effect.sync(() => log.push("enter Paid")))
+    .onEnter(PaymentState.Declined, () => Effect.sync(() => log.push("enter Declined")));
+
+describe("Typed transition failures", () => {
+  it.scoped("onError maps a typed failure to a state", () =>
+    Effect.gen(function* () {
+      const log: Array<string> = [];
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("payment", buildPaymentMachine(log));
+
+      yield* actor.call(PaymentEvent.Pay({ amount: 10 }));
+      yield* actor.call(PaymentEvent.Confirm({ outcome: "declined" }));
+
+      expect(yield* SubscriptionRef.get(actor.state)).toEqual(
+        PaymentState.Declined({ reason: "insufficient funds" }),
+      );
+      // The failed handler's target (Paid) is never entered
+      expect(log).toEqual(["exit Charging", "enter Declined"]);
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+
+  it.effect("group handlers catch failures of member states", () =>
+    Effect.gen(function* () {
+      const machine = buildPaymentMachine([]).onError(Busy, "GatewayDown", () =>
+        Effect.succeed(PaymentState.Offline),
+      );
+
+      const result = yield* simulate(machine, [
+        PaymentEvent.Pay({ amount: 10 }),
+        PaymentEvent.Confirm({ outcome: "down" }),
+      ]);
+      expect(result.finalState).toEqual(PaymentState.Offline);
+    }),
+  );
+
+  it.scoped("an unhandled failure ends the actor as Failed", () =>
+    Effect.gen(function* () {
+      const system = yield* ActorSystemService;
+      const actor = yield* system.spawn("payment", buildPaymentMachine([]));
+
+      yield* actor.call(PaymentEvent.Pay({ amount: 10 }));
+      const confirm = yield* Effect.exit(actor.call(PaymentEvent.Confirm({ outcome: "down" })));
+      const defect = Exit.isFailure(confirm) ? Cause.squash(confirm.cause) : undefined;
+      expect(defect).toBeInstanceOf(TransitionFailedError);
+      expect(defect).toMatchObject({ state: "Charging", event: "Confirm" });
+
+      const exit = yield* actor.awaitExit;
+      expect(exit._tag).toBe("Failed");
+      expect(exit._tag === "Failed" && exit.state).toEqual(PaymentState.Charging({ amount: 10 }));
+      expect(exit._tag === "Failed" && exit.error).toBeInstanceOf(GatewayDown);
+
+      const output = yield* Effect.flip(actor.awaitOutput);
+      expect(output).toBeInstanceOf(ActorFailedError);
+      expect(output.reason).toBe("failed");
+    }).pipe(Effect.provide(ActorSystemDefault)),
+  );
+});
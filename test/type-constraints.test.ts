@@ -54,14 +54,13 @@ const _test2 = Machine.make({
   // @ts-expect-error - Handler must return state from machine's schema
 }).on(MyState.Idle, MyEvent.Start, () => WrongState.Other);
 
-// Test 3: Handler cannot produce errors
+// Test 3: Handler CAN fail with typed errors (recovered via .onError) - should compile
 class MyError extends Schema.TaggedErrorClass<MyError>()("MyError", {}) {}
 
 const _test3 = Machine.make({
   state: MyState,
   event: MyEvent,
   initial: MyState.Idle,
-  // @ts-expect-error - Handler cannot produce errors (MyError not assignable to never)
 }).on(MyState.Idle, MyEvent.Start, () =>
   Effect.gen(function* () {
     return yield* new MyError({});
@@ -234,5 +233,17 @@ const _test16 = Machine.make({
   return MyState.Loading({ url: "/" });
 });
 
+// Test 17: Declared targets narrow the handler's return type
+const _test17 = Machine.make({
+  state: MyState,
+  event: MyEvent,
+  initial: MyState.Idle,
+})
+  .on(MyState.Idle, MyEvent.Start, [MyState.Loading, MyState.Done], () =>
+    MyState.Loading({ url: "/" }),
+  )
+  // @ts-expect-error - Idle is not a declared target
+  .on(MyState.Loading, MyEvent.Complete, [MyState.Done], () => MyState.Idle);
+
 // This file should compile with all @ts-expect-error comments being valid
 export {};